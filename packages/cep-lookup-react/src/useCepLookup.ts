@@ -1,5 +1,5 @@
 import { useEffect, useState, useRef } from "react";
-import { Address } from "@eusilvio/cep-lookup";
+import { Address, LookupAbortedError } from "@eusilvio/cep-lookup";
 import { useCepLookupInstance } from "./CepProvider";
 
 export const useCepLookup = <T = Address>(cep: string, delay = 500) => {
@@ -18,22 +18,26 @@ export const useCepLookup = <T = Address>(cep: string, delay = 500) => {
       clearTimeout(timeoutRef.current);
     }
 
+    // Cancels the in-flight lookup when the CEP changes or the component unmounts
+    const controller = new AbortController();
+
     if (cleanedCep.length === 8) {
       setLoading(true);
       setError(null);
 
       timeoutRef.current = setTimeout(async () => {
         try {
-          const result = await cepLookup.lookup(cleanedCep);
+          const result = await cepLookup.lookup(cleanedCep, undefined, { signal: controller.signal });
           if (cleanedCep !== currentCepRef.current) return;
           setAddress(mapper ? mapper(result) : (result as unknown as T));
           setError(null);
         } catch (e: any) {
-          if (cleanedCep !== currentCepRef.current) return;
+          if (e instanceof LookupAbortedError || cleanedCep !== currentCepRef.current) return;
           setError(e instanceof Error ? e : new Error(String(e)));
           setAddress(null);
         } finally {
-          if (cleanedCep === currentCepRef.current) {
+          // An aborted lookup leaves loading to the one that replaced it, even for the same CEP
+          if (!controller.signal.aborted && cleanedCep === currentCepRef.current) {
             setLoading(false);
           }
         }
@@ -48,6 +52,7 @@ export const useCepLookup = <T = Address>(cep: string, delay = 500) => {
       if (timeoutRef.current) {
         clearTimeout(timeoutRef.current);
       }
+      controller.abort();
     };
   }, [cep, delay, cepLookup, mapper]);
 
@@ -1,5 +1,5 @@
 import React from 'react';
-import { renderHook, waitFor } from '@testing-library/react';
+import { act, renderHook, waitFor } from '@testing-library/react';
 import { CepProvider, useCepLookup } from '../src';
 
 // Mock the core library
@@ -8,7 +8,17 @@ jest.mock('@eusilvio/cep-lookup', () => {
   return {
     ...actual,
     CepLookup: jest.fn().mockImplementation(() => ({
-      lookup: jest.fn().mockImplementation((cep) => {
+      lookup: jest.fn().mockImplementation((cep, _mapper, options) => {
+        if (cep === '01310100') {
+          // Slow lookup that honours the abort signal
+          return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => resolve({ cep, state: 'SP', city: 'São Paulo', neighborhood: 'Bela Vista', street: 'Avenida Paulista', service: 'ViaCEP' }), 50);
+            options?.signal?.addEventListener('abort', () => {
+              clearTimeout(timer);
+              reject(new actual.LookupAbortedError(cep));
+            });
+          });
+        }
         if (cep === '01001000') {
           return Promise.resolve({
             cep: '01001000',
@@ -74,6 +84,21 @@ describe('useCepLookup', () => {
     expect(result.current.address).toEqual({ display: 'São Paulo/SP' });
   });
 
+  it('should keep loading when a lookup is replaced by one for the same CEP', async () => {
+    const { result, rerender } = renderHook(({ cep }) => useCepLookup(cep, 0), {
+      wrapper,
+      initialProps: { cep: '01310-100' },
+    });
+    await act(() => new Promise((resolve) => setTimeout(resolve, 10)));
+
+    rerender({ cep: '01310100' });
+    await act(() => new Promise((resolve) => setTimeout(resolve, 10)));
+    expect(result.current.loading).toBe(true);
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    expect(result.current.address).toMatchObject({ cep: '01310100' });
+  });
+
   it('should not search if CEP is incomplete', async () => {
     const { result } = renderHook(() => useCepLookup('01001'), { wrapper });
 
@@ -1,5 +1,5 @@
 import { ref, watch, onUnmounted, Ref, getCurrentInstance, inject, InjectionKey, Plugin } from 'vue';
-import { CepLookup, Address, InMemoryCache, CepLookupOptions } from '@eusilvio/cep-lookup';
+import { CepLookup, Address, InMemoryCache, CepLookupOptions, LookupAbortedError } from '@eusilvio/cep-lookup';
 import { viaCepProvider, brasilApiProvider, apicepProvider, openCepProvider } from '@eusilvio/cep-lookup/providers';
 
 const defaultProviders = [viaCepProvider, brasilApiProvider, apicepProvider, openCepProvider];
@@ -62,9 +62,13 @@ export function useCepLookup<T = Address>(
   const delay = options.delay ?? 500;
   let timeoutId: any = null;
   let currentLookupCep = '';
+  let controller: AbortController | null = null;
 
   const cleanup = () => {
     if (timeoutId) clearTimeout(timeoutId);
+    // Cancels the in-flight lookup when the CEP changes or the component unmounts
+    controller?.abort();
+    controller = null;
   };
 
   const lookup = async (val: string) => {
@@ -77,18 +81,21 @@ export function useCepLookup<T = Address>(
       loading.value = true;
       error.value = null;
 
+      controller = new AbortController();
+      const { signal } = controller;
       timeoutId = setTimeout(async () => {
         try {
-          const result = await cepLookup.lookup(cleanedCep);
+          const result = await cepLookup.lookup(cleanedCep, undefined, { signal });
           if (cleanedCep !== currentLookupCep) return;
           address.value = options.mapper ? options.mapper(result) : (result as unknown as T);
           error.value = null;
         } catch (e: any) {
-          if (cleanedCep !== currentLookupCep) return;
+          if (e instanceof LookupAbortedError || cleanedCep !== currentLookupCep) return;
           error.value = e instanceof Error ? e : new Error(String(e));
           address.value = null;
         } finally {
-          if (cleanedCep === currentLookupCep) {
+          // An aborted lookup leaves loading to the one that replaced it, even for the same CEP
+          if (!signal.aborted && cleanedCep === currentLookupCep) {
             loading.value = false;
           }
         }
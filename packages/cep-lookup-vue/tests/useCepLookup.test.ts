@@ -7,7 +7,17 @@ jest.mock('@eusilvio/cep-lookup', () => {
   return {
     ...actual,
     CepLookup: jest.fn().mockImplementation(() => ({
-      lookup: jest.fn().mockImplementation((cep) => {
+      lookup: jest.fn().mockImplementation((cep, _mapper, options) => {
+        if (cep === '01310100') {
+          // Slow lookup that honours the abort signal
+          return new Promise((resolve, reject) => {
+            const timer = setTimeout(() => resolve({ cep, state: 'SP', city: 'São Paulo', neighborhood: 'Bela Vista', street: 'Avenida Paulista', service: 'ViaCEP' }), 50);
+            options?.signal?.addEventListener('abort', () => {
+              clearTimeout(timer);
+              reject(new actual.LookupAbortedError(cep));
+            });
+          });
+        }
         if (cep === '01001000') {
           return Promise.resolve({
             cep: '01001000',
@@ -77,6 +87,21 @@ describe('useCepLookup (Vue)', () => {
     expect(address.value?.cep).toBe('01001000');
   });
 
+  it('should keep loading when a lookup is replaced by one for the same CEP', async () => {
+    const cep = ref('01310-100');
+    const { address, loading } = useCepLookup(cep, { delay: 0 });
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    cep.value = '01310100';
+    await nextTick();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(loading.value).toBe(true);
+
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(loading.value).toBe(false);
+    expect(address.value?.cep).toBe('01310100');
+  });
+
   it('should expose warmup function', async () => {
     const { warmup } = useCepLookup('', { delay: 0 });
     
@@ -1,16 +1,32 @@
 
 import { Address } from '../types';
+import { CepNotFoundError } from '../errors';
+
+/** A value that may be returned synchronously or as a Promise. */
+export type MaybePromise<T> = T | Promise<T>;
+
+/**
+ * @interface CacheReadResult
+ * @description A cached value plus whether it is past its TTL but still servable (stale-while-revalidate).
+ */
+export interface CacheReadResult {
+  value: Address;
+  stale: boolean;
+}
 
 /**
  * @interface Cache
  * @description Defines the contract for a cache implementation.
+ * Methods may return Promises, so Redis, IndexedDB or filesystem backends can be plugged in.
  */
 export interface Cache {
-  get(key: string): Address | undefined;
-  set(key: string, value: Address): void;
-  clear(): void;
-  delete?(key: string): void;
-  has?(key: string): boolean;
+  get(key: string): MaybePromise<Address | undefined>;
+  set(key: string, value: Address): MaybePromise<void>;
+  clear(): MaybePromise<void>;
+  delete?(key: string): MaybePromise<void>;
+  has?(key: string): MaybePromise<boolean>;
+  /** Returns fresh and stale entries, used by `CepLookup` in stale-while-revalidate mode. */
+  getEntry?(key: string): MaybePromise<CacheReadResult | undefined>;
 }
 
 interface CacheEntry {
@@ -18,47 +34,119 @@ interface CacheEntry {
   timestamp: number;
 }
 
+/**
+ * @interface CacheSnapshot
+ * @description Serializable copy of an `InMemoryCache`, preserving entry timestamps so TTLs survive a restart.
+ */
+export interface CacheSnapshot {
+  version: 1;
+  entries: Array<{ key: string; value: Address; timestamp: number }>;
+}
+
 export interface InMemoryCacheOptions {
   /** Time-to-live in milliseconds. Default: Infinity (no expiry) */
   ttl?: number;
   /** Maximum number of entries. Default: Infinity (no limit) */
   maxSize?: number;
+  /** Extra time in ms an expired entry is kept and served as stale via `getEntry`. Default: 0 */
+  staleTtl?: number;
+}
+
+/**
+ * @interface CacheStats
+ * @description Counters reported by `InMemoryCache.stats()`.
+ */
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Entries dropped to respect `maxSize`. */
+  evictions: number;
+  /** Entries dropped because their TTL (plus `staleTtl`) elapsed. */
+  expirations: number;
+  size: number;
+  /** hits / (hits + misses), or 0 before the first read. */
+  hitRate: number;
 }
 
 /**
  * @class InMemoryCache
- * @description In-memory cache with optional TTL and size limit.
+ * @description In-memory LRU cache with optional TTL and size limit.
  */
 export class InMemoryCache implements Cache {
   private cache = new Map<string, CacheEntry>();
   private ttl: number;
   private maxSize: number;
+  private staleTtl: number;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private expirations = 0;
 
   constructor(options?: InMemoryCacheOptions) {
     this.ttl = options?.ttl ?? Infinity;
     this.maxSize = options?.maxSize ?? Infinity;
+    this.staleTtl = options?.staleTtl ?? 0;
   }
 
-  get(key: string): Address | undefined {
+  private isExpired(entry: CacheEntry): boolean {
+    return this.ttl !== Infinity && Date.now() - entry.timestamp > this.ttl;
+  }
+
+  private isEvictable(entry: CacheEntry): boolean {
+    return this.ttl !== Infinity && Date.now() - entry.timestamp > this.ttl + this.staleTtl;
+  }
+
+  /**
+   * Returns the live entry for `key`, dropping it if its TTL elapsed.
+   * Map iteration order doubles as recency order, so a read moves the entry to the end.
+   */
+  private touch(key: string): CacheEntry | undefined {
     const entry = this.cache.get(key);
     if (!entry) return undefined;
-    if (this.ttl !== Infinity && Date.now() - entry.timestamp > this.ttl) {
-      this.cache.delete(key);
+    this.cache.delete(key);
+    if (this.isEvictable(entry)) {
+      this.expirations += 1;
       return undefined;
     }
+    this.cache.set(key, entry);
+    return entry;
+  }
+
+  private evictIfFull(): void {
+    if (this.cache.size >= this.maxSize) {
+      const leastRecentKey = this.cache.keys().next().value;
+      if (leastRecentKey !== undefined) {
+        this.cache.delete(leastRecentKey);
+        this.evictions += 1;
+      }
+    }
+  }
+
+  get(key: string): Address | undefined {
+    const entry = this.touch(key);
+    if (!entry || this.isExpired(entry)) {
+      this.misses += 1;
+      return undefined;
+    }
+    this.hits += 1;
     return entry.value;
   }
 
+  getEntry(key: string): CacheReadResult | undefined {
+    const entry = this.touch(key);
+    if (!entry) {
+      this.misses += 1;
+      return undefined;
+    }
+    this.hits += 1;
+    return { value: entry.value, stale: this.isExpired(entry) };
+  }
+
   set(key: string, value: Address): void {
     if (this.cache.has(key)) {
       this.cache.delete(key);
     }
-    if (this.cache.size >= this.maxSize) {
-      const oldestKey = this.cache.keys().next().value;
-      if (oldestKey !== undefined) {
-        this.cache.delete(oldestKey);
-      }
-    }
+    this.evictIfFull();
     this.cache.set(key, { value, timestamp: Date.now() });
   }
 
@@ -69,11 +157,119 @@ export class InMemoryCache implements Cache {
   has(key: string): boolean {
     if (!this.cache.has(key)) return false;
     const entry = this.cache.get(key)!;
-    if (this.ttl !== Infinity && Date.now() - entry.timestamp > this.ttl) {
+    if (this.isEvictable(entry)) {
       this.cache.delete(key);
+      this.expirations += 1;
       return false;
     }
-    return true;
+    return !this.isExpired(entry);
+  }
+
+  clear(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * @method stats
+   * @description Returns hit/miss/eviction/expiration counters and the current size.
+   */
+  stats(): CacheStats {
+    const reads = this.hits + this.misses;
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      expirations: this.expirations,
+      size: this.cache.size,
+      hitRate: reads === 0 ? 0 : this.hits / reads,
+    };
+  }
+
+  /**
+   * @method export
+   * @description Returns a snapshot of all entries that have not been evicted yet, least recently used first.
+   */
+  export(): CacheSnapshot {
+    const entries: CacheSnapshot['entries'] = [];
+    this.cache.forEach((entry, key) => {
+      if (!this.isEvictable(entry)) {
+        entries.push({ key, value: entry.value, timestamp: entry.timestamp });
+      }
+    });
+    return { version: 1, entries };
+  }
+
+  toJSON(): CacheSnapshot {
+    return this.export();
+  }
+
+  /**
+   * @method load
+   * @description Restores entries from a snapshot in recency order, keeping their original timestamps.
+   * Entries already past `ttl + staleTtl` are skipped and `maxSize` is enforced.
+   */
+  load(snapshot: CacheSnapshot): void {
+    if (!snapshot || snapshot.version !== 1 || !Array.isArray(snapshot.entries)) return;
+    snapshot.entries.forEach(({ key, value, timestamp }) => {
+      const entry = { value, timestamp };
+      if (this.isEvictable(entry)) return;
+      this.cache.delete(key);
+      this.evictIfFull();
+      this.cache.set(key, entry);
+    });
+  }
+
+  static fromSnapshot(snapshot: CacheSnapshot, options?: InMemoryCacheOptions): InMemoryCache {
+    const cache = new InMemoryCache(options);
+    cache.load(snapshot);
+    return cache;
+  }
+}
+
+interface NegativeCacheEntry {
+  error: CepNotFoundError;
+  timestamp: number;
+}
+
+/**
+ * @class NegativeCache
+ * @description Remembers CEPs that every provider reported as not found, with its own TTL and size limit.
+ */
+export class NegativeCache {
+  private cache = new Map<string, NegativeCacheEntry>();
+  private ttl: number;
+  private maxSize: number;
+
+  constructor(options: { ttl: number; maxSize?: number }) {
+    this.ttl = options.ttl;
+    this.maxSize = options.maxSize ?? Infinity;
+  }
+
+  get(key: string): CepNotFoundError | undefined {
+    const entry = this.cache.get(key);
+    if (!entry) return undefined;
+    if (Date.now() - entry.timestamp > this.ttl) {
+      this.cache.delete(key);
+      return undefined;
+    }
+    return entry.error;
+  }
+
+  set(key: string, error: CepNotFoundError): void {
+    if (this.cache.has(key)) {
+      this.cache.delete(key);
+    }
+    if (this.cache.size >= this.maxSize) {
+      const oldestKey = this.cache.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.cache.delete(oldestKey);
+      }
+    }
+    this.cache.set(key, { error, timestamp: Date.now() });
+  }
+
+  delete(key: string): void {
+    this.cache.delete(key);
   }
 
   clear(): void {
@@ -0,0 +1,140 @@
+import { Address } from '../types';
+import { Cache } from './index';
+
+/**
+ * Bump whenever the `Address` shape changes so entries persisted by older versions are discarded.
+ */
+const ADDRESS_SCHEMA_VERSION = 1;
+
+/** The subset of the Web Storage API used by `WebStorageCache`. */
+export type WebStorageLike = Pick<Storage, 'getItem' | 'setItem' | 'removeItem' | 'key' | 'length'>;
+
+export interface WebStorageCacheOptions {
+  /** Storage backend. Default: `localStorage` (no-op when unavailable, e.g. during SSR). */
+  storage?: WebStorageLike;
+  /** Key prefix used to namespace entries. Default: "cep-lookup:" */
+  prefix?: string;
+  /** Time-to-live in milliseconds. Default: Infinity (no expiry) */
+  ttl?: number;
+  /** Maximum number of entries kept under the prefix. Default: 500 */
+  maxEntries?: number;
+  /** Application schema version; changing it invalidates previously stored entries. Default: 1 */
+  version?: number | string;
+}
+
+interface StoredEntry {
+  version: string;
+  value: Address;
+  timestamp: number;
+}
+
+function isQuotaExceeded(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const { name, code } = error as { name?: string; code?: number };
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014;
+}
+
+function resolveDefaultStorage(): WebStorageLike | undefined {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : undefined;
+  } catch {
+    // Accessing localStorage throws when storage is disabled (e.g. Safari private mode)
+    return undefined;
+  }
+}
+
+/**
+ * @class WebStorageCache
+ * @description Cache backed by `localStorage`/`sessionStorage`, so addresses survive page reloads.
+ */
+export class WebStorageCache implements Cache {
+  private storage?: WebStorageLike;
+  private prefix: string;
+  private ttl: number;
+  private maxEntries: number;
+  private version: string;
+
+  constructor(options?: WebStorageCacheOptions) {
+    this.storage = options?.storage ?? resolveDefaultStorage();
+    this.prefix = options?.prefix ?? 'cep-lookup:';
+    this.ttl = options?.ttl ?? Infinity;
+    this.maxEntries = options?.maxEntries ?? 500;
+    this.version = `${ADDRESS_SCHEMA_VERSION}.${options?.version ?? 1}`;
+  }
+
+  private read(storageKey: string): StoredEntry | undefined {
+    const raw = this.storage?.getItem(storageKey);
+    if (!raw) return undefined;
+    try {
+      const entry = JSON.parse(raw) as StoredEntry;
+      const expired = this.ttl !== Infinity && Date.now() - entry.timestamp > this.ttl;
+      if (entry.version !== this.version || expired || !entry.value) {
+        this.storage?.removeItem(storageKey);
+        return undefined;
+      }
+      return entry;
+    } catch {
+      this.storage?.removeItem(storageKey);
+      return undefined;
+    }
+  }
+
+  private ownKeys(): string[] {
+    if (!this.storage) return [];
+    const keys: string[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key !== null && key.startsWith(this.prefix)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  /** Drops invalid entries, then the oldest ones until at most `limit` remain. */
+  private prune(limit: number): void {
+    const live = this.ownKeys()
+      .map((key) => ({ key, entry: this.read(key) }))
+      .filter((item): item is { key: string; entry: StoredEntry } => item.entry !== undefined)
+      .sort((a, b) => a.entry.timestamp - b.entry.timestamp);
+    live.slice(0, Math.max(live.length - limit, 0)).forEach(({ key }) => this.storage?.removeItem(key));
+  }
+
+  get(key: string): Address | undefined {
+    return this.read(this.prefix + key)?.value;
+  }
+
+  set(key: string, value: Address): void {
+    if (!this.storage) return;
+    const storageKey = this.prefix + key;
+    const entry: StoredEntry = { version: this.version, value, timestamp: Date.now() };
+    const payload = JSON.stringify(entry);
+    this.storage.removeItem(storageKey);
+    // Counting keys is cheap; only parse and sort entries once the namespace is actually full
+    if (this.ownKeys().length >= this.maxEntries) this.prune(this.maxEntries - 1);
+    try {
+      this.storage.setItem(storageKey, payload);
+    } catch (error) {
+      if (!isQuotaExceeded(error)) throw error;
+      // Free half of our entries and retry once; a full quota only costs a cache miss
+      this.prune(Math.floor(this.ownKeys().length / 2));
+      try {
+        this.storage.setItem(storageKey, payload);
+      } catch (retryError) {
+        if (!isQuotaExceeded(retryError)) throw retryError;
+      }
+    }
+  }
+
+  delete(key: string): void {
+    this.storage?.removeItem(this.prefix + key);
+  }
+
+  has(key: string): boolean {
+    return this.read(this.prefix + key) !== undefined;
+  }
+
+  clear(): void {
+    this.ownKeys().forEach((key) => this.storage?.removeItem(key));
+  }
+}
@@ -0,0 +1,26 @@
+/** Faixas de CEP (5 primeiros digitos) por UF, conforme a tabela dos Correios */
+export const cepRangesByState: Array<[start: number, end: number, state: string]> = [
+  [1000, 19999, "SP"], [20000, 28999, "RJ"], [29000, 29999, "ES"], [30000, 39999, "MG"],
+  [40000, 48999, "BA"], [49000, 49999, "SE"], [50000, 56999, "PE"], [57000, 57999, "AL"],
+  [58000, 58999, "PB"], [59000, 59999, "RN"], [60000, 63999, "CE"], [64000, 64999, "PI"],
+  [65000, 65999, "MA"], [66000, 68899, "PA"], [68900, 68999, "AP"], [69000, 69299, "AM"],
+  [69300, 69399, "RR"], [69400, 69899, "AM"], [69900, 69999, "AC"], [70000, 72799, "DF"],
+  [72800, 72999, "GO"], [73000, 73699, "DF"], [73700, 76799, "GO"], [76800, 76999, "RO"],
+  [77000, 77999, "TO"], [78000, 78899, "MT"], [79000, 79999, "MS"], [80000, 87999, "PR"],
+  [88000, 89999, "SC"], [90000, 99999, "RS"],
+];
+
+/** Faixas de CEP das capitais e grandes municipios (5 primeiros digitos) */
+export const cepRangesByCity: Array<[start: number, end: number, state: string, city: string]> = [
+  [1000, 5999, "SP", "São Paulo"], [7000, 7399, "SP", "Guarulhos"], [8000, 8499, "SP", "São Paulo"],
+  [11000, 11099, "SP", "Santos"], [13000, 13139, "SP", "Campinas"], [20000, 23799, "RJ", "Rio de Janeiro"],
+  [29000, 29099, "ES", "Vitória"], [30000, 31999, "MG", "Belo Horizonte"], [40000, 42599, "BA", "Salvador"],
+  [49000, 49098, "SE", "Aracaju"], [50000, 52999, "PE", "Recife"], [57000, 57099, "AL", "Maceió"],
+  [58000, 58099, "PB", "João Pessoa"], [59000, 59139, "RN", "Natal"], [60000, 61599, "CE", "Fortaleza"],
+  [64000, 64099, "PI", "Teresina"], [65000, 65099, "MA", "São Luís"], [66000, 66999, "PA", "Belém"],
+  [68900, 68914, "AP", "Macapá"], [69000, 69099, "AM", "Manaus"], [69300, 69339, "RR", "Boa Vista"],
+  [69900, 69923, "AC", "Rio Branco"], [70000, 72799, "DF", "Brasília"], [74000, 74899, "GO", "Goiânia"],
+  [76800, 76834, "RO", "Porto Velho"], [77000, 77249, "TO", "Palmas"], [78000, 78109, "MT", "Cuiabá"],
+  [79000, 79129, "MS", "Campo Grande"], [80000, 82999, "PR", "Curitiba"], [88000, 88099, "SC", "Florianópolis"],
+  [90000, 91999, "RS", "Porto Alegre"],
+];
@@ -0,0 +1,2017 @@
+/**
+ * Todos os municipios do IBGE por UF: codigo de 7 digitos, nome oficial e DDD, 5.571 no total.
+ * Modulo separado para que bundles que nao importam `@eusilvio/cep-lookup/ibge` nao o incluam.
+ */
+export const ibgeMunicipalities: Record<string, Array<[ibge: string, city: string, ddd: string]>> = {
+  RO: [
+    ["1100015", "Alta Floresta D'Oeste", "69"], ["1100023", "Ariquemes", "69"], ["1100031", "Cabixi", "69"],
+    ["1100049", "Cacoal", "69"], ["1100056", "Cerejeiras", "69"], ["1100064", "Colorado do Oeste", "69"],
+    ["1100072", "Corumbiara", "69"], ["1100080", "Costa Marques", "69"], ["1100098", "Espigão D'Oeste", "69"],
+    ["1100106", "Guajará-Mirim", "69"], ["1100114", "Jaru", "69"], ["1100122", "Ji-Paraná", "69"],
+    ["1100130", "Machadinho D'Oeste", "69"], ["1100148", "Nova Brasilândia D'Oeste", "69"],
+    ["1100155", "Ouro Preto do Oeste", "69"], ["1100189", "Pimenta Bueno", "69"], ["1100205", "Porto Velho", "69"],
+    ["1100254", "Presidente Médici", "69"], ["1100262", "Rio Crespo", "69"], ["1100288", "Rolim de Moura", "69"],
+    ["1100296", "Santa Luzia D'Oeste", "69"], ["1100304", "Vilhena", "69"], ["1100320", "São Miguel do Guaporé", "69"],
+    ["1100338", "Nova Mamoré", "69"], ["1100346", "Alvorada D'Oeste", "69"],
+    ["1100379", "Alto Alegre dos Parecis", "69"], ["1100403", "Alto Paraíso", "69"], ["1100452", "Buritis", "69"],
+    ["1100502", "Novo Horizonte do Oeste", "69"], ["1100601", "Cacaulândia", "69"],
+    ["1100700", "Campo Novo de Rondônia", "69"], ["1100809", "Candeias do Jamari", "69"],
+    ["1100908", "Castanheiras", "69"], ["1100924", "Chupinguaia", "69"], ["1100940", "Cujubim", "69"],
+    ["1101005", "Governador Jorge Teixeira", "69"], ["1101104", "Itapuã do Oeste", "69"],
+    ["1101203", "Ministro Andreazza", "69"], ["1101302", "Mirante da Serra", "69"], ["1101401", "Monte Negro", "69"],
+    ["1101435", "Nova União", "69"], ["1101450", "Parecis", "69"], ["1101468", "Pimenteiras do Oeste", "69"],
+    ["1101476", "Primavera de Rondônia", "69"], ["1101484", "São Felipe D'Oeste", "69"],
+    ["1101492", "São Francisco do Guaporé", "69"], ["1101500", "Seringueiras", "69"],
+    ["1101559", "Teixeirópolis", "69"], ["1101609", "Theobroma", "69"], ["1101708", "Urupá", "69"],
+    ["1101757", "Vale do Anari", "69"], ["1101807", "Vale do Paraíso", "69"],
+  ],
+  AC: [
+    ["1200013", "Acrelândia", "68"], ["1200054", "Assis Brasil", "68"], ["1200104", "Brasiléia", "68"],
+    ["1200138", "Bujari", "68"], ["1200179", "Capixaba", "68"], ["1200203", "Cruzeiro do Sul", "68"],
+    ["1200252", "Epitaciolândia", "68"], ["1200302", "Feijó", "68"], ["1200328", "Jordão", "68"],
+    ["1200336", "Mâncio Lima", "68"], ["1200344", "Manoel Urbano", "68"], ["1200351", "Marechal Thaumaturgo", "68"],
+    ["1200385", "Plácido de Castro", "68"], ["1200393", "Porto Walter", "68"], ["1200401", "Rio Branco", "68"],
+    ["1200427", "Rodrigues Alves", "68"], ["1200435", "Santa Rosa do Purus", "68"],
+    ["1200450", "Senador Guiomard", "68"], ["1200500", "Sena Madureira", "68"], ["1200609", "Tarauacá", "68"],
+    ["1200708", "Xapuri", "68"], ["1200807", "Porto Acre", "68"],
+  ],
+  AM: [
+    ["1300029", "Alvarães", "97"], ["1300060", "Amaturá", "97"], ["1300086", "Anamã", "97"], ["1300102", "Anori", "97"],
+    ["1300144", "Apuí", "97"], ["1300201", "Atalaia do Norte", "97"], ["1300300", "Autazes", "92"],
+    ["1300409", "Barcelos", "97"], ["1300508", "Barreirinha", "92"], ["1300607", "Benjamin Constant", "97"],
+    ["1300631", "Beruri", "97"], ["1300680", "Boa Vista do Ramos", "92"], ["1300706", "Boca do Acre", "97"],
+    ["1300805", "Borba", "92"], ["1300839", "Caapiranga", "92"], ["1300904", "Canutama", "97"],
+    ["1301001", "Carauari", "97"], ["1301100", "Careiro", "92"], ["1301159", "Careiro da Várzea", "92"],
+    ["1301209", "Coari", "97"], ["1301308", "Codajás", "97"], ["1301407", "Eirunepé", "97"],
+    ["1301506", "Envira", "97"], ["1301605", "Fonte Boa", "97"], ["1301654", "Guajará", "97"],
+    ["1301704", "Humaitá", "97"], ["1301803", "Ipixuna", "97"], ["1301852", "Iranduba", "92"],
+    ["1301902", "Itacoatiara", "92"], ["1301951", "Itamarati", "97"], ["1302009", "Itapiranga", "92"],
+    ["1302108", "Japurá", "97"], ["1302207", "Juruá", "97"], ["1302306", "Jutaí", "97"], ["1302405", "Lábrea", "97"],
+    ["1302504", "Manacapuru", "92"], ["1302553", "Manaquiri", "92"], ["1302603", "Manaus", "92"],
+    ["1302702", "Manicoré", "97"], ["1302801", "Maraã", "97"], ["1302900", "Maués", "92"],
+    ["1303007", "Nhamundá", "92"], ["1303106", "Nova Olinda do Norte", "92"], ["1303205", "Novo Airão", "92"],
+    ["1303304", "Novo Aripuanã", "97"], ["1303403", "Parintins", "92"], ["1303502", "Pauini", "97"],
+    ["1303536", "Presidente Figueiredo", "92"], ["1303569", "Rio Preto da Eva", "92"],
+    ["1303601", "Santa Isabel do Rio Negro", "97"], ["1303700", "Santo Antônio do Içá", "97"],
+    ["1303809", "São Gabriel da Cachoeira", "97"], ["1303908", "São Paulo de Olivença", "97"],
+    ["1303957", "São Sebastião do Uatumã", "92"], ["1304005", "Silves", "92"], ["1304062", "Tabatinga", "97"],
+    ["1304104", "Tapauá", "97"], ["1304203", "Tefé", "97"], ["1304237", "Tonantins", "97"], ["1304260", "Uarini", "97"],
+    ["1304302", "Urucará", "92"], ["1304401", "Urucurituba", "92"],
+  ],
+  RR: [
+    ["1400027", "Amajari", "95"], ["1400050", "Alto Alegre", "95"], ["1400100", "Boa Vista", "95"],
+    ["1400159", "Bonfim", "95"], ["1400175", "Cantá", "95"], ["1400209", "Caracaraí", "95"],
+    ["1400233", "Caroebe", "95"], ["1400282", "Iracema", "95"], ["1400308", "Mucajaí", "95"],
+    ["1400407", "Normandia", "95"], ["1400456", "Pacaraima", "95"], ["1400472", "Rorainópolis", "95"],
+    ["1400506", "São João da Baliza", "95"], ["1400605", "São Luiz", "95"], ["1400704", "Uiramutã", "95"],
+  ],
+  PA: [
+    ["1500107", "Abaetetuba", "91"], ["1500131", "Abel Figueiredo", "94"], ["1500206", "Acará", "91"],
+    ["1500305", "Afuá", "91"], ["1500347", "Água Azul do Norte", "94"], ["1500404", "Alenquer", "93"],
+    ["1500503", "Almeirim", "93"], ["1500602", "Altamira", "93"], ["1500701", "Anajás", "91"],
+    ["1500800", "Ananindeua", "91"], ["1500859", "Anapu", "91"], ["1500909", "Augusto Corrêa", "91"],
+    ["1500958", "Aurora do Pará", "91"], ["1501006", "Aveiro", "93"], ["1501105", "Bagre", "91"],
+    ["1501204", "Baião", "91"], ["1501253", "Bannach", "94"], ["1501303", "Barcarena", "91"],
+    ["1501402", "Belém", "91"], ["1501451", "Belterra", "93"], ["1501501", "Benevides", "91"],
+    ["1501576", "Bom Jesus do Tocantins", "94"], ["1501600", "Bonito", "91"], ["1501709", "Bragança", "91"],
+    ["1501725", "Brasil Novo", "93"], ["1501758", "Brejo Grande do Araguaia", "94"], ["1501782", "Breu Branco", "94"],
+    ["1501808", "Breves", "91"], ["1501907", "Bujaru", "91"], ["1501956", "Cachoeira do Piriá", "91"],
+    ["1502004", "Cachoeira do Arari", "91"], ["1502103", "Cametá", "91"], ["1502152", "Canaã dos Carajás", "94"],
+    ["1502202", "Capanema", "91"], ["1502301", "Capitão Poço", "91"], ["1502400", "Castanhal", "91"],
+    ["1502509", "Chaves", "91"], ["1502608", "Colares", "91"], ["1502707", "Conceição do Araguaia", "94"],
+    ["1502756", "Concórdia do Pará", "91"], ["1502764", "Cumaru do Norte", "94"], ["1502772", "Curionópolis", "94"],
+    ["1502806", "Curralinho", "91"], ["1502855", "Curuá", "93"], ["1502905", "Curuçá", "91"],
+    ["1502939", "Dom Eliseu", "94"], ["1502954", "Eldorado do Carajás", "94"], ["1503002", "Faro", "93"],
+    ["1503044", "Floresta do Araguaia", "94"], ["1503077", "Garrafão do Norte", "91"],
+    ["1503093", "Goianésia do Pará", "94"], ["1503101", "Gurupá", "91"], ["1503200", "Igarapé-Açu", "91"],
+    ["1503309", "Igarapé-Miri", "91"], ["1503408", "Inhangapi", "91"], ["1503457", "Ipixuna do Pará", "91"],
+    ["1503507", "Irituia", "91"], ["1503606", "Itaituba", "93"], ["1503705", "Itupiranga", "94"],
+    ["1503754", "Jacareacanga", "93"], ["1503804", "Jacundá", "94"], ["1503903", "Juruti", "93"],
+    ["1504000", "Limoeiro do Ajuru", "91"], ["1504059", "Mãe do Rio", "91"], ["1504109", "Magalhães Barata", "91"],
+    ["1504208", "Marabá", "94"], ["1504307", "Maracanã", "91"], ["1504406", "Marapanim", "91"],
+    ["1504422", "Marituba", "91"], ["1504455", "Medicilândia", "93"], ["1504505", "Melgaço", "91"],
+    ["1504604", "Mocajuba", "91"], ["1504703", "Moju", "91"], ["1504752", "Mojuí dos Campos", "93"],
+    ["1504802", "Monte Alegre", "93"], ["1504901", "Muaná", "91"], ["1504950", "Nova Esperança do Piriá", "91"],
+    ["1504976", "Nova Ipixuna", "94"], ["1505007", "Nova Timboteua", "91"], ["1505031", "Novo Progresso", "93"],
+    ["1505064", "Novo Repartimento", "94"], ["1505106", "Óbidos", "93"], ["1505205", "Oeiras do Pará", "91"],
+    ["1505304", "Oriximiná", "93"], ["1505403", "Ourém", "91"], ["1505437", "Ourilândia do Norte", "94"],
+    ["1505486", "Pacajá", "91"], ["1505494", "Palestina do Pará", "94"], ["1505502", "Paragominas", "91"],
+    ["1505536", "Parauapebas", "94"], ["1505551", "Pau d'Arco", "94"], ["1505601", "Peixe-Boi", "91"],
+    ["1505635", "Piçarra", "94"], ["1505650", "Placas", "93"], ["1505700", "Ponta de Pedras", "91"],
+    ["1505809", "Portel", "91"], ["1505908", "Porto de Moz", "93"], ["1506005", "Prainha", "93"],
+    ["1506104", "Primavera", "91"], ["1506112", "Quatipuru", "91"], ["1506138", "Redenção", "94"],
+    ["1506161", "Rio Maria", "94"], ["1506187", "Rondon do Pará", "94"], ["1506195", "Rurópolis", "93"],
+    ["1506203", "Salinópolis", "91"], ["1506302", "Salvaterra", "91"], ["1506351", "Santa Bárbara do Pará", "91"],
+    ["1506401", "Santa Cruz do Arari", "91"], ["1506500", "Santa Izabel do Pará", "91"],
+    ["1506559", "Santa Luzia do Pará", "91"], ["1506583", "Santa Maria das Barreiras", "94"],
+    ["1506609", "Santa Maria do Pará", "91"], ["1506708", "Santana do Araguaia", "94"], ["1506807", "Santarém", "93"],
+    ["1506906", "Santarém Novo", "91"], ["1507003", "Santo Antônio do Tauá", "91"],
+    ["1507102", "São Caetano de Odivelas", "91"], ["1507151", "São Domingos do Araguaia", "94"],
+    ["1507201", "São Domingos do Capim", "91"], ["1507300", "São Félix do Xingu", "94"],
+    ["1507409", "São Francisco do Pará", "91"], ["1507458", "São Geraldo do Araguaia", "94"],
+    ["1507466", "São João da Ponta", "91"], ["1507474", "São João de Pirabas", "91"],
+    ["1507508", "São João do Araguaia", "94"], ["1507607", "São Miguel do Guamá", "91"],
+    ["1507706", "São Sebastião da Boa Vista", "91"], ["1507755", "Sapucaia", "94"],
+    ["1507805", "Senador José Porfírio", "91"], ["1507904", "Soure", "91"], ["1507953", "Tailândia", "91"],
+    ["1507961", "Terra Alta", "91"], ["1507979", "Terra Santa", "93"], ["1508001", "Tomé-Açu", "91"],
+    ["1508035", "Tracuateua", "91"], ["1508050", "Trairão", "93"], ["1508084", "Tucumã", "94"],
+    ["1508100", "Tucuruí", "94"], ["1508126", "Ulianópolis", "91"], ["1508159", "Uruará", "93"],
+    ["1508209", "Vigia", "91"], ["1508308", "Viseu", "91"], ["1508357", "Vitória do Xingu", "93"],
+    ["1508407", "Xinguara", "94"],
+  ],
+  AP: [
+    ["1600055", "Serra do Navio", "96"], ["1600105", "Amapá", "96"], ["1600154", "Pedra Branca do Amapari", "96"],
+    ["1600204", "Calçoene", "96"], ["1600212", "Cutias", "96"], ["1600238", "Ferreira Gomes", "96"],
+    ["1600253", "Itaubal", "96"], ["1600279", "Laranjal do Jari", "96"], ["1600303", "Macapá", "96"],
+    ["1600402", "Mazagão", "96"], ["1600501", "Oiapoque", "96"], ["1600535", "Porto Grande", "96"],
+    ["1600550", "Pracuúba", "96"], ["1600600", "Santana", "96"], ["1600709", "Tartarugalzinho", "96"],
+    ["1600808", "Vitória do Jari", "96"],
+  ],
+  TO: [
+    ["1700251", "Abreulândia", "63"], ["1700301", "Aguiarnópolis", "63"], ["1700350", "Aliança do Tocantins", "63"],
+    ["1700400", "Almas", "63"], ["1700707", "Alvorada", "63"], ["1701002", "Ananás", "63"], ["1701051", "Angico", "63"],
+    ["1701101", "Aparecida do Rio Negro", "63"], ["1701309", "Aragominas", "63"], ["1701903", "Araguacema", "63"],
+    ["1702000", "Araguaçu", "63"], ["1702109", "Araguaína", "63"], ["1702158", "Araguanã", "63"],
+    ["1702208", "Araguatins", "63"], ["1702307", "Arapoema", "63"], ["1702406", "Arraias", "63"],
+    ["1702554", "Augustinópolis", "63"], ["1702703", "Aurora do Tocantins", "63"],
+    ["1702901", "Axixá do Tocantins", "63"], ["1703008", "Babaçulândia", "63"],
+    ["1703057", "Bandeirantes do Tocantins", "63"], ["1703073", "Barra do Ouro", "63"],
+    ["1703107", "Barrolândia", "63"], ["1703206", "Bernardo Sayão", "63"], ["1703305", "Bom Jesus do Tocantins", "63"],
+    ["1703602", "Brasilândia do Tocantins", "63"], ["1703701", "Brejinho de Nazaré", "63"],
+    ["1703800", "Buriti do Tocantins", "63"], ["1703826", "Cachoeirinha", "63"], ["1703842", "Campos Lindos", "63"],
+    ["1703867", "Cariri do Tocantins", "63"], ["1703883", "Carmolândia", "63"], ["1703891", "Carrasco Bonito", "63"],
+    ["1703909", "Caseara", "63"], ["1704105", "Centenário", "63"], ["1704600", "Chapada de Areia", "63"],
+    ["1705102", "Chapada da Natividade", "63"], ["1705508", "Colinas do Tocantins", "63"],
+    ["1705557", "Combinado", "63"], ["1705607", "Conceição do Tocantins", "63"], ["1706001", "Couto Magalhães", "63"],
+    ["1706100", "Cristalândia", "63"], ["1706258", "Crixás do Tocantins", "63"], ["1706506", "Darcinópolis", "63"],
+    ["1707009", "Dianópolis", "63"], ["1707108", "Divinópolis do Tocantins", "63"],
+    ["1707207", "Dois Irmãos do Tocantins", "63"], ["1707306", "Dueré", "63"], ["1707405", "Esperantina", "63"],
+    ["1707553", "Fátima", "63"], ["1707652", "Figueirópolis", "63"], ["1707702", "Filadélfia", "63"],
+    ["1708205", "Formoso do Araguaia", "63"], ["1708254", "Fortaleza do Tabocão", "63"], ["1708304", "Goianorte", "63"],
+    ["1709005", "Goiatins", "63"], ["1709302", "Guaraí", "63"], ["1709500", "Gurupi", "63"],
+    ["1709807", "Ipueiras", "63"], ["1710508", "Itacajá", "63"], ["1710706", "Itaguatins", "63"],
+    ["1710904", "Itapiratins", "63"], ["1711100", "Itaporã do Tocantins", "63"], ["1711506", "Jaú do Tocantins", "63"],
+    ["1711803", "Juarina", "63"], ["1711902", "Lagoa da Confusão", "63"], ["1711951", "Lagoa do Tocantins", "63"],
+    ["1712009", "Lajeado", "63"], ["1712157", "Lavandeira", "63"], ["1712405", "Lizarda", "63"],
+    ["1712454", "Luzinópolis", "63"], ["1712504", "Marianópolis do Tocantins", "63"], ["1712702", "Mateiros", "63"],
+    ["1712801", "Maurilândia do Tocantins", "63"], ["1713205", "Miracema do Tocantins", "63"],
+    ["1713304", "Miranorte", "63"], ["1713601", "Monte do Carmo", "63"], ["1713700", "Monte Santo do Tocantins", "63"],
+    ["1713809", "Palmeiras do Tocantins", "63"], ["1713957", "Muricilândia", "63"], ["1714203", "Natividade", "63"],
+    ["1714302", "Nazaré", "63"], ["1714880", "Nova Olinda", "63"], ["1715002", "Nova Rosalândia", "63"],
+    ["1715101", "Novo Acordo", "63"], ["1715150", "Novo Alegre", "63"], ["1715259", "Novo Jardim", "63"],
+    ["1715507", "Oliveira de Fátima", "63"], ["1715705", "Palmeirante", "63"], ["1715754", "Palmeirópolis", "63"],
+    ["1716109", "Paraíso do Tocantins", "63"], ["1716208", "Paranã", "63"], ["1716307", "Pau D'Arco", "63"],
+    ["1716505", "Pedro Afonso", "63"], ["1716604", "Peixe", "63"], ["1716653", "Pequizeiro", "63"],
+    ["1716703", "Colméia", "63"], ["1717008", "Pindorama do Tocantins", "63"], ["1717206", "Piraquê", "63"],
+    ["1717503", "Pium", "63"], ["1717800", "Ponte Alta do Bom Jesus", "63"],
+    ["1717909", "Ponte Alta do Tocantins", "63"], ["1718006", "Porto Alegre do Tocantins", "63"],
+    ["1718204", "Porto Nacional", "63"], ["1718303", "Praia Norte", "63"], ["1718402", "Presidente Kennedy", "63"],
+    ["1718451", "Pugmil", "63"], ["1718501", "Recursolândia", "63"], ["1718550", "Riachinho", "63"],
+    ["1718659", "Rio da Conceição", "63"], ["1718709", "Rio dos Bois", "63"], ["1718758", "Rio Sono", "63"],
+    ["1718808", "Sampaio", "63"], ["1718840", "Sandolândia", "63"], ["1718865", "Santa Fé do Araguaia", "63"],
+    ["1718881", "Santa Maria do Tocantins", "63"], ["1718899", "Santa Rita do Tocantins", "63"],
+    ["1718907", "Santa Rosa do Tocantins", "63"], ["1719004", "Santa Tereza do Tocantins", "63"],
+    ["1720002", "Santa Terezinha do Tocantins", "63"], ["1720101", "São Bento do Tocantins", "63"],
+    ["1720150", "São Félix do Tocantins", "63"], ["1720200", "São Miguel do Tocantins", "63"],
+    ["1720259", "São Salvador do Tocantins", "63"], ["1720309", "São Sebastião do Tocantins", "63"],
+    ["1720499", "São Valério", "63"], ["1720655", "Silvanópolis", "63"], ["1720804", "Sítio Novo do Tocantins", "63"],
+    ["1720853", "Sucupira", "63"], ["1720903", "Taguatinga", "63"], ["1720937", "Taipas do Tocantins", "63"],
+    ["1720978", "Talismã", "63"], ["1721000", "Palmas", "63"], ["1721109", "Tocantínia", "63"],
+    ["1721208", "Tocantinópolis", "63"], ["1721257", "Tupirama", "63"], ["1721307", "Tupiratins", "63"],
+    ["1722081", "Wanderlândia", "63"], ["1722107", "Xambioá", "63"],
+  ],
+  MA: [
+    ["2100055", "Açailândia", "99"], ["2100105", "Afonso Cunha", "98"], ["2100154", "Água Doce do Maranhão", "98"],
+    ["2100204", "Alcântara", "98"], ["2100303", "Aldeias Altas", "99"], ["2100402", "Altamira do Maranhão", "98"],
+    ["2100436", "Alto Alegre do Maranhão", "99"], ["2100477", "Alto Alegre do Pindaré", "98"],
+    ["2100501", "Alto Parnaíba", "99"], ["2100550", "Amapá do Maranhão", "98"],
+    ["2100600", "Amarante do Maranhão", "99"], ["2100709", "Anajatuba", "98"], ["2100808", "Anapurus", "98"],
+    ["2100832", "Apicum-Açu", "98"], ["2100873", "Araguanã", "98"], ["2100907", "Araioses", "98"],
+    ["2100956", "Arame", "99"], ["2101004", "Arari", "98"], ["2101103", "Axixá", "98"], ["2101202", "Bacabal", "99"],
+    ["2101251", "Bacabeira", "98"], ["2101301", "Bacuri", "98"], ["2101350", "Bacurituba", "98"],
+    ["2101400", "Balsas", "99"], ["2101509", "Barão de Grajaú", "99"], ["2101608", "Barra do Corda", "99"],
+    ["2101707", "Barreirinhas", "98"], ["2101731", "Belágua", "98"], ["2101772", "Bela Vista do Maranhão", "98"],
+    ["2101806", "Benedito Leite", "99"], ["2101905", "Bequimão", "98"], ["2101939", "Bernardo do Mearim", "99"],
+    ["2101970", "Boa Vista do Gurupi", "98"], ["2102002", "Bom Jardim", "98"],
+    ["2102036", "Bom Jesus das Selvas", "98"], ["2102077", "Bom Lugar", "99"], ["2102101", "Brejo", "98"],
+    ["2102150", "Brejo de Areia", "98"], ["2102200", "Buriti", "98"], ["2102309", "Buriti Bravo", "99"],
+    ["2102325", "Buriticupu", "98"], ["2102358", "Buritirana", "99"], ["2102374", "Cachoeira Grande", "98"],
+    ["2102408", "Cajapió", "98"], ["2102507", "Cajari", "98"], ["2102556", "Campestre do Maranhão", "99"],
+    ["2102606", "Cândido Mendes", "98"], ["2102705", "Cantanhede", "98"], ["2102754", "Capinzal do Norte", "99"],
+    ["2102804", "Carolina", "99"], ["2102903", "Carutapera", "98"], ["2103000", "Caxias", "99"],
+    ["2103109", "Cedral", "98"], ["2103125", "Central do Maranhão", "98"], ["2103158", "Centro do Guilherme", "98"],
+    ["2103174", "Centro Novo do Maranhão", "98"], ["2103208", "Chapadinha", "98"], ["2103257", "Cidelândia", "99"],
+    ["2103307", "Codó", "99"], ["2103406", "Coelho Neto", "98"], ["2103505", "Colinas", "99"],
+    ["2103554", "Conceição do Lago-Açu", "98"], ["2103604", "Coroatá", "99"], ["2103703", "Cururupu", "98"],
+    ["2103752", "Davinópolis", "99"], ["2103802", "Dom Pedro", "99"], ["2103901", "Duque Bacelar", "98"],
+    ["2104008", "Esperantinópolis", "99"], ["2104057", "Estreito", "99"], ["2104073", "Feira Nova do Maranhão", "99"],
+    ["2104081", "Fernando Falcão", "99"], ["2104099", "Formosa da Serra Negra", "99"],
+    ["2104107", "Fortaleza dos Nogueiras", "99"], ["2104206", "Fortuna", "99"], ["2104305", "Godofredo Viana", "98"],
+    ["2104404", "Gonçalves Dias", "99"], ["2104503", "Governador Archer", "99"],
+    ["2104552", "Governador Edison Lobão", "99"], ["2104602", "Governador Eugênio Barros", "99"],
+    ["2104628", "Governador Luiz Rocha", "99"], ["2104651", "Governador Newton Bello", "98"],
+    ["2104677", "Governador Nunes Freire", "98"], ["2104701", "Graça Aranha", "99"], ["2104800", "Grajaú", "99"],
+    ["2104909", "Guimarães", "98"], ["2105005", "Humberto de Campos", "98"], ["2105104", "Icatu", "98"],
+    ["2105153", "Igarapé do Meio", "98"], ["2105203", "Igarapé Grande", "99"], ["2105302", "Imperatriz", "99"],
+    ["2105351", "Itaipava do Grajaú", "99"], ["2105401", "Itapecuru Mirim", "98"],
+    ["2105427", "Itinga do Maranhão", "99"], ["2105450", "Jatobá", "99"], ["2105476", "Jenipapo dos Vieiras", "99"],
+    ["2105500", "João Lisboa", "99"], ["2105609", "Joselândia", "99"], ["2105658", "Junco do Maranhão", "98"],
+    ["2105708", "Lago da Pedra", "99"], ["2105807", "Lago do Junco", "99"], ["2105906", "Lago Verde", "99"],
+    ["2105922", "Lagoa do Mato", "99"], ["2105948", "Lago dos Rodrigues", "99"],
+    ["2105963", "Lagoa Grande do Maranhão", "99"], ["2105989", "Lajeado Novo", "99"], ["2106003", "Lima Campos", "99"],
+    ["2106102", "Loreto", "99"], ["2106201", "Luís Domingues", "98"], ["2106300", "Magalhães de Almeida", "98"],
+    ["2106326", "Maracaçumé", "98"], ["2106359", "Marajá do Sena", "98"], ["2106375", "Maranhãozinho", "98"],
+    ["2106409", "Mata Roma", "98"], ["2106508", "Matinha", "98"], ["2106607", "Matões", "99"],
+    ["2106631", "Matões do Norte", "98"], ["2106672", "Milagres do Maranhão", "98"], ["2106706", "Mirador", "99"],
+    ["2106755", "Miranda do Norte", "98"], ["2106805", "Mirinzal", "98"], ["2106904", "Monção", "98"],
+    ["2107001", "Montes Altos", "99"], ["2107100", "Morros", "98"], ["2107209", "Nina Rodrigues", "98"],
+    ["2107258", "Nova Colinas", "99"], ["2107308", "Nova Iorque", "99"], ["2107357", "Nova Olinda do Maranhão", "98"],
+    ["2107407", "Olho d'Água das Cunhãs", "98"], ["2107456", "Olinda Nova do Maranhão", "98"],
+    ["2107506", "Paço do Lumiar", "98"], ["2107605", "Palmeirândia", "98"], ["2107704", "Paraibano", "99"],
+    ["2107803", "Parnarama", "99"], ["2107902", "Passagem Franca", "99"], ["2108009", "Pastos Bons", "99"],
+    ["2108058", "Paulino Neves", "98"], ["2108108", "Paulo Ramos", "98"], ["2108207", "Pedreiras", "99"],
+    ["2108256", "Pedro do Rosário", "98"], ["2108306", "Penalva", "98"], ["2108405", "Peri Mirim", "98"],
+    ["2108454", "Peritoró", "99"], ["2108504", "Pindaré-Mirim", "98"], ["2108603", "Pinheiro", "98"],
+    ["2108702", "Pio XII", "98"], ["2108801", "Pirapemas", "98"], ["2108900", "Poção de Pedras", "99"],
+    ["2109007", "Porto Franco", "99"], ["2109056", "Porto Rico do Maranhão", "98"],
+    ["2109106", "Presidente Dutra", "99"], ["2109205", "Presidente Juscelino", "98"],
+    ["2109239", "Presidente Médici", "98"], ["2109270", "Presidente Sarney", "98"],
+    ["2109304", "Presidente Vargas", "98"], ["2109403", "Primeira Cruz", "98"], ["2109452", "Raposa", "98"],
+    ["2109502", "Riachão", "99"], ["2109551", "Ribamar Fiquene", "99"], ["2109601", "Rosário", "98"],
+    ["2109700", "Sambaíba", "99"], ["2109759", "Santa Filomena do Maranhão", "99"], ["2109809", "Santa Helena", "98"],
+    ["2109908", "Santa Inês", "98"], ["2110005", "Santa Luzia", "98"], ["2110039", "Santa Luzia do Paruá", "98"],
+    ["2110104", "Santa Quitéria do Maranhão", "98"], ["2110203", "Santa Rita", "98"],
+    ["2110237", "Santana do Maranhão", "98"], ["2110278", "Santo Amaro do Maranhão", "98"],
+    ["2110302", "Santo Antônio dos Lopes", "99"], ["2110401", "São Benedito do Rio Preto", "98"],
+    ["2110500", "São Bento", "98"], ["2110609", "São Bernardo", "98"], ["2110658", "São Domingos do Azeitão", "99"],
+    ["2110708", "São Domingos do Maranhão", "99"], ["2110807", "São Félix de Balsas", "99"],
+    ["2110856", "São Francisco do Brejão", "99"], ["2110906", "São Francisco do Maranhão", "99"],
+    ["2111003", "São João Batista", "98"], ["2111029", "São João do Carú", "98"],
+    ["2111052", "São João do Paraíso", "99"], ["2111078", "São João do Soter", "99"],
+    ["2111102", "São João dos Patos", "99"], ["2111201", "São José de Ribamar", "98"],
+    ["2111250", "São José dos Basílios", "99"], ["2111300", "São Luís", "98"],
+    ["2111409", "São Luís Gonzaga do Maranhão", "99"], ["2111508", "São Mateus do Maranhão", "99"],
+    ["2111532", "São Pedro da Água Branca", "99"], ["2111573", "São Pedro dos Crentes", "99"],
+    ["2111607", "São Raimundo das Mangabeiras", "99"], ["2111631", "São Raimundo do Doca Bezerra", "99"],
+    ["2111672", "São Roberto", "99"], ["2111706", "São Vicente Ferrer", "98"], ["2111722", "Satubinha", "98"],
+    ["2111748", "Senador Alexandre Costa", "99"], ["2111763", "Senador La Rocque", "99"],
+    ["2111789", "Serrano do Maranhão", "98"], ["2111805", "Sítio Novo", "99"], ["2111904", "Sucupira do Norte", "99"],
+    ["2111953", "Sucupira do Riachão", "99"], ["2112001", "Tasso Fragoso", "99"], ["2112100", "Timbiras", "99"],
+    ["2112209", "Timon", "99"], ["2112233", "Trizidela do Vale", "99"], ["2112274", "Tufilândia", "98"],
+    ["2112308", "Tuntum", "99"], ["2112407", "Turiaçu", "98"], ["2112456", "Turilândia", "98"],
+    ["2112506", "Tutóia", "98"], ["2112605", "Urbano Santos", "98"], ["2112704", "Vargem Grande", "98"],
+    ["2112803", "Viana", "98"], ["2112852", "Vila Nova dos Martírios", "99"], ["2112902", "Vitória do Mearim", "98"],
+    ["2113009", "Vitorino Freire", "98"], ["2114007", "Zé Doca", "98"],
+  ],
+  PI: [
+    ["2200053", "Acauã", "89"], ["2200103", "Agricolândia", "86"], ["2200202", "Água Branca", "86"],
+    ["2200251", "Alagoinha do Piauí", "89"], ["2200277", "Alegrete do Piauí", "89"], ["2200301", "Alto Longá", "86"],
+    ["2200400", "Altos", "86"], ["2200459", "Alvorada do Gurguéia", "89"], ["2200509", "Amarante", "86"],
+    ["2200608", "Angical do Piauí", "86"], ["2200707", "Anísio de Abreu", "89"], ["2200806", "Antônio Almeida", "89"],
+    ["2200905", "Aroazes", "89"], ["2200954", "Aroeiras do Itaim", "89"], ["2201002", "Arraial", "89"],
+    ["2201051", "Assunção do Piauí", "86"], ["2201101", "Avelino Lopes", "89"],
+    ["2201150", "Baixa Grande do Ribeiro", "89"], ["2201176", "Barra D'Alcântara", "89"], ["2201200", "Barras", "86"],
+    ["2201309", "Barreiras do Piauí", "89"], ["2201408", "Barro Duro", "86"], ["2201507", "Batalha", "86"],
+    ["2201556", "Bela Vista do Piauí", "89"], ["2201572", "Belém do Piauí", "89"], ["2201606", "Beneditinos", "86"],
+    ["2201705", "Bertolínia", "89"], ["2201739", "Betânia do Piauí", "89"], ["2201770", "Boa Hora", "86"],
+    ["2201804", "Bocaina", "89"], ["2201903", "Bom Jesus", "89"], ["2201919", "Bom Princípio do Piauí", "86"],
+    ["2201929", "Bonfim do Piauí", "89"], ["2201945", "Boqueirão do Piauí", "86"], ["2201960", "Brasileira", "86"],
+    ["2201988", "Brejo do Piauí", "89"], ["2202000", "Buriti dos Lopes", "86"], ["2202026", "Buriti dos Montes", "86"],
+    ["2202059", "Cabeceiras do Piauí", "86"], ["2202075", "Cajazeiras do Piauí", "89"],
+    ["2202083", "Cajueiro da Praia", "86"], ["2202091", "Caldeirão Grande do Piauí", "89"],
+    ["2202109", "Campinas do Piauí", "89"], ["2202117", "Campo Alegre do Fidalgo", "89"],
+    ["2202133", "Campo Grande do Piauí", "89"], ["2202174", "Campo Largo do Piauí", "86"],
+    ["2202208", "Campo Maior", "86"], ["2202251", "Canavieira", "89"], ["2202307", "Canto do Buriti", "89"],
+    ["2202406", "Capitão de Campos", "86"], ["2202455", "Capitão Gervásio Oliveira", "89"],
+    ["2202505", "Caracol", "89"], ["2202539", "Caraúbas do Piauí", "86"], ["2202554", "Caridade do Piauí", "89"],
+    ["2202604", "Castelo do Piauí", "86"], ["2202653", "Caxingó", "86"], ["2202703", "Cocal", "86"],
+    ["2202711", "Cocal de Telha", "86"], ["2202729", "Cocal dos Alves", "86"], ["2202737", "Coivaras", "86"],
+    ["2202752", "Colônia do Gurguéia", "89"], ["2202778", "Colônia do Piauí", "89"],
+    ["2202802", "Conceição do Canindé", "89"], ["2202851", "Coronel José Dias", "89"], ["2202901", "Corrente", "89"],
+    ["2203008", "Cristalândia do Piauí", "89"], ["2203107", "Cristino Castro", "89"], ["2203206", "Curimatá", "89"],
+    ["2203230", "Currais", "89"], ["2203255", "Curralinhos", "86"], ["2203271", "Curral Novo do Piauí", "89"],
+    ["2203305", "Demerval Lobão", "86"], ["2203354", "Dirceu Arcoverde", "89"], ["2203404", "Dom Expedito Lopes", "89"],
+    ["2203420", "Domingos Mourão", "86"], ["2203453", "Dom Inocêncio", "89"], ["2203503", "Elesbão Veloso", "86"],
+    ["2203602", "Eliseu Martins", "89"], ["2203701", "Esperantina", "86"], ["2203750", "Fartura do Piauí", "89"],
+    ["2203800", "Flores do Piauí", "89"], ["2203859", "Floresta do Piauí", "89"], ["2203909", "Floriano", "89"],
+    ["2204006", "Francinópolis", "89"], ["2204105", "Francisco Ayres", "89"], ["2204154", "Francisco Macedo", "89"],
+    ["2204204", "Francisco Santos", "89"], ["2204303", "Fronteiras", "89"], ["2204352", "Geminiano", "89"],
+    ["2204402", "Gilbués", "89"], ["2204501", "Guadalupe", "89"], ["2204550", "Guaribas", "89"],
+    ["2204600", "Hugo Napoleão", "86"], ["2204659", "Ilha Grande", "86"], ["2204709", "Inhuma", "89"],
+    ["2204808", "Ipiranga do Piauí", "89"], ["2204907", "Isaías Coelho", "89"], ["2205003", "Itainópolis", "89"],
+    ["2205102", "Itaueira", "89"], ["2205151", "Jacobina do Piauí", "89"], ["2205201", "Jaicós", "89"],
+    ["2205250", "Jardim do Mulato", "86"], ["2205276", "Jatobá do Piauí", "86"], ["2205300", "Jerumenha", "89"],
+    ["2205359", "João Costa", "89"], ["2205409", "Joaquim Pires", "86"], ["2205458", "Joca Marques", "86"],
+    ["2205508", "José de Freitas", "86"], ["2205516", "Juazeiro do Piauí", "86"], ["2205524", "Júlio Borges", "89"],
+    ["2205532", "Jurema", "89"], ["2205540", "Lagoinha do Piauí", "86"], ["2205557", "Lagoa Alegre", "86"],
+    ["2205565", "Lagoa do Barro do Piauí", "89"], ["2205573", "Lagoa de São Francisco", "86"],
+    ["2205581", "Lagoa do Piauí", "86"], ["2205599", "Lagoa do Sítio", "89"], ["2205607", "Landri Sales", "89"],
+    ["2205706", "Luís Correia", "86"], ["2205805", "Luzilândia", "86"], ["2205854", "Madeiro", "86"],
+    ["2205904", "Manoel Emídio", "89"], ["2205953", "Marcolândia", "89"], ["2206001", "Marcos Parente", "89"],
+    ["2206050", "Massapê do Piauí", "89"], ["2206100", "Matias Olímpio", "86"], ["2206209", "Miguel Alves", "86"],
+    ["2206308", "Miguel Leão", "86"], ["2206357", "Milton Brandão", "86"], ["2206407", "Monsenhor Gil", "86"],
+    ["2206506", "Monsenhor Hipólito", "89"], ["2206605", "Monte Alegre do Piauí", "89"],
+    ["2206654", "Morro Cabeça no Tempo", "89"], ["2206670", "Morro do Chapéu do Piauí", "86"],
+    ["2206696", "Murici dos Portelas", "86"], ["2206704", "Nazaré do Piauí", "89"], ["2206720", "Nazária", "86"],
+    ["2206753", "Nossa Senhora de Nazaré", "86"], ["2206803", "Nossa Senhora dos Remédios", "86"],
+    ["2206902", "Novo Oriente do Piauí", "89"], ["2206951", "Novo Santo Antônio", "86"], ["2207009", "Oeiras", "89"],
+    ["2207108", "Olho D'Água do Piauí", "86"], ["2207207", "Padre Marcos", "89"], ["2207306", "Paes Landim", "89"],
+    ["2207355", "Pajeú do Piauí", "89"], ["2207405", "Palmeira do Piauí", "89"], ["2207504", "Palmeirais", "86"],
+    ["2207553", "Paquetá", "89"], ["2207603", "Parnaguá", "89"], ["2207702", "Parnaíba", "86"],
+    ["2207751", "Passagem Franca do Piauí", "86"], ["2207777", "Patos do Piauí", "89"],
+    ["2207793", "Pau D'Arco do Piauí", "86"], ["2207801", "Paulistana", "89"], ["2207850", "Pavussu", "89"],
+    ["2207900", "Pedro II", "86"], ["2207934", "Pedro Laurentino", "89"], ["2207959", "Nova Santa Rita", "89"],
+    ["2208007", "Picos", "89"], ["2208106", "Pimenteiras", "89"], ["2208205", "Pio IX", "89"],
+    ["2208304", "Piracuruca", "86"], ["2208403", "Piripiri", "86"], ["2208502", "Porto", "86"],
+    ["2208551", "Porto Alegre do Piauí", "89"], ["2208601", "Prata do Piauí", "86"], ["2208650", "Queimada Nova", "89"],
+    ["2208700", "Redenção do Gurguéia", "89"], ["2208809", "Regeneração", "86"], ["2208858", "Riacho Frio", "89"],
+    ["2208874", "Ribeira do Piauí", "89"], ["2208908", "Ribeiro Gonçalves", "89"],
+    ["2209005", "Rio Grande do Piauí", "89"], ["2209104", "Santa Cruz do Piauí", "89"],
+    ["2209153", "Santa Cruz dos Milagres", "89"], ["2209203", "Santa Filomena", "89"], ["2209302", "Santa Luz", "89"],
+    ["2209351", "Santana do Piauí", "89"], ["2209377", "Santa Rosa do Piauí", "89"],
+    ["2209401", "Santo Antônio de Lisboa", "89"], ["2209450", "Santo Antônio dos Milagres", "86"],
+    ["2209500", "Santo Inácio do Piauí", "89"], ["2209559", "São Braz do Piauí", "89"],
+    ["2209609", "São Félix do Piauí", "86"], ["2209658", "São Francisco de Assis do Piauí", "89"],
+    ["2209708", "São Francisco do Piauí", "89"], ["2209757", "São Gonçalo do Gurguéia", "89"],
+    ["2209807", "São Gonçalo do Piauí", "86"], ["2209856", "São João da Canabrava", "89"],
+    ["2209872", "São João da Fronteira", "86"], ["2209906", "São João da Serra", "86"],
+    ["2209955", "São João da Varjota", "89"], ["2209971", "São João do Arraial", "86"],
+    ["2210003", "São João do Piauí", "89"], ["2210052", "São José do Divino", "86"],
+    ["2210102", "São José do Peixe", "89"], ["2210201", "São José do Piauí", "89"], ["2210300", "São Julião", "89"],
+    ["2210359", "São Lourenço do Piauí", "89"], ["2210375", "São Luis do Piauí", "89"],
+    ["2210383", "São Miguel da Baixa Grande", "86"], ["2210391", "São Miguel do Fidalgo", "89"],
+    ["2210409", "São Miguel do Tapuio", "86"], ["2210508", "São Pedro do Piauí", "86"],
+    ["2210607", "São Raimundo Nonato", "89"], ["2210623", "Sebastião Barros", "89"],
+    ["2210631", "Sebastião Leal", "89"], ["2210656", "Sigefredo Pacheco", "86"], ["2210706", "Simões", "89"],
+    ["2210805", "Simplício Mendes", "89"], ["2210904", "Socorro do Piauí", "89"], ["2210938", "Sussuapara", "89"],
+    ["2210953", "Tamboril do Piauí", "89"], ["2210979", "Tanque do Piauí", "89"], ["2211001", "Teresina", "86"],
+    ["2211100", "União", "86"], ["2211209", "Uruçuí", "89"], ["2211308", "Valença do Piauí", "89"],
+    ["2211357", "Várzea Branca", "89"], ["2211407", "Várzea Grande", "89"], ["2211506", "Vera Mendes", "89"],
+    ["2211605", "Vila Nova do Piauí", "89"], ["2211704", "Wall Ferraz", "89"],
+  ],
+  CE: [
+    ["2300101", "Abaiara", "88"], ["2300150", "Acarape", "85"], ["2300200", "Acaraú", "88"],
+    ["2300309", "Acopiara", "88"], ["2300408", "Aiuaba", "88"], ["2300507", "Alcântaras", "88"],
+    ["2300606", "Altaneira", "88"], ["2300705", "Alto Santo", "88"], ["2300754", "Amontada", "88"],
+    ["2300804", "Antonina do Norte", "88"], ["2300903", "Apuiarés", "85"], ["2301000", "Aquiraz", "85"],
+    ["2301109", "Aracati", "88"], ["2301208", "Aracoiaba", "85"], ["2301257", "Ararendá", "88"],
+    ["2301307", "Araripe", "88"], ["2301406", "Aratuba", "85"], ["2301505", "Arneiroz", "88"],
+    ["2301604", "Assaré", "88"], ["2301703", "Aurora", "88"], ["2301802", "Baixio", "88"],
+    ["2301851", "Banabuiú", "88"], ["2301901", "Barbalha", "88"], ["2301950", "Barreira", "85"],
+    ["2302008", "Barro", "88"], ["2302057", "Barroquinha", "88"], ["2302107", "Baturité", "85"],
+    ["2302206", "Beberibe", "85"], ["2302305", "Bela Cruz", "88"], ["2302404", "Boa Viagem", "88"],
+    ["2302503", "Brejo Santo", "88"], ["2302602", "Camocim", "88"], ["2302701", "Campos Sales", "88"],
+    ["2302800", "Canindé", "85"], ["2302909", "Capistrano", "85"], ["2303006", "Caridade", "85"],
+    ["2303105", "Cariré", "88"], ["2303204", "Caririaçu", "88"], ["2303303", "Cariús", "88"],
+    ["2303402", "Carnaubal", "88"], ["2303501", "Cascavel", "85"], ["2303600", "Catarina", "88"],
+    ["2303659", "Catunda", "88"], ["2303709", "Caucaia", "85"], ["2303808", "Cedro", "88"], ["2303907", "Chaval", "88"],
+    ["2303931", "Choró", "88"], ["2303956", "Chorozinho", "85"], ["2304004", "Coreaú", "88"],
+    ["2304103", "Crateús", "88"], ["2304202", "Crato", "88"], ["2304236", "Croatá", "88"], ["2304251", "Cruz", "88"],
+    ["2304269", "Deputado Irapuan Pinheiro", "88"], ["2304277", "Ererê", "88"], ["2304285", "Eusébio", "85"],
+    ["2304301", "Farias Brito", "88"], ["2304350", "Forquilha", "88"], ["2304400", "Fortaleza", "85"],
+    ["2304459", "Fortim", "88"], ["2304509", "Frecheirinha", "88"], ["2304608", "General Sampaio", "85"],
+    ["2304657", "Graça", "88"], ["2304707", "Granja", "88"], ["2304806", "Granjeiro", "88"],
+    ["2304905", "Groaíras", "88"], ["2304954", "Guaiúba", "85"], ["2305001", "Guaraciaba do Norte", "88"],
+    ["2305100", "Guaramiranga", "85"], ["2305209", "Hidrolândia", "88"], ["2305233", "Horizonte", "85"],
+    ["2305266", "Ibaretama", "88"], ["2305308", "Ibiapina", "88"], ["2305332", "Ibicuitinga", "88"],
+    ["2305357", "Icapuí", "88"], ["2305407", "Icó", "88"], ["2305506", "Iguatu", "88"],
+    ["2305605", "Independência", "88"], ["2305654", "Ipaporanga", "88"], ["2305704", "Ipaumirim", "88"],
+    ["2305803", "Ipu", "88"], ["2305902", "Ipueiras", "88"], ["2306009", "Iracema", "88"],
+    ["2306108", "Irauçuba", "88"], ["2306207", "Itaiçaba", "88"], ["2306256", "Itaitinga", "85"],
+    ["2306306", "Itapajé", "85"], ["2306405", "Itapipoca", "88"], ["2306504", "Itapiúna", "88"],
+    ["2306553", "Itarema", "88"], ["2306603", "Itatira", "88"], ["2306702", "Jaguaretama", "88"],
+    ["2306801", "Jaguaribara", "88"], ["2306900", "Jaguaribe", "88"], ["2307007", "Jaguaruana", "88"],
+    ["2307106", "Jardim", "88"], ["2307205", "Jati", "88"], ["2307254", "Jijoca de Jericoacoara", "88"],
+    ["2307304", "Juazeiro do Norte", "88"], ["2307403", "Jucás", "88"], ["2307502", "Lavras da Mangabeira", "88"],
+    ["2307601", "Limoeiro do Norte", "88"], ["2307635", "Madalena", "88"], ["2307650", "Maracanaú", "85"],
+    ["2307700", "Maranguape", "85"], ["2307809", "Marco", "88"], ["2307908", "Martinópole", "88"],
+    ["2308005", "Massapê", "88"], ["2308104", "Mauriti", "88"], ["2308203", "Meruoca", "88"],
+    ["2308302", "Milagres", "88"], ["2308351", "Milhã", "88"], ["2308377", "Miraíma", "88"],
+    ["2308401", "Missão Velha", "88"], ["2308500", "Mombaça", "88"], ["2308609", "Monsenhor Tabosa", "88"],
+    ["2308708", "Morada Nova", "88"], ["2308807", "Moraújo", "88"], ["2308906", "Morrinhos", "88"],
+    ["2309003", "Mucambo", "88"], ["2309102", "Mulungu", "85"], ["2309201", "Nova Olinda", "88"],
+    ["2309300", "Nova Russas", "88"], ["2309409", "Novo Oriente", "88"], ["2309458", "Ocara", "85"],
+    ["2309508", "Orós", "88"], ["2309607", "Pacajus", "85"], ["2309706", "Pacatuba", "85"], ["2309805", "Pacoti", "85"],
+    ["2309904", "Pacujá", "88"], ["2310001", "Palhano", "88"], ["2310100", "Palmácia", "85"],
+    ["2310209", "Paracuru", "85"], ["2310258", "Paraipaba", "85"], ["2310308", "Parambu", "88"],
+    ["2310407", "Paramoti", "85"], ["2310506", "Pedra Branca", "88"], ["2310605", "Penaforte", "88"],
+    ["2310704", "Pentecoste", "85"], ["2310803", "Pereiro", "88"], ["2310852", "Pindoretama", "85"],
+    ["2310902", "Piquet Carneiro", "88"], ["2310951", "Pires Ferreira", "88"], ["2311009", "Poranga", "88"],
+    ["2311108", "Porteiras", "88"], ["2311207", "Potengi", "88"], ["2311231", "Potiretama", "88"],
+    ["2311264", "Quiterianópolis", "88"], ["2311306", "Quixadá", "88"], ["2311355", "Quixelô", "88"],
+    ["2311405", "Quixeramobim", "88"], ["2311504", "Quixeré", "88"], ["2311603", "Redenção", "85"],
+    ["2311702", "Reriutaba", "88"], ["2311801", "Russas", "88"], ["2311900", "Saboeiro", "88"],
+    ["2311959", "Salitre", "88"], ["2312007", "Santana do Acaraú", "88"], ["2312106", "Santana do Cariri", "88"],
+    ["2312205", "Santa Quitéria", "88"], ["2312304", "São Benedito", "88"],
+    ["2312403", "São Gonçalo do Amarante", "85"], ["2312502", "São João do Jaguaribe", "88"],
+    ["2312601", "São Luís do Curu", "85"], ["2312700", "Senador Pompeu", "88"], ["2312809", "Senador Sá", "88"],
+    ["2312908", "Sobral", "88"], ["2313005", "Solonópole", "88"], ["2313104", "Tabuleiro do Norte", "88"],
+    ["2313203", "Tamboril", "88"], ["2313252", "Tarrafas", "88"], ["2313302", "Tauá", "88"],
+    ["2313351", "Tejuçuoca", "85"], ["2313401", "Tianguá", "88"], ["2313500", "Trairi", "85"],
+    ["2313559", "Tururu", "85"], ["2313609", "Ubajara", "88"], ["2313708", "Umari", "88"], ["2313757", "Umirim", "85"],
+    ["2313807", "Uruburetama", "85"], ["2313906", "Uruoca", "88"], ["2313955", "Varjota", "88"],
+    ["2314003", "Várzea Alegre", "88"], ["2314102", "Viçosa do Ceará", "88"],
+  ],
+  RN: [
+    ["2400109", "Acari", "84"], ["2400208", "Açu", "84"], ["2400307", "Afonso Bezerra", "84"],
+    ["2400406", "Água Nova", "84"], ["2400505", "Alexandria", "84"], ["2400604", "Almino Afonso", "84"],
+    ["2400703", "Alto do Rodrigues", "84"], ["2400802", "Angicos", "84"], ["2400901", "Antônio Martins", "84"],
+    ["2401008", "Apodi", "84"], ["2401107", "Areia Branca", "84"], ["2401206", "Arês", "84"],
+    ["2401305", "Augusto Severo (Campo Grande)", "84"], ["2401404", "Baía Formosa", "84"], ["2401453", "Baraúna", "84"],
+    ["2401503", "Barcelona", "84"], ["2401602", "Bento Fernandes", "84"], ["2401651", "Bodó", "84"],
+    ["2401701", "Bom Jesus", "84"], ["2401800", "Brejinho", "84"], ["2401859", "Caiçara do Norte", "84"],
+    ["2401909", "Caiçara do Rio do Vento", "84"], ["2402006", "Caicó", "84"], ["2402105", "Campo Redondo", "84"],
+    ["2402204", "Canguaretama", "84"], ["2402303", "Caraúbas", "84"], ["2402402", "Carnaúba dos Dantas", "84"],
+    ["2402501", "Carnaubais", "84"], ["2402600", "Ceará-Mirim", "84"], ["2402709", "Cerro Corá", "84"],
+    ["2402808", "Coronel Ezequiel", "84"], ["2402907", "Coronel João Pessoa", "84"], ["2403004", "Cruzeta", "84"],
+    ["2403103", "Currais Novos", "84"], ["2403202", "Doutor Severiano", "84"], ["2403251", "Parnamirim", "84"],
+    ["2403301", "Encanto", "84"], ["2403400", "Equador", "84"], ["2403509", "Espírito Santo", "84"],
+    ["2403608", "Extremoz", "84"], ["2403707", "Felipe Guerra", "84"], ["2403756", "Fernando Pedroza", "84"],
+    ["2403806", "Florânia", "84"], ["2403905", "Francisco Dantas", "84"], ["2404002", "Frutuoso Gomes", "84"],
+    ["2404101", "Galinhos", "84"], ["2404200", "Goianinha", "84"], ["2404309", "Governador Dix-Sept Rosado", "84"],
+    ["2404408", "Grossos", "84"], ["2404507", "Guamaré", "84"], ["2404606", "Ielmo Marinho", "84"],
+    ["2404705", "Ipanguaçu", "84"], ["2404804", "Ipueira", "84"], ["2404853", "Itajá", "84"], ["2404903", "Itaú", "84"],
+    ["2405009", "Jaçanã", "84"], ["2405108", "Jandaíra", "84"], ["2405207", "Janduís", "84"],
+    ["2405306", "Januário Cicco (Boa Saúde)", "84"], ["2405405", "Japi", "84"], ["2405504", "Jardim de Angicos", "84"],
+    ["2405603", "Jardim de Piranhas", "84"], ["2405702", "Jardim do Seridó", "84"], ["2405801", "João Câmara", "84"],
+    ["2405900", "João Dias", "84"], ["2406007", "José da Penha", "84"], ["2406106", "Jucurutu", "84"],
+    ["2406155", "Jundiá", "84"], ["2406205", "Lagoa d'Anta", "84"], ["2406304", "Lagoa de Pedras", "84"],
+    ["2406403", "Lagoa de Velhos", "84"], ["2406502", "Lagoa Nova", "84"], ["2406601", "Lagoa Salgada", "84"],
+    ["2406700", "Lajes", "84"], ["2406809", "Lajes Pintadas", "84"], ["2406908", "Lucrécia", "84"],
+    ["2407005", "Luís Gomes", "84"], ["2407104", "Macaíba", "84"], ["2407203", "Macau", "84"],
+    ["2407252", "Major Sales", "84"], ["2407302", "Marcelino Vieira", "84"], ["2407401", "Martins", "84"],
+    ["2407500", "Maxaranguape", "84"], ["2407609", "Messias Targino", "84"], ["2407708", "Montanhas", "84"],
+    ["2407807", "Monte Alegre", "84"], ["2407906", "Monte das Gameleiras", "84"], ["2408003", "Mossoró", "84"],
+    ["2408102", "Natal", "84"], ["2408201", "Nísia Floresta", "84"], ["2408300", "Nova Cruz", "84"],
+    ["2408409", "Olho-d'Água do Borges", "84"], ["2408508", "Ouro Branco", "84"], ["2408607", "Paraná", "84"],
+    ["2408706", "Paraú", "84"], ["2408805", "Parazinho", "84"], ["2408904", "Parelhas", "84"],
+    ["2408953", "Rio do Fogo", "84"], ["2409100", "Passa e Fica", "84"], ["2409209", "Passagem", "84"],
+    ["2409308", "Patu", "84"], ["2409332", "Santa Maria", "84"], ["2409407", "Pau dos Ferros", "84"],
+    ["2409506", "Pedra Grande", "84"], ["2409605", "Pedra Preta", "84"], ["2409704", "Pedro Avelino", "84"],
+    ["2409803", "Pedro Velho", "84"], ["2409902", "Pendências", "84"], ["2410009", "Pilões", "84"],
+    ["2410108", "Poço Branco", "84"], ["2410207", "Portalegre", "84"], ["2410256", "Porto do Mangue", "84"],
+    ["2410306", "Serra Caiada", "84"], ["2410405", "Pureza", "84"], ["2410504", "Rafael Fernandes", "84"],
+    ["2410603", "Rafael Godeiro", "84"], ["2410702", "Riacho da Cruz", "84"], ["2410801", "Riacho de Santana", "84"],
+    ["2410900", "Riachuelo", "84"], ["2411007", "Rodolfo Fernandes", "84"], ["2411056", "Tibau", "84"],
+    ["2411106", "Ruy Barbosa", "84"], ["2411205", "Santa Cruz", "84"], ["2411403", "Santana do Matos", "84"],
+    ["2411429", "Santana do Seridó", "84"], ["2411502", "Santo Antônio", "84"], ["2411601", "São Bento do Norte", "84"],
+    ["2411700", "São Bento do Trairí", "84"], ["2411809", "São Fernando", "84"],
+    ["2411908", "São Francisco do Oeste", "84"], ["2412005", "São Gonçalo do Amarante", "84"],
+    ["2412104", "São João do Sabugi", "84"], ["2412203", "São José de Mipibu", "84"],
+    ["2412302", "São José do Campestre", "84"], ["2412401", "São José do Seridó", "84"],
+    ["2412500", "São Miguel", "84"], ["2412559", "São Miguel do Gostoso", "84"],
+    ["2412609", "São Paulo do Potengi", "84"], ["2412708", "São Pedro", "84"], ["2412807", "São Rafael", "84"],
+    ["2412906", "São Tomé", "84"], ["2413003", "São Vicente", "84"], ["2413102", "Senador Elói de Souza", "84"],
+    ["2413201", "Senador Georgino Avelino", "84"], ["2413300", "Serra de São Bento", "84"],
+    ["2413359", "Serra do Mel", "84"], ["2413409", "Serra Negra do Norte", "84"], ["2413508", "Serrinha", "84"],
+    ["2413557", "Serrinha dos Pintos", "84"], ["2413607", "Severiano Melo", "84"], ["2413706", "Sítio Novo", "84"],
+    ["2413805", "Taboleiro Grande", "84"], ["2413904", "Taipu", "84"], ["2414001", "Tangará", "84"],
+    ["2414100", "Tenente Ananias", "84"], ["2414159", "Tenente Laurentino Cruz", "84"],
+    ["2414209", "Tibau do Sul", "84"], ["2414308", "Timbaúba dos Batistas", "84"], ["2414407", "Touros", "84"],
+    ["2414456", "Triunfo Potiguar", "84"], ["2414506", "Umarizal", "84"], ["2414605", "Upanema", "84"],
+    ["2414704", "Várzea", "84"], ["2414753", "Venha-Ver", "84"], ["2414803", "Vera Cruz", "84"],
+    ["2414902", "Viçosa", "84"], ["2415008", "Vila Flor", "84"],
+  ],
+  PB: [
+    ["2500106", "Água Branca", "83"], ["2500205", "Aguiar", "83"], ["2500304", "Alagoa Grande", "83"],
+    ["2500403", "Alagoa Nova", "83"], ["2500502", "Alagoinha", "83"], ["2500536", "Alcantil", "83"],
+    ["2500577", "Algodão de Jandaíra", "83"], ["2500601", "Alhandra", "83"],
+    ["2500700", "São João do Rio do Peixe", "83"], ["2500734", "Amparo", "83"], ["2500775", "Aparecida", "83"],
+    ["2500809", "Araçagi", "83"], ["2500908", "Arara", "83"], ["2501005", "Araruna", "83"], ["2501104", "Areia", "83"],
+    ["2501153", "Areia de Baraúnas", "83"], ["2501203", "Areial", "83"], ["2501302", "Aroeiras", "83"],
+    ["2501351", "Assunção", "83"], ["2501401", "Baía da Traição", "83"], ["2501500", "Bananeiras", "83"],
+    ["2501534", "Baraúna", "83"], ["2501575", "Barra de Santana", "83"], ["2501609", "Barra de Santa Rosa", "83"],
+    ["2501708", "Barra de São Miguel", "83"], ["2501807", "Bayeux", "83"], ["2501906", "Belém", "83"],
+    ["2502003", "Belém do Brejo do Cruz", "83"], ["2502052", "Bernardino Batista", "83"],
+    ["2502102", "Boa Ventura", "83"], ["2502151", "Boa Vista", "83"], ["2502201", "Bom Jesus", "83"],
+    ["2502300", "Bom Sucesso", "83"], ["2502409", "Bonito de Santa Fé", "83"], ["2502508", "Boqueirão", "83"],
+    ["2502607", "Igaracy", "83"], ["2502706", "Borborema", "83"], ["2502805", "Brejo do Cruz", "83"],
+    ["2502904", "Brejo dos Santos", "83"], ["2503001", "Caaporã", "83"], ["2503100", "Cabaceiras", "83"],
+    ["2503209", "Cabedelo", "83"], ["2503308", "Cachoeira dos Índios", "83"], ["2503407", "Cacimba de Areia", "83"],
+    ["2503506", "Cacimba de Dentro", "83"], ["2503555", "Cacimbas", "83"], ["2503605", "Caiçara", "83"],
+    ["2503704", "Cajazeiras", "83"], ["2503753", "Cajazeirinhas", "83"], ["2503803", "Caldas Brandão", "83"],
+    ["2503902", "Camalaú", "83"], ["2504009", "Campina Grande", "83"], ["2504033", "Capim", "83"],
+    ["2504074", "Caraúbas", "83"], ["2504108", "Carrapateira", "83"], ["2504157", "Casserengue", "83"],
+    ["2504207", "Catingueira", "83"], ["2504306", "Catolé do Rocha", "83"], ["2504355", "Caturité", "83"],
+    ["2504405", "Conceição", "83"], ["2504504", "Condado", "83"], ["2504603", "Conde", "83"],
+    ["2504702", "Congo", "83"], ["2504801", "Coremas", "83"], ["2504850", "Coxixola", "83"],
+    ["2504900", "Cruz do Espírito Santo", "83"], ["2505006", "Cubati", "83"], ["2505105", "Cuité", "83"],
+    ["2505204", "Cuitegi", "83"], ["2505238", "Cuité de Mamanguape", "83"], ["2505279", "Curral de Cima", "83"],
+    ["2505303", "Curral Velho", "83"], ["2505352", "Damião", "83"], ["2505402", "Desterro", "83"],
+    ["2505501", "Vista Serrana", "83"], ["2505600", "Diamante", "83"], ["2505709", "Dona Inês", "83"],
+    ["2505808", "Duas Estradas", "83"], ["2505907", "Emas", "83"], ["2506004", "Esperança", "83"],
+    ["2506103", "Fagundes", "83"], ["2506202", "Frei Martinho", "83"], ["2506251", "Gado Bravo", "83"],
+    ["2506301", "Guarabira", "83"], ["2506400", "Gurinhém", "83"], ["2506509", "Gurjão", "83"],
+    ["2506608", "Ibiara", "83"], ["2506707", "Imaculada", "83"], ["2506806", "Ingá", "83"],
+    ["2506905", "Itabaiana", "83"], ["2507002", "Itaporanga", "83"], ["2507101", "Itapororoca", "83"],
+    ["2507200", "Itatuba", "83"], ["2507309", "Jacaraú", "83"], ["2507408", "Jericó", "83"],
+    ["2507507", "João Pessoa", "83"], ["2507606", "Juarez Távora", "83"], ["2507705", "Juazeirinho", "83"],
+    ["2507804", "Junco do Seridó", "83"], ["2507903", "Juripiranga", "83"], ["2508000", "Juru", "83"],
+    ["2508109", "Lagoa", "83"], ["2508208", "Lagoa de Dentro", "83"], ["2508307", "Lagoa Seca", "83"],
+    ["2508406", "Lastro", "83"], ["2508505", "Livramento", "83"], ["2508554", "Logradouro", "83"],
+    ["2508604", "Lucena", "83"], ["2508703", "Mãe d'Água", "83"], ["2508802", "Malta", "83"],
+    ["2508901", "Mamanguape", "83"], ["2509008", "Manaíra", "83"], ["2509057", "Marcação", "83"],
+    ["2509107", "Mari", "83"], ["2509156", "Marizópolis", "83"], ["2509206", "Massaranduba", "83"],
+    ["2509305", "Mataraca", "83"], ["2509339", "Matinhas", "83"], ["2509370", "Mato Grosso", "83"],
+    ["2509396", "Maturéia", "83"], ["2509404", "Mogeiro", "83"], ["2509503", "Montadas", "83"],
+    ["2509602", "Monte Horebe", "83"], ["2509701", "Monteiro", "83"], ["2509800", "Mulungu", "83"],
+    ["2509909", "Natuba", "83"], ["2510006", "Nazarezinho", "83"], ["2510105", "Nova Floresta", "83"],
+    ["2510204", "Nova Olinda", "83"], ["2510303", "Nova Palmeira", "83"], ["2510402", "Olho d'Água", "83"],
+    ["2510501", "Olivedos", "83"], ["2510600", "Ouro Velho", "83"], ["2510659", "Parari", "83"],
+    ["2510709", "Passagem", "83"], ["2510808", "Patos", "83"], ["2510907", "Paulista", "83"],
+    ["2511004", "Pedra Branca", "83"], ["2511103", "Pedra Lavrada", "83"], ["2511202", "Pedras de Fogo", "83"],
+    ["2511301", "Piancó", "83"], ["2511400", "Picuí", "83"], ["2511509", "Pilar", "83"], ["2511608", "Pilões", "83"],
+    ["2511707", "Pilõezinhos", "83"], ["2511806", "Pirpirituba", "83"], ["2511905", "Pitimbu", "83"],
+    ["2512002", "Pocinhos", "83"], ["2512036", "Poço Dantas", "83"], ["2512077", "Poço de José de Moura", "83"],
+    ["2512101", "Pombal", "83"], ["2512200", "Prata", "83"], ["2512309", "Princesa Isabel", "83"],
+    ["2512408", "Puxinanã", "83"], ["2512507", "Queimadas", "83"], ["2512606", "Quixabá", "83"],
+    ["2512705", "Remígio", "83"], ["2512721", "Pedro Régis", "83"], ["2512747", "Riachão", "83"],
+    ["2512754", "Riachão do Bacamarte", "83"], ["2512762", "Riachão do Poço", "83"],
+    ["2512788", "Riacho de Santo Antônio", "83"], ["2512804", "Riacho dos Cavalos", "83"],
+    ["2512903", "Rio Tinto", "83"], ["2513000", "Salgadinho", "83"], ["2513109", "Salgado de São Félix", "83"],
+    ["2513158", "Santa Cecília", "83"], ["2513208", "Santa Cruz", "83"], ["2513307", "Santa Helena", "83"],
+    ["2513356", "Santa Inês", "83"], ["2513406", "Santa Luzia", "83"], ["2513505", "Santana de Mangueira", "83"],
+    ["2513604", "Santana dos Garrotes", "83"], ["2513653", "Joca Claudino", "83"], ["2513703", "Santa Rita", "83"],
+    ["2513802", "Santa Teresinha", "83"], ["2513851", "Santo André", "83"], ["2513901", "São Bento", "83"],
+    ["2513927", "São Bentinho", "83"], ["2513943", "São Domingos do Cariri", "83"], ["2513968", "São Domingos", "83"],
+    ["2513984", "São Francisco", "83"], ["2514008", "São João do Cariri", "83"], ["2514107", "São João do Tigre", "83"],
+    ["2514206", "São José da Lagoa Tapada", "83"], ["2514305", "São José de Caiana", "83"],
+    ["2514404", "São José de Espinharas", "83"], ["2514453", "São José dos Ramos", "83"],
+    ["2514503", "São José de Piranhas", "83"], ["2514552", "São José de Princesa", "83"],
+    ["2514602", "São José do Bonfim", "83"], ["2514651", "São José do Brejo do Cruz", "83"],
+    ["2514701", "São José do Sabugi", "83"], ["2514800", "São José dos Cordeiros", "83"],
+    ["2514909", "São Mamede", "83"], ["2515005", "São Miguel de Taipu", "83"],
+    ["2515104", "São Sebastião de Lagoa de Roça", "83"], ["2515203", "São Sebastião do Umbuzeiro", "83"],
+    ["2515302", "Sapé", "83"], ["2515401", "São Vicente do Seridó", "83"], ["2515500", "Serra Branca", "83"],
+    ["2515609", "Serra da Raiz", "83"], ["2515708", "Serra Grande", "83"], ["2515807", "Serra Redonda", "83"],
+    ["2515906", "Serraria", "83"], ["2515930", "Sertãozinho", "83"], ["2515971", "Sobrado", "83"],
+    ["2516003", "Solânea", "83"], ["2516102", "Soledade", "83"], ["2516151", "Sossêgo", "83"],
+    ["2516201", "Sousa", "83"], ["2516300", "Sumé", "83"], ["2516409", "Tacima", "83"], ["2516508", "Taperoá", "83"],
+    ["2516607", "Tavares", "83"], ["2516706", "Teixeira", "83"], ["2516755", "Tenório", "83"],
+    ["2516805", "Triunfo", "83"], ["2516904", "Uiraúna", "83"], ["2517001", "Umbuzeiro", "83"],
+    ["2517100", "Várzea", "83"], ["2517209", "Vieirópolis", "83"], ["2517407", "Zabelê", "83"],
+  ],
+  PE: [
+    ["2600054", "Abreu e Lima", "81"], ["2600104", "Afogados da Ingazeira", "87"], ["2600203", "Afrânio", "87"],
+    ["2600302", "Agrestina", "81"], ["2600401", "Água Preta", "81"], ["2600500", "Águas Belas", "87"],
+    ["2600609", "Alagoinha", "87"], ["2600708", "Aliança", "81"], ["2600807", "Altinho", "81"],
+    ["2600906", "Amaraji", "81"], ["2601003", "Angelim", "87"], ["2601052", "Araçoiaba", "81"],
+    ["2601102", "Araripina", "87"], ["2601201", "Arcoverde", "87"], ["2601300", "Barra de Guabiraba", "81"],
+    ["2601409", "Barreiros", "81"], ["2601508", "Belém de Maria", "81"], ["2601607", "Belém do São Francisco", "87"],
+    ["2601706", "Belo Jardim", "81"], ["2601805", "Betânia", "87"], ["2601904", "Bezerros", "81"],
+    ["2602001", "Bodocó", "87"], ["2602100", "Bom Conselho", "87"], ["2602209", "Bom Jardim", "81"],
+    ["2602308", "Bonito", "81"], ["2602407", "Brejão", "87"], ["2602506", "Brejinho", "87"],
+    ["2602605", "Brejo da Madre de Deus", "81"], ["2602704", "Buenos Aires", "81"], ["2602803", "Buíque", "87"],
+    ["2602902", "Cabo de Santo Agostinho", "81"], ["2603009", "Cabrobó", "87"], ["2603108", "Cachoeirinha", "81"],
+    ["2603207", "Caetés", "87"], ["2603306", "Calçado", "87"], ["2603405", "Calumbi", "87"],
+    ["2603454", "Camaragibe", "81"], ["2603504", "Camocim de São Félix", "81"], ["2603603", "Camutanga", "81"],
+    ["2603702", "Canhotinho", "87"], ["2603801", "Capoeiras", "87"], ["2603900", "Carnaíba", "87"],
+    ["2603926", "Carnaubeira da Penha", "87"], ["2604007", "Carpina", "81"], ["2604106", "Caruaru", "81"],
+    ["2604155", "Casinhas", "81"], ["2604205", "Catende", "81"], ["2604304", "Cedro", "87"],
+    ["2604403", "Chã de Alegria", "81"], ["2604502", "Chã Grande", "81"], ["2604601", "Condado", "81"],
+    ["2604700", "Correntes", "87"], ["2604809", "Cortês", "81"], ["2604908", "Cumaru", "81"],
+    ["2605004", "Cupira", "81"], ["2605103", "Custódia", "87"], ["2605152", "Dormentes", "87"],
+    ["2605202", "Escada", "81"], ["2605301", "Exu", "87"], ["2605400", "Feira Nova", "81"],
+    ["2605459", "Fernando de Noronha", "81"], ["2605509", "Ferreiros", "81"], ["2605608", "Flores", "87"],
+    ["2605707", "Floresta", "87"], ["2605806", "Frei Miguelinho", "81"], ["2605905", "Gameleira", "81"],
+    ["2606002", "Garanhuns", "87"], ["2606101", "Glória do Goitá", "81"], ["2606200", "Goiana", "81"],
+    ["2606309", "Granito", "87"], ["2606408", "Gravatá", "81"], ["2606507", "Iati", "87"],
+    ["2606606", "Ibimirim", "87"], ["2606705", "Ibirajuba", "87"], ["2606804", "Igarassu", "81"],
+    ["2606903", "Iguaracy", "87"], ["2607000", "Inajá", "87"], ["2607109", "Ingazeira", "87"],
+    ["2607208", "Ipojuca", "81"], ["2607307", "Ipubi", "87"], ["2607406", "Itacuruba", "87"],
+    ["2607505", "Itaíba", "87"], ["2607604", "Ilha de Itamaracá", "81"], ["2607653", "Itambé", "81"],
+    ["2607703", "Itapetim", "87"], ["2607752", "Itapissuma", "81"], ["2607802", "Itaquitinga", "81"],
+    ["2607901", "Jaboatão dos Guararapes", "81"], ["2607950", "Jaqueira", "81"], ["2608008", "Jataúba", "81"],
+    ["2608057", "Jatobá", "87"], ["2608107", "João Alfredo", "81"], ["2608206", "Joaquim Nabuco", "81"],
+    ["2608255", "Jucati", "87"], ["2608305", "Jupi", "87"], ["2608404", "Jurema", "87"],
+    ["2608453", "Lagoa do Carro", "81"], ["2608503", "Lagoa de Itaenga", "81"], ["2608602", "Lagoa do Ouro", "87"],
+    ["2608701", "Lagoa dos Gatos", "81"], ["2608750", "Lagoa Grande", "87"], ["2608800", "Lajedo", "87"],
+    ["2608909", "Limoeiro", "81"], ["2609006", "Macaparana", "81"], ["2609105", "Machados", "81"],
+    ["2609154", "Manari", "87"], ["2609204", "Maraial", "81"], ["2609303", "Mirandiba", "87"],
+    ["2609402", "Moreno", "81"], ["2609501", "Nazaré da Mata", "81"], ["2609600", "Olinda", "81"],
+    ["2609709", "Orobó", "81"], ["2609808", "Orocó", "87"], ["2609907", "Ouricuri", "87"],
+    ["2610004", "Palmares", "81"], ["2610103", "Palmeirina", "87"], ["2610202", "Panelas", "81"],
+    ["2610301", "Paranatama", "87"], ["2610400", "Parnamirim", "87"], ["2610509", "Passira", "81"],
+    ["2610608", "Paudalho", "81"], ["2610707", "Paulista", "81"], ["2610806", "Pedra", "87"],
+    ["2610905", "Pesqueira", "87"], ["2611002", "Petrolândia", "87"], ["2611101", "Petrolina", "87"],
+    ["2611200", "Poção", "87"], ["2611309", "Pombos", "81"], ["2611408", "Primavera", "81"],
+    ["2611507", "Quipapá", "81"], ["2611533", "Quixaba", "87"], ["2611606", "Recife", "81"],
+    ["2611705", "Riacho das Almas", "81"], ["2611804", "Ribeirão", "81"], ["2611903", "Rio Formoso", "81"],
+    ["2612000", "Sairé", "81"], ["2612109", "Salgadinho", "81"], ["2612208", "Salgueiro", "87"],
+    ["2612307", "Saloá", "87"], ["2612406", "Sanharó", "87"], ["2612455", "Santa Cruz", "87"],
+    ["2612471", "Santa Cruz da Baixa Verde", "87"], ["2612505", "Santa Cruz do Capibaribe", "81"],
+    ["2612554", "Santa Filomena", "87"], ["2612604", "Santa Maria da Boa Vista", "87"],
+    ["2612703", "Santa Maria do Cambucá", "81"], ["2612802", "Santa Terezinha", "87"],
+    ["2612901", "São Benedito do Sul", "81"], ["2613008", "São Bento do Una", "81"], ["2613107", "São Caetano", "81"],
+    ["2613206", "São João", "87"], ["2613305", "São Joaquim do Monte", "81"],
+    ["2613404", "São José da Coroa Grande", "81"], ["2613503", "São José do Belmonte", "87"],
+    ["2613602", "São José do Egito", "87"], ["2613701", "São Lourenço da Mata", "81"],
+    ["2613800", "São Vicente Ferrer", "81"], ["2613909", "Serra Talhada", "87"], ["2614006", "Serrita", "87"],
+    ["2614105", "Sertânia", "87"], ["2614204", "Sirinhaém", "81"], ["2614303", "Moreilândia", "87"],
+    ["2614402", "Solidão", "87"], ["2614501", "Surubim", "81"], ["2614600", "Tabira", "87"],
+    ["2614709", "Tacaimbó", "81"], ["2614808", "Tacaratu", "87"], ["2614857", "Tamandaré", "81"],
+    ["2615003", "Taquaritinga do Norte", "81"], ["2615102", "Terezinha", "87"], ["2615201", "Terra Nova", "87"],
+    ["2615300", "Timbaúba", "81"], ["2615409", "Toritama", "81"], ["2615508", "Tracunhaém", "81"],
+    ["2615607", "Trindade", "87"], ["2615706", "Triunfo", "87"], ["2615805", "Tupanatinga", "87"],
+    ["2615904", "Tuparetama", "87"], ["2616001", "Venturosa", "87"], ["2616100", "Verdejante", "87"],
+    ["2616183", "Vertente do Lério", "81"], ["2616209", "Vertentes", "81"], ["2616308", "Vicência", "81"],
+    ["2616407", "Vitória de Santo Antão", "81"], ["2616506", "Xexéu", "81"],
+  ],
+  AL: [
+    ["2700102", "Água Branca", "82"], ["2700201", "Anadia", "82"], ["2700300", "Arapiraca", "82"],
+    ["2700409", "Atalaia", "82"], ["2700508", "Barra de Santo Antônio", "82"], ["2700607", "Barra de São Miguel", "82"],
+    ["2700706", "Batalha", "82"], ["2700805", "Belém", "82"], ["2700904", "Belo Monte", "82"],
+    ["2701001", "Boca da Mata", "82"], ["2701100", "Branquinha", "82"], ["2701209", "Cacimbinhas", "82"],
+    ["2701308", "Cajueiro", "82"], ["2701357", "Campestre", "82"], ["2701407", "Campo Alegre", "82"],
+    ["2701506", "Campo Grande", "82"], ["2701605", "Canapi", "82"], ["2701704", "Capela", "82"],
+    ["2701803", "Carneiros", "82"], ["2701902", "Chã Preta", "82"], ["2702009", "Coité do Nóia", "82"],
+    ["2702108", "Colônia Leopoldina", "82"], ["2702207", "Coqueiro Seco", "82"], ["2702306", "Coruripe", "82"],
+    ["2702355", "Craíbas", "82"], ["2702405", "Delmiro Gouveia", "82"], ["2702504", "Dois Riachos", "82"],
+    ["2702553", "Estrela de Alagoas", "82"], ["2702603", "Feira Grande", "82"], ["2702702", "Feliz Deserto", "82"],
+    ["2702801", "Flexeiras", "82"], ["2702900", "Girau do Ponciano", "82"], ["2703007", "Ibateguara", "82"],
+    ["2703106", "Igaci", "82"], ["2703205", "Igreja Nova", "82"], ["2703304", "Inhapi", "82"],
+    ["2703403", "Jacaré dos Homens", "82"], ["2703502", "Jacuípe", "82"], ["2703601", "Japaratinga", "82"],
+    ["2703700", "Jaramataia", "82"], ["2703759", "Jequiá da Praia", "82"], ["2703809", "Joaquim Gomes", "82"],
+    ["2703908", "Jundiá", "82"], ["2704005", "Junqueiro", "82"], ["2704104", "Lagoa da Canoa", "82"],
+    ["2704203", "Limoeiro de Anadia", "82"], ["2704302", "Maceió", "82"], ["2704401", "Major Isidoro", "82"],
+    ["2704500", "Maragogi", "82"], ["2704609", "Maravilha", "82"], ["2704708", "Marechal Deodoro", "82"],
+    ["2704807", "Maribondo", "82"], ["2704906", "Mar Vermelho", "82"], ["2705002", "Mata Grande", "82"],
+    ["2705101", "Matriz de Camaragibe", "82"], ["2705200", "Messias", "82"], ["2705309", "Minador do Negrão", "82"],
+    ["2705408", "Monteirópolis", "82"], ["2705507", "Murici", "82"], ["2705606", "Novo Lino", "82"],
+    ["2705705", "Olho d'Água das Flores", "82"], ["2705804", "Olho d'Água do Casado", "82"],
+    ["2705903", "Olho d'Água Grande", "82"], ["2706000", "Olivença", "82"], ["2706109", "Ouro Branco", "82"],
+    ["2706208", "Palestina", "82"], ["2706307", "Palmeira dos Índios", "82"], ["2706406", "Pão de Açúcar", "82"],
+    ["2706422", "Pariconha", "82"], ["2706448", "Paripueira", "82"], ["2706505", "Passo de Camaragibe", "82"],
+    ["2706604", "Paulo Jacinto", "82"], ["2706703", "Penedo", "82"], ["2706802", "Piaçabuçu", "82"],
+    ["2706901", "Pilar", "82"], ["2707008", "Pindoba", "82"], ["2707107", "Piranhas", "82"],
+    ["2707206", "Poço das Trincheiras", "82"], ["2707305", "Porto Calvo", "82"], ["2707404", "Porto de Pedras", "82"],
+    ["2707503", "Porto Real do Colégio", "82"], ["2707602", "Quebrangulo", "82"], ["2707701", "Rio Largo", "82"],
+    ["2707800", "Roteiro", "82"], ["2707909", "Santa Luzia do Norte", "82"], ["2708006", "Santana do Ipanema", "82"],
+    ["2708105", "Santana do Mundaú", "82"], ["2708204", "São Brás", "82"], ["2708303", "São José da Laje", "82"],
+    ["2708402", "São José da Tapera", "82"], ["2708501", "São Luís do Quitunde", "82"],
+    ["2708600", "São Miguel dos Campos", "82"], ["2708709", "São Miguel dos Milagres", "82"],
+    ["2708808", "São Sebastião", "82"], ["2708907", "Satuba", "82"], ["2708956", "Senador Rui Palmeira", "82"],
+    ["2709004", "Tanque d'Arca", "82"], ["2709103", "Taquarana", "82"], ["2709152", "Teotônio Vilela", "82"],
+    ["2709202", "Traipu", "82"], ["2709301", "União dos Palmares", "82"], ["2709400", "Viçosa", "82"],
+  ],
+  SE: [
+    ["2800100", "Amparo de São Francisco", "79"], ["2800209", "Aquidabã", "79"], ["2800308", "Aracaju", "79"],
+    ["2800407", "Arauá", "79"], ["2800506", "Areia Branca", "79"], ["2800605", "Barra dos Coqueiros", "79"],
+    ["2800670", "Boquim", "79"], ["2800704", "Brejo Grande", "79"], ["2801009", "Campo do Brito", "79"],
+    ["2801108", "Canhoba", "79"], ["2801207", "Canindé de São Francisco", "79"], ["2801306", "Capela", "79"],
+    ["2801405", "Carira", "79"], ["2801504", "Carmópolis", "79"], ["2801603", "Cedro de São João", "79"],
+    ["2801702", "Cristinápolis", "79"], ["2801900", "Cumbe", "79"], ["2802007", "Divina Pastora", "79"],
+    ["2802106", "Estância", "79"], ["2802205", "Feira Nova", "79"], ["2802304", "Frei Paulo", "79"],
+    ["2802403", "Gararu", "79"], ["2802502", "General Maynard", "79"], ["2802601", "Gracho Cardoso", "79"],
+    ["2802700", "Ilha das Flores", "79"], ["2802809", "Indiaroba", "79"], ["2802908", "Itabaiana", "79"],
+    ["2803005", "Itabaianinha", "79"], ["2803104", "Itabi", "79"], ["2803203", "Itaporanga d'Ajuda", "79"],
+    ["2803302", "Japaratuba", "79"], ["2803401", "Japoatã", "79"], ["2803500", "Lagarto", "79"],
+    ["2803609", "Laranjeiras", "79"], ["2803708", "Macambira", "79"], ["2803807", "Malhada dos Bois", "79"],
+    ["2803906", "Malhador", "79"], ["2804003", "Maruim", "79"], ["2804102", "Moita Bonita", "79"],
+    ["2804201", "Monte Alegre de Sergipe", "79"], ["2804300", "Muribeca", "79"], ["2804409", "Neópolis", "79"],
+    ["2804458", "Nossa Senhora Aparecida", "79"], ["2804508", "Nossa Senhora da Glória", "79"],
+    ["2804607", "Nossa Senhora das Dores", "79"], ["2804706", "Nossa Senhora de Lourdes", "79"],
+    ["2804805", "Nossa Senhora do Socorro", "79"], ["2804904", "Pacatuba", "79"], ["2805000", "Pedra Mole", "79"],
+    ["2805109", "Pedrinhas", "79"], ["2805208", "Pinhão", "79"], ["2805307", "Pirambu", "79"],
+    ["2805406", "Poço Redondo", "79"], ["2805505", "Poço Verde", "79"], ["2805604", "Porto da Folha", "79"],
+    ["2805703", "Propriá", "79"], ["2805802", "Riachão do Dantas", "79"], ["2805901", "Riachuelo", "79"],
+    ["2806008", "Ribeirópolis", "79"], ["2806107", "Rosário do Catete", "79"], ["2806206", "Salgado", "79"],
+    ["2806305", "Santa Luzia do Itanhy", "79"], ["2806404", "Santana do São Francisco", "79"],
+    ["2806503", "Santa Rosa de Lima", "79"], ["2806602", "Santo Amaro das Brotas", "79"],
+    ["2806701", "São Cristóvão", "79"], ["2806800", "São Domingos", "79"], ["2806909", "São Francisco", "79"],
+    ["2807006", "São Miguel do Aleixo", "79"], ["2807105", "Simão Dias", "79"], ["2807204", "Siriri", "79"],
+    ["2807303", "Telha", "79"], ["2807402", "Tobias Barreto", "79"], ["2807501", "Tomar do Geru", "79"],
+    ["2807600", "Umbaúba", "79"],
+  ],
+  BA: [
+    ["2900108", "Abaíra", "77"], ["2900207", "Abaré", "75"], ["2900306", "Acajutiba", "75"],
+    ["2900355", "Adustina", "75"], ["2900405", "Água Fria", "75"], ["2900504", "Érico Cardoso", "77"],
+    ["2900603", "Aiquara", "73"], ["2900702", "Alagoinhas", "75"], ["2900801", "Alcobaça", "73"],
+    ["2900900", "Almadina", "73"], ["2901007", "Amargosa", "75"], ["2901106", "Amélia Rodrigues", "75"],
+    ["2901155", "América Dourada", "74"], ["2901205", "Anagé", "77"], ["2901304", "Andaraí", "75"],
+    ["2901353", "Andorinha", "74"], ["2901403", "Angical", "77"], ["2901502", "Anguera", "75"],
+    ["2901601", "Antas", "75"], ["2901700", "Antônio Cardoso", "75"], ["2901809", "Antônio Gonçalves", "74"],
+    ["2901908", "Aporá", "75"], ["2901957", "Apuarema", "73"], ["2902005", "Aracatu", "77"],
+    ["2902054", "Araças", "75"], ["2902104", "Araci", "75"], ["2902203", "Aramari", "75"], ["2902252", "Arataca", "73"],
+    ["2902302", "Aratuípe", "75"], ["2902401", "Aurelino Leal", "73"], ["2902500", "Baianópolis", "77"],
+    ["2902609", "Baixa Grande", "74"], ["2902658", "Banzaê", "75"], ["2902708", "Barra", "74"],
+    ["2902807", "Barra da Estiva", "77"], ["2902906", "Barra do Choça", "77"], ["2903003", "Barra do Mendes", "74"],
+    ["2903102", "Barra do Rocha", "73"], ["2903201", "Barreiras", "77"], ["2903235", "Barro Alto", "74"],
+    ["2903276", "Barrocas", "75"], ["2903300", "Barro Preto", "73"], ["2903409", "Belmonte", "73"],
+    ["2903508", "Belo Campo", "77"], ["2903607", "Biritinga", "75"], ["2903706", "Boa Nova", "77"],
+    ["2903805", "Boa Vista do Tupim", "75"], ["2903904", "Bom Jesus da Lapa", "77"],
+    ["2903953", "Bom Jesus da Serra", "77"], ["2904001", "Boninal", "75"], ["2904050", "Bonito", "75"],
+    ["2904100", "Boquira", "77"], ["2904209", "Botuporã", "77"], ["2904308", "Brejões", "75"],
+    ["2904407", "Brejolândia", "77"], ["2904506", "Brotas de Macaúbas", "77"], ["2904605", "Brumado", "77"],
+    ["2904704", "Buerarema", "73"], ["2904753", "Buritirama", "77"], ["2904803", "Caatiba", "77"],
+    ["2904852", "Cabaceiras do Paraguaçu", "75"], ["2904902", "Cachoeira", "75"], ["2905008", "Caculé", "77"],
+    ["2905107", "Caém", "74"], ["2905156", "Caetanos", "77"], ["2905206", "Caetité", "77"],
+    ["2905305", "Cafarnaum", "74"], ["2905404", "Cairu", "75"], ["2905503", "Caldeirão Grande", "74"],
+    ["2905602", "Camacan", "73"], ["2905701", "Camaçari", "71"], ["2905800", "Camamu", "73"],
+    ["2905909", "Campo Alegre de Lourdes", "74"], ["2906006", "Campo Formoso", "74"], ["2906105", "Canápolis", "77"],
+    ["2906204", "Canarana", "74"], ["2906303", "Canavieiras", "73"], ["2906402", "Candeal", "75"],
+    ["2906501", "Candeias", "71"], ["2906600", "Candiba", "77"], ["2906709", "Cândido Sales", "77"],
+    ["2906808", "Cansanção", "75"], ["2906824", "Canudos", "75"], ["2906857", "Capela do Alto Alegre", "75"],
+    ["2906873", "Capim Grosso", "74"], ["2906899", "Caraíbas", "77"], ["2906907", "Caravelas", "73"],
+    ["2907004", "Cardeal da Silva", "75"], ["2907103", "Carinhanha", "77"], ["2907202", "Casa Nova", "74"],
+    ["2907301", "Castro Alves", "75"], ["2907400", "Catolândia", "77"], ["2907509", "Catu", "71"],
+    ["2907558", "Caturama", "77"], ["2907608", "Central", "74"], ["2907707", "Chorrochó", "75"],
+    ["2907806", "Cícero Dantas", "75"], ["2907905", "Cipó", "75"], ["2908002", "Coaraci", "73"],
+    ["2908101", "Cocos", "77"], ["2908200", "Conceição da Feira", "75"], ["2908309", "Conceição do Almeida", "75"],
+    ["2908408", "Conceição do Coité", "75"], ["2908507", "Conceição do Jacuípe", "75"], ["2908606", "Conde", "75"],
+    ["2908705", "Condeúba", "77"], ["2908804", "Contendas do Sincorá", "77"], ["2908903", "Coração de Maria", "75"],
+    ["2909000", "Cordeiros", "77"], ["2909109", "Coribe", "77"], ["2909208", "Coronel João Sá", "75"],
+    ["2909307", "Correntina", "77"], ["2909406", "Cotegipe", "77"], ["2909505", "Cravolândia", "73"],
+    ["2909604", "Crisópolis", "75"], ["2909703", "Cristópolis", "77"], ["2909802", "Cruz das Almas", "75"],
+    ["2909901", "Curaçá", "74"], ["2910008", "Dário Meira", "73"], ["2910057", "Dias d'Ávila", "71"],
+    ["2910107", "Dom Basílio", "77"], ["2910206", "Dom Macedo Costa", "75"], ["2910305", "Elísio Medrado", "75"],
+    ["2910404", "Encruzilhada", "77"], ["2910503", "Entre Rios", "75"], ["2910602", "Esplanada", "75"],
+    ["2910701", "Euclides da Cunha", "75"], ["2910727", "Eunápolis", "73"], ["2910750", "Fátima", "75"],
+    ["2910776", "Feira da Mata", "77"], ["2910800", "Feira de Santana", "75"], ["2910859", "Filadélfia", "74"],
+    ["2910909", "Firmino Alves", "73"], ["2911006", "Floresta Azul", "73"], ["2911105", "Formosa do Rio Preto", "77"],
+    ["2911204", "Gandu", "73"], ["2911253", "Gavião", "75"], ["2911303", "Gentio do Ouro", "74"],
+    ["2911402", "Glória", "75"], ["2911501", "Gongogi", "73"], ["2911600", "Governador Mangabeira", "75"],
+    ["2911659", "Guajeru", "77"], ["2911709", "Guanambi", "77"], ["2911808", "Guaratinga", "73"],
+    ["2911857", "Heliópolis", "75"], ["2911907", "Iaçu", "75"], ["2912004", "Ibiassucê", "77"],
+    ["2912103", "Ibicaraí", "73"], ["2912202", "Ibicoara", "77"], ["2912301", "Ibicuí", "73"],
+    ["2912400", "Ibipeba", "74"], ["2912509", "Ibipitanga", "77"], ["2912608", "Ibiquera", "75"],
+    ["2912707", "Ibirapitanga", "73"], ["2912806", "Ibirapuã", "73"], ["2912905", "Ibirataia", "73"],
+    ["2913002", "Ibitiara", "77"], ["2913101", "Ibititá", "74"], ["2913200", "Ibotirama", "77"],
+    ["2913309", "Ichu", "75"], ["2913408", "Igaporã", "77"], ["2913457", "Igrapiúna", "73"], ["2913507", "Iguaí", "73"],
+    ["2913606", "Ilhéus", "73"], ["2913705", "Inhambupe", "75"], ["2913804", "Ipecaetá", "75"],
+    ["2913903", "Ipiaú", "73"], ["2914000", "Ipirá", "75"], ["2914109", "Ipupiara", "77"], ["2914208", "Irajuba", "73"],
+    ["2914307", "Iramaia", "77"], ["2914406", "Iraquara", "75"], ["2914505", "Irará", "75"], ["2914604", "Irecê", "74"],
+    ["2914653", "Itabela", "73"], ["2914703", "Itaberaba", "75"], ["2914802", "Itabuna", "73"],
+    ["2914901", "Itacaré", "73"], ["2915007", "Itaeté", "75"], ["2915106", "Itagi", "73"], ["2915205", "Itagibá", "73"],
+    ["2915304", "Itagimirim", "73"], ["2915353", "Itaguaçu da Bahia", "74"], ["2915403", "Itaju do Colônia", "73"],
+    ["2915502", "Itajuípe", "73"], ["2915601", "Itamaraju", "73"], ["2915700", "Itamari", "73"],
+    ["2915809", "Itambé", "77"], ["2915908", "Itanagra", "75"], ["2916005", "Itanhém", "73"],
+    ["2916104", "Itaparica", "71"], ["2916203", "Itapé", "73"], ["2916302", "Itapebi", "73"],
+    ["2916401", "Itapetinga", "77"], ["2916500", "Itapicuru", "75"], ["2916609", "Itapitanga", "73"],
+    ["2916708", "Itaquara", "73"], ["2916807", "Itarantim", "73"], ["2916856", "Itatim", "75"],
+    ["2916906", "Itiruçu", "73"], ["2917003", "Itiúba", "74"], ["2917102", "Itororó", "73"],
+    ["2917201", "Ituaçu", "77"], ["2917300", "Ituberá", "73"], ["2917334", "Iuiú", "77"],
+    ["2917359", "Jaborandi", "77"], ["2917409", "Jacaraci", "77"], ["2917508", "Jacobina", "74"],
+    ["2917607", "Jaguaquara", "73"], ["2917706", "Jaguarari", "74"], ["2917805", "Jaguaripe", "75"],
+    ["2917904", "Jandaíra", "75"], ["2918001", "Jequié", "73"], ["2918100", "Jeremoabo", "75"],
+    ["2918209", "Jiquiriçá", "75"], ["2918308", "Jitaúna", "73"], ["2918357", "João Dourado", "74"],
+    ["2918407", "Juazeiro", "74"], ["2918456", "Jucuruçu", "73"], ["2918506", "Jussara", "74"],
+    ["2918555", "Jussari", "73"], ["2918605", "Jussiape", "77"], ["2918704", "Lafaiete Coutinho", "73"],
+    ["2918753", "Lagoa Real", "77"], ["2918803", "Laje", "75"], ["2918902", "Lajedão", "73"],
+    ["2919009", "Lajedinho", "75"], ["2919058", "Lajedo do Tabocal", "73"], ["2919108", "Lamarão", "75"],
+    ["2919157", "Lapão", "74"], ["2919207", "Lauro de Freitas", "71"], ["2919306", "Lençóis", "75"],
+    ["2919405", "Licínio de Almeida", "77"], ["2919504", "Livramento de Nossa Senhora", "77"],
+    ["2919553", "Luís Eduardo Magalhães", "77"], ["2919603", "Macajuba", "74"], ["2919702", "Macarani", "77"],
+    ["2919801", "Macaúbas", "77"], ["2919900", "Macururé", "75"], ["2919926", "Madre de Deus", "71"],
+    ["2919959", "Maetinga", "77"], ["2920007", "Maiquinique", "77"], ["2920106", "Mairi", "74"],
+    ["2920205", "Malhada", "77"], ["2920304", "Malhada de Pedras", "77"], ["2920403", "Manoel Vitorino", "73"],
+    ["2920452", "Mansidão", "77"], ["2920502", "Maracás", "73"], ["2920601", "Maragogipe", "75"],
+    ["2920700", "Maraú", "73"], ["2920809", "Marcionílio Souza", "75"], ["2920908", "Mascote", "73"],
+    ["2921005", "Mata de São João", "71"], ["2921054", "Matina", "77"], ["2921104", "Medeiros Neto", "73"],
+    ["2921203", "Miguel Calmon", "74"], ["2921302", "Milagres", "75"], ["2921401", "Mirangaba", "74"],
+    ["2921450", "Mirante", "77"], ["2921500", "Monte Santo", "75"], ["2921609", "Morpará", "77"],
+    ["2921708", "Morro do Chapéu", "74"], ["2921807", "Mortugaba", "77"], ["2921906", "Mucugê", "75"],
+    ["2922003", "Mucuri", "73"], ["2922052", "Mulungu do Morro", "74"], ["2922102", "Mundo Novo", "74"],
+    ["2922201", "Muniz Ferreira", "75"], ["2922250", "Muquém de São Francisco", "77"], ["2922300", "Muritiba", "75"],
+    ["2922409", "Mutuípe", "75"], ["2922508", "Nazaré", "75"], ["2922607", "Nilo Peçanha", "73"],
+    ["2922656", "Nordestina", "75"], ["2922706", "Nova Canaã", "73"], ["2922730", "Nova Fátima", "75"],
+    ["2922755", "Nova Ibiá", "73"], ["2922805", "Nova Itarana", "73"], ["2922854", "Nova Redenção", "75"],
+    ["2922904", "Nova Soure", "75"], ["2923001", "Nova Viçosa", "73"], ["2923035", "Novo Horizonte", "77"],
+    ["2923050", "Novo Triunfo", "75"], ["2923100", "Olindina", "75"], ["2923209", "Oliveira dos Brejinhos", "77"],
+    ["2923308", "Ouriçangas", "75"], ["2923357", "Ourolândia", "74"], ["2923407", "Palmas de Monte Alto", "77"],
+    ["2923506", "Palmeiras", "75"], ["2923605", "Paramirim", "77"], ["2923704", "Paratinga", "77"],
+    ["2923803", "Paripiranga", "75"], ["2923902", "Pau Brasil", "73"], ["2924009", "Paulo Afonso", "75"],
+    ["2924058", "Pé de Serra", "75"], ["2924108", "Pedrão", "75"], ["2924207", "Pedro Alexandre", "75"],
+    ["2924306", "Piatã", "77"], ["2924405", "Pilão Arcado", "74"], ["2924504", "Pindaí", "77"],
+    ["2924603", "Pindobaçu", "74"], ["2924652", "Pintadas", "75"], ["2924678", "Piraí do Norte", "73"],
+    ["2924702", "Piripá", "77"], ["2924801", "Piritiba", "74"], ["2924900", "Planaltino", "73"],
+    ["2925006", "Planalto", "77"], ["2925105", "Poções", "77"], ["2925204", "Pojuca", "71"],
+    ["2925253", "Ponto Novo", "74"], ["2925303", "Porto Seguro", "73"], ["2925402", "Potiraguá", "73"],
+    ["2925501", "Prado", "73"], ["2925600", "Presidente Dutra", "74"], ["2925709", "Presidente Jânio Quadros", "77"],
+    ["2925758", "Presidente Tancredo Neves", "73"], ["2925808", "Queimadas", "75"], ["2925907", "Quijingue", "75"],
+    ["2925931", "Quixabeira", "74"], ["2925956", "Rafael Jambeiro", "75"], ["2926004", "Remanso", "74"],
+    ["2926103", "Retirolândia", "75"], ["2926202", "Riachão das Neves", "77"], ["2926301", "Riachão do Jacuípe", "75"],
+    ["2926400", "Riacho de Santana", "77"], ["2926509", "Ribeira do Amparo", "75"],
+    ["2926608", "Ribeira do Pombal", "75"], ["2926657", "Ribeirão do Largo", "77"], ["2926707", "Rio de Contas", "77"],
+    ["2926806", "Rio do Antônio", "77"], ["2926905", "Rio do Pires", "77"], ["2927002", "Rio Real", "75"],
+    ["2927101", "Rodelas", "75"], ["2927200", "Ruy Barbosa", "75"], ["2927309", "Salinas da Margarida", "75"],
+    ["2927408", "Salvador", "71"], ["2927507", "Santa Bárbara", "75"], ["2927606", "Santa Brígida", "75"],
+    ["2927705", "Santa Cruz Cabrália", "73"], ["2927804", "Santa Cruz da Vitória", "73"],
+    ["2927903", "Santa Inês", "73"], ["2928000", "Santaluz", "75"], ["2928059", "Santa Luzia", "73"],
+    ["2928109", "Santa Maria da Vitória", "77"], ["2928208", "Santana", "77"], ["2928307", "Santanópolis", "75"],
+    ["2928406", "Santa Rita de Cássia", "77"], ["2928505", "Santa Teresinha", "75"], ["2928604", "Santo Amaro", "75"],
+    ["2928703", "Santo Antônio de Jesus", "75"], ["2928802", "Santo Estêvão", "75"], ["2928901", "São Desidério", "77"],
+    ["2928950", "São Domingos", "75"], ["2929008", "São Félix", "75"], ["2929057", "São Félix do Coribe", "77"],
+    ["2929107", "São Felipe", "75"], ["2929206", "São Francisco do Conde", "71"], ["2929255", "São Gabriel", "74"],
+    ["2929305", "São Gonçalo dos Campos", "75"], ["2929354", "São José da Vitória", "73"],
+    ["2929370", "São José do Jacuípe", "74"], ["2929404", "São Miguel das Matas", "75"],
+    ["2929503", "São Sebastião do Passé", "71"], ["2929602", "Sapeaçu", "75"], ["2929701", "Sátiro Dias", "75"],
+    ["2929750", "Saubara", "71"], ["2929800", "Saúde", "74"], ["2929909", "Seabra", "75"],
+    ["2930006", "Sebastião Laranjeiras", "77"], ["2930105", "Senhor do Bonfim", "74"],
+    ["2930154", "Serra do Ramalho", "77"], ["2930204", "Sento Sé", "74"], ["2930303", "Serra Dourada", "77"],
+    ["2930402", "Serra Preta", "75"], ["2930501", "Serrinha", "75"], ["2930600", "Serrolândia", "74"],
+    ["2930709", "Simões Filho", "71"], ["2930758", "Sítio do Mato", "77"], ["2930766", "Sítio do Quinto", "75"],
+    ["2930774", "Sobradinho", "74"], ["2930808", "Souto Soares", "75"], ["2930907", "Tabocas do Brejo Velho", "77"],
+    ["2931004", "Tanhaçu", "77"], ["2931053", "Tanque Novo", "77"], ["2931103", "Tanquinho", "75"],
+    ["2931202", "Taperoá", "75"], ["2931301", "Tapiramutá", "74"], ["2931350", "Teixeira de Freitas", "73"],
+    ["2931400", "Teodoro Sampaio", "75"], ["2931509", "Teofilândia", "75"], ["2931608", "Teolândia", "73"],
+    ["2931707", "Terra Nova", "75"], ["2931806", "Tremedal", "77"], ["2931905", "Tucano", "75"],
+    ["2932002", "Uauá", "74"], ["2932101", "Ubaíra", "75"], ["2932200", "Ubaitaba", "73"], ["2932309", "Ubatã", "73"],
+    ["2932408", "Uibaí", "74"], ["2932457", "Umburanas", "74"], ["2932507", "Una", "73"], ["2932606", "Urandi", "77"],
+    ["2932705", "Uruçuca", "73"], ["2932804", "Utinga", "75"], ["2932903", "Valença", "75"],
+    ["2933000", "Valente", "75"], ["2933059", "Várzea da Roça", "74"], ["2933109", "Várzea do Poço", "74"],
+    ["2933158", "Várzea Nova", "74"], ["2933174", "Varzedo", "75"], ["2933208", "Vera Cruz", "71"],
+    ["2933257", "Vereda", "73"], ["2933307", "Vitória da Conquista", "77"], ["2933406", "Wagner", "75"],
+    ["2933455", "Wanderley", "77"], ["2933505", "Wenceslau Guimarães", "73"], ["2933604", "Xique-Xique", "74"],
+  ],
+  MG: [
+    ["3100104", "Abadia dos Dourados", "34"], ["3100203", "Abaeté", "37"], ["3100302", "Abre Campo", "31"],
+    ["3100401", "Acaiaca", "31"], ["3100500", "Açucena", "33"], ["3100609", "Água Boa", "33"],
+    ["3100708", "Água Comprida", "34"], ["3100807", "Aguanil", "35"], ["3100906", "Águas Formosas", "33"],
+    ["3101003", "Águas Vermelhas", "33"], ["3101102", "Aimorés", "33"], ["3101201", "Aiuruoca", "35"],
+    ["3101300", "Alagoa", "35"], ["3101409", "Albertina", "35"], ["3101508", "Além Paraíba", "32"],
+    ["3101607", "Alfenas", "35"], ["3101631", "Alfredo Vasconcelos", "32"], ["3101706", "Almenara", "33"],
+    ["3101805", "Alpercata", "33"], ["3101904", "Alpinópolis", "35"], ["3102001", "Alterosa", "35"],
+    ["3102050", "Alto Caparaó", "32"], ["3102100", "Alto Rio Doce", "32"], ["3102209", "Alvarenga", "33"],
+    ["3102308", "Alvinópolis", "31"], ["3102407", "Alvorada de Minas", "31"], ["3102506", "Amparo do Serra", "31"],
+    ["3102605", "Andradas", "35"], ["3102704", "Cachoeira de Pajeú", "33"], ["3102803", "Andrelândia", "35"],
+    ["3102852", "Angelândia", "33"], ["3102902", "Antônio Carlos", "32"], ["3103009", "Antônio Dias", "31"],
+    ["3103108", "Antônio Prado de Minas", "32"], ["3103207", "Araçaí", "31"], ["3103306", "Aracitaba", "32"],
+    ["3103405", "Araçuaí", "33"], ["3103504", "Araguari", "34"], ["3103603", "Arantina", "32"],
+    ["3103702", "Araponga", "31"], ["3103751", "Araporã", "34"], ["3103801", "Arapuá", "34"],
+    ["3103900", "Araújos", "37"], ["3104007", "Araxá", "34"], ["3104106", "Arceburgo", "35"],
+    ["3104205", "Arcos", "37"], ["3104304", "Areado", "35"], ["3104403", "Argirita", "32"],
+    ["3104452", "Aricanduva", "33"], ["3104502", "Arinos", "38"], ["3104601", "Astolfo Dutra", "32"],
+    ["3104700", "Ataléia", "33"], ["3104809", "Augusto de Lima", "38"], ["3104908", "Baependi", "35"],
+    ["3105004", "Baldim", "31"], ["3105103", "Bambuí", "37"], ["3105202", "Bandeira", "33"],
+    ["3105301", "Bandeira do Sul", "35"], ["3105400", "Barão de Cocais", "31"],
+    ["3105509", "Barão de Monte Alto", "32"], ["3105608", "Barbacena", "32"], ["3105707", "Barra Longa", "31"],
+    ["3105905", "Barroso", "32"], ["3106002", "Bela Vista de Minas", "31"], ["3106101", "Belmiro Braga", "32"],
+    ["3106200", "Belo Horizonte", "31"], ["3106309", "Belo Oriente", "31"], ["3106408", "Belo Vale", "31"],
+    ["3106507", "Berilo", "33"], ["3106606", "Bertópolis", "33"], ["3106655", "Berizal", "38"],
+    ["3106705", "Betim", "31"], ["3106804", "Bias Fortes", "32"], ["3106903", "Bicas", "32"],
+    ["3107000", "Biquinhas", "37"], ["3107109", "Boa Esperança", "35"], ["3107208", "Bocaina de Minas", "32"],
+    ["3107307", "Bocaiúva", "38"], ["3107406", "Bom Despacho", "37"], ["3107505", "Bom Jardim de Minas", "32"],
+    ["3107604", "Bom Jesus da Penha", "35"], ["3107703", "Bom Jesus do Amparo", "31"],
+    ["3107802", "Bom Jesus do Galho", "33"], ["3107901", "Bom Repouso", "35"], ["3108008", "Bom Sucesso", "35"],
+    ["3108107", "Bonfim", "31"], ["3108206", "Bonfinópolis de Minas", "38"], ["3108255", "Bonito de Minas", "38"],
+    ["3108305", "Borda da Mata", "35"], ["3108404", "Botelhos", "35"], ["3108503", "Botumirim", "38"],
+    ["3108552", "Brasilândia de Minas", "38"], ["3108602", "Brasília de Minas", "38"], ["3108701", "Brás Pires", "32"],
+    ["3108800", "Braúnas", "35"], ["3108909", "Brazópolis", "33"], ["3109006", "Brumadinho", "31"],
+    ["3109105", "Bueno Brandão", "35"], ["3109204", "Buenópolis", "38"], ["3109253", "Bugre", "33"],
+    ["3109303", "Buritis", "38"], ["3109402", "Buritizeiro", "38"], ["3109451", "Cabeceira Grande", "38"],
+    ["3109501", "Cabo Verde", "35"], ["3109600", "Cachoeira da Prata", "31"], ["3109709", "Cachoeira de Minas", "35"],
+    ["3109808", "Cachoeira Dourada", "34"], ["3109907", "Caetanópolis", "31"], ["3110004", "Caeté", "31"],
+    ["3110103", "Caiana", "32"], ["3110202", "Cajuri", "31"], ["3110301", "Caldas", "35"], ["3110400", "Camacho", "37"],
+    ["3110509", "Camanducaia", "35"], ["3110608", "Cambuí", "35"], ["3110707", "Cambuquira", "35"],
+    ["3110806", "Campanário", "33"], ["3110905", "Campanha", "35"], ["3111002", "Campestre", "35"],
+    ["3111101", "Campina Verde", "34"], ["3111150", "Campo Azul", "38"], ["3111200", "Campo Belo", "35"],
+    ["3111309", "Campo do Meio", "35"], ["3111408", "Campo Florido", "34"], ["3111507", "Campos Altos", "37"],
+    ["3111606", "Campos Gerais", "35"], ["3111705", "Canaã", "31"], ["3111804", "Canápolis", "34"],
+    ["3111903", "Cana Verde", "35"], ["3112000", "Candeias", "35"], ["3112059", "Cantagalo", "33"],
+    ["3112109", "Caparaó", "32"], ["3112208", "Capela Nova", "31"], ["3112307", "Capelinha", "33"],
+    ["3112406", "Capetinga", "35"], ["3112505", "Capim Branco", "31"], ["3112604", "Capinópolis", "34"],
+    ["3112653", "Capitão Andrade", "33"], ["3112703", "Capitão Enéas", "38"], ["3112802", "Capitólio", "37"],
+    ["3112901", "Caputira", "31"], ["3113008", "Caraí", "33"], ["3113107", "Caranaíba", "31"],
+    ["3113206", "Carandaí", "32"], ["3113305", "Carangola", "32"], ["3113404", "Caratinga", "33"],
+    ["3113503", "Carbonita", "38"], ["3113602", "Careaçu", "35"], ["3113701", "Carlos Chagas", "33"],
+    ["3113800", "Carmésia", "31"], ["3113909", "Carmo da Cachoeira", "35"], ["3114006", "Carmo da Mata", "37"],
+    ["3114105", "Carmo de Minas", "35"], ["3114204", "Carmo do Cajuru", "37"], ["3114303", "Carmo do Paranaíba", "34"],
+    ["3114402", "Carmo do Rio Claro", "35"], ["3114501", "Carmópolis de Minas", "37"], ["3114550", "Carneirinho", "34"],
+    ["3114600", "Carrancas", "35"], ["3114709", "Carvalhópolis", "35"], ["3114808", "Carvalhos", "35"],
+    ["3114907", "Casa Grande", "31"], ["3115003", "Cascalho Rico", "34"], ["3115102", "Cássia", "35"],
+    ["3115201", "Conceição da Barra de Minas", "32"], ["3115300", "Cataguases", "32"], ["3115359", "Catas Altas", "31"],
+    ["3115409", "Catas Altas da Noruega", "31"], ["3115458", "Catuji", "33"], ["3115474", "Catuti", "38"],
+    ["3115508", "Caxambu", "35"], ["3115607", "Cedro do Abaeté", "37"], ["3115706", "Central de Minas", "33"],
+    ["3115805", "Centralina", "34"], ["3115904", "Chácara", "32"], ["3116001", "Chalé", "33"],
+    ["3116100", "Chapada do Norte", "33"], ["3116159", "Chapada Gaúcha", "38"], ["3116209", "Chiador", "32"],
+    ["3116308", "Cipotânea", "32"], ["3116407", "Claraval", "34"], ["3116506", "Claro dos Poções", "38"],
+    ["3116605", "Cláudio", "37"], ["3116704", "Coimbra", "32"], ["3116803", "Coluna", "33"],
+    ["3116902", "Comendador Gomes", "34"], ["3117009", "Comercinho", "33"], ["3117108", "Conceição da Aparecida", "35"],
+    ["3117207", "Conceição das Pedras", "35"], ["3117306", "Conceição das Alagoas", "34"],
+    ["3117405", "Conceição de Ipanema", "33"], ["3117504", "Conceição do Mato Dentro", "31"],
+    ["3117603", "Conceição do Pará", "37"], ["3117702", "Conceição do Rio Verde", "35"],
+    ["3117801", "Conceição dos Ouros", "35"], ["3117836", "Cônego Marinho", "38"], ["3117876", "Confins", "31"],
+    ["3117900", "Congonhal", "35"], ["3118007", "Congonhas", "31"], ["3118106", "Congonhas do Norte", "31"],
+    ["3118205", "Conquista", "34"], ["3118304", "Conselheiro Lafaiete", "31"], ["3118403", "Conselheiro Pena", "33"],
+    ["3118502", "Consolação", "35"], ["3118601", "Contagem", "31"], ["3118700", "Coqueiral", "35"],
+    ["3118809", "Coração de Jesus", "38"], ["3118908", "Cordisburgo", "31"], ["3119005", "Cordislândia", "35"],
+    ["3119104", "Corinto", "38"], ["3119203", "Coroaci", "33"], ["3119302", "Coromandel", "34"],
+    ["3119401", "Coronel Fabriciano", "31"], ["3119500", "Coronel Murta", "33"], ["3119609", "Coronel Pacheco", "32"],
+    ["3119708", "Coronel Xavier Chaves", "32"], ["3119807", "Córrego Danta", "37"],
+    ["3119906", "Córrego do Bom Jesus", "35"], ["3119955", "Córrego Fundo", "37"], ["3120003", "Córrego Novo", "33"],
+    ["3120102", "Couto de Magalhães de Minas", "38"], ["3120151", "Crisólita", "33"], ["3120201", "Cristais", "35"],
+    ["3120300", "Cristália", "38"], ["3120409", "Cristiano Otoni", "31"], ["3120508", "Cristina", "35"],
+    ["3120607", "Crucilândia", "31"], ["3120706", "Cruzeiro da Fortaleza", "34"], ["3120805", "Cruzília", "35"],
+    ["3120839", "Cuparaque", "33"], ["3120870", "Curral de Dentro", "33"], ["3120904", "Curvelo", "38"],
+    ["3121001", "Datas", "38"], ["3121100", "Delfim Moreira", "35"], ["3121209", "Delfinópolis", "35"],
+    ["3121258", "Delta", "34"], ["3121308", "Descoberto", "32"], ["3121407", "Desterro de Entre Rios", "31"],
+    ["3121506", "Desterro do Melo", "32"], ["3121605", "Diamantina", "38"], ["3121704", "Diogo de Vasconcelos", "31"],
+    ["3121803", "Dionísio", "31"], ["3121902", "Divinésia", "32"], ["3122009", "Divino", "32"],
+    ["3122108", "Divino das Laranjeiras", "33"], ["3122207", "Divinolândia de Minas", "33"],
+    ["3122306", "Divinópolis", "37"], ["3122355", "Divisa Alegre", "33"], ["3122405", "Divisa Nova", "35"],
+    ["3122454", "Divisópolis", "33"], ["3122470", "Dom Bosco", "38"], ["3122504", "Dom Cavati", "33"],
+    ["3122603", "Dom Joaquim", "31"], ["3122702", "Dom Silvério", "31"], ["3122801", "Dom Viçoso", "35"],
+    ["3122900", "Dona Eusébia", "32"], ["3123007", "Dores de Campos", "32"], ["3123106", "Dores de Guanhães", "33"],
+    ["3123205", "Dores do Indaiá", "37"], ["3123304", "Dores do Turvo", "32"], ["3123403", "Doresópolis", "37"],
+    ["3123502", "Douradoquara", "34"], ["3123528", "Durandé", "33"], ["3123601", "Elói Mendes", "35"],
+    ["3123700", "Engenheiro Caldas", "33"], ["3123809", "Engenheiro Navarro", "38"], ["3123858", "Entre Folhas", "33"],
+    ["3123908", "Entre Rios de Minas", "31"], ["3124005", "Ervália", "32"], ["3124104", "Esmeraldas", "31"],
+    ["3124203", "Espera Feliz", "32"], ["3124302", "Espinosa", "38"], ["3124401", "Espírito Santo do Dourado", "35"],
+    ["3124500", "Estiva", "35"], ["3124609", "Estrela Dalva", "32"], ["3124708", "Estrela do Indaiá", "37"],
+    ["3124807", "Estrela do Sul", "34"], ["3124906", "Eugenópolis", "32"], ["3125002", "Ewbank da Câmara", "32"],
+    ["3125101", "Extrema", "35"], ["3125200", "Fama", "35"], ["3125309", "Faria Lemos", "32"],
+    ["3125408", "Felício dos Santos", "38"], ["3125507", "São Gonçalo do Rio Preto", "38"],
+    ["3125606", "Felisburgo", "33"], ["3125705", "Felixlândia", "38"], ["3125804", "Fernandes Tourinho", "33"],
+    ["3125903", "Ferros", "31"], ["3125952", "Fervedouro", "32"], ["3126000", "Florestal", "31"],
+    ["3126109", "Formiga", "37"], ["3126208", "Formoso", "38"], ["3126307", "Fortaleza de Minas", "35"],
+    ["3126406", "Fortuna de Minas", "31"], ["3126505", "Francisco Badaró", "33"], ["3126604", "Francisco Dumont", "38"],
+    ["3126703", "Francisco Sá", "38"], ["3126752", "Franciscópolis", "33"], ["3126802", "Frei Gaspar", "33"],
+    ["3126901", "Frei Inocêncio", "33"], ["3126950", "Frei Lagonegro", "33"], ["3127008", "Fronteira", "34"],
+    ["3127057", "Fronteira dos Vales", "33"], ["3127073", "Fruta de Leite", "38"], ["3127107", "Frutal", "34"],
+    ["3127206", "Funilândia", "31"], ["3127305", "Galiléia", "33"], ["3127339", "Gameleiras", "38"],
+    ["3127354", "Glaucilândia", "38"], ["3127370", "Goiabeira", "33"], ["3127388", "Goianá", "32"],
+    ["3127404", "Gonçalves", "35"], ["3127503", "Gonzaga", "33"], ["3127602", "Gouveia", "38"],
+    ["3127701", "Governador Valadares", "33"], ["3127800", "Grão Mogol", "38"], ["3127909", "Grupiara", "34"],
+    ["3128006", "Guanhães", "33"], ["3128105", "Guapé", "35"], ["3128204", "Guaraciaba", "31"],
+    ["3128253", "Guaraciama", "38"], ["3128303", "Guaranésia", "35"], ["3128402", "Guarani", "32"],
+    ["3128501", "Guarará", "32"], ["3128600", "Guarda-Mor", "38"], ["3128709", "Guaxupé", "35"],
+    ["3128808", "Guidoval", "32"], ["3128907", "Guimarânia", "34"], ["3129004", "Guiricema", "32"],
+    ["3129103", "Gurinhatã", "34"], ["3129202", "Heliodora", "35"], ["3129301", "Iapu", "33"],
+    ["3129400", "Ibertioga", "32"], ["3129509", "Ibiá", "34"], ["3129608", "Ibiaí", "38"],
+    ["3129657", "Ibiracatu", "38"], ["3129707", "Ibiraci", "35"], ["3129806", "Ibirité", "31"],
+    ["3129905", "Ibitiúra de Minas", "35"], ["3130002", "Ibituruna", "35"], ["3130051", "Icaraí de Minas", "38"],
+    ["3130101", "Igarapé", "31"], ["3130200", "Igaratinga", "37"], ["3130309", "Iguatama", "37"],
+    ["3130408", "Ijaci", "35"], ["3130507", "Ilicínea", "35"], ["3130556", "Imbé de Minas", "33"],
+    ["3130606", "Inconfidentes", "35"], ["3130655", "Indaiabira", "38"], ["3130705", "Indianópolis", "34"],
+    ["3130804", "Ingaí", "35"], ["3130903", "Inhapim", "33"], ["3131000", "Inhaúma", "31"],
+    ["3131109", "Inimutaba", "38"], ["3131158", "Ipaba", "31"], ["3131208", "Ipanema", "33"],
+    ["3131307", "Ipatinga", "31"], ["3131406", "Ipiaçu", "34"], ["3131505", "Ipuiúna", "35"],
+    ["3131604", "Iraí de Minas", "34"], ["3131703", "Itabira", "31"], ["3131802", "Itabirinha", "33"],
+    ["3131901", "Itabirito", "31"], ["3132008", "Itacambira", "38"], ["3132107", "Itacarambi", "38"],
+    ["3132206", "Itaguara", "31"], ["3132305", "Itaipé", "33"], ["3132404", "Itajubá", "35"],
+    ["3132503", "Itamarandiba", "38"], ["3132602", "Itamarati de Minas", "32"], ["3132701", "Itambacuri", "33"],
+    ["3132800", "Itambé do Mato Dentro", "31"], ["3132909", "Itamogi", "35"], ["3133006", "Itamonte", "35"],
+    ["3133105", "Itanhandu", "35"], ["3133204", "Itanhomi", "33"], ["3133303", "Itaobim", "33"],
+    ["3133402", "Itapagipe", "34"], ["3133501", "Itapecerica", "37"], ["3133600", "Itapeva", "35"],
+    ["3133709", "Itatiaiuçu", "31"], ["3133758", "Itaú de Minas", "35"], ["3133808", "Itaúna", "37"],
+    ["3133907", "Itaverava", "31"], ["3134004", "Itinga", "33"], ["3134103", "Itueta", "33"],
+    ["3134202", "Ituiutaba", "34"], ["3134301", "Itumirim", "35"], ["3134400", "Iturama", "34"],
+    ["3134509", "Itutinga", "35"], ["3134608", "Jaboticatubas", "31"], ["3134707", "Jacinto", "33"],
+    ["3134806", "Jacuí", "35"], ["3134905", "Jacutinga", "35"], ["3135001", "Jaguaraçu", "31"],
+    ["3135050", "Jaíba", "38"], ["3135076", "Jampruca", "33"], ["3135100", "Janaúba", "38"],
+    ["3135209", "Januária", "38"], ["3135308", "Japaraíba", "37"], ["3135357", "Japonvar", "38"],
+    ["3135407", "Jeceaba", "31"], ["3135456", "Jenipapo de Minas", "33"], ["3135506", "Jequeri", "31"],
+    ["3135605", "Jequitaí", "38"], ["3135704", "Jequitibá", "31"], ["3135803", "Jequitinhonha", "33"],
+    ["3135902", "Jesuânia", "35"], ["3136009", "Joaíma", "33"], ["3136108", "Joanésia", "33"],
+    ["3136207", "João Monlevade", "31"], ["3136306", "João Pinheiro", "38"], ["3136405", "Joaquim Felício", "38"],
+    ["3136504", "Jordânia", "33"], ["3136520", "José Gonçalves de Minas", "33"], ["3136553", "José Raydan", "33"],
+    ["3136579", "Josenópolis", "38"], ["3136603", "Nova União", "31"], ["3136652", "Juatuba", "31"],
+    ["3136702", "Juiz de Fora", "32"], ["3136801", "Juramento", "38"], ["3136900", "Juruaia", "35"],
+    ["3136959", "Juvenília", "38"], ["3137007", "Ladainha", "33"], ["3137106", "Lagamar", "34"],
+    ["3137205", "Lagoa da Prata", "37"], ["3137304", "Lagoa dos Patos", "38"], ["3137403", "Lagoa Dourada", "32"],
+    ["3137502", "Lagoa Formosa", "34"], ["3137536", "Lagoa Grande", "34"], ["3137601", "Lagoa Santa", "31"],
+    ["3137700", "Lajinha", "33"], ["3137809", "Lambari", "35"], ["3137908", "Lamim", "31"],
+    ["3138005", "Laranjal", "32"], ["3138104", "Lassance", "38"], ["3138203", "Lavras", "35"],
+    ["3138302", "Leandro Ferreira", "37"], ["3138351", "Leme do Prado", "33"], ["3138401", "Leopoldina", "32"],
+    ["3138500", "Liberdade", "32"], ["3138609", "Lima Duarte", "32"], ["3138625", "Limeira do Oeste", "34"],
+    ["3138658", "Lontra", "38"], ["3138674", "Luisburgo", "33"], ["3138682", "Luislândia", "38"],
+    ["3138708", "Luminárias", "35"], ["3138807", "Luz", "37"], ["3138906", "Machacalis", "33"],
+    ["3139003", "Machado", "35"], ["3139102", "Madre de Deus de Minas", "32"], ["3139201", "Malacacheta", "33"],
+    ["3139250", "Mamonas", "38"], ["3139300", "Manga", "38"], ["3139409", "Manhuaçu", "33"],
+    ["3139508", "Manhumirim", "33"], ["3139607", "Mantena", "33"], ["3139706", "Maravilhas", "37"],
+    ["3139805", "Mar de Espanha", "32"], ["3139904", "Maria da Fé", "35"], ["3140001", "Mariana", "31"],
+    ["3140100", "Marilac", "33"], ["3140159", "Mário Campos", "31"], ["3140209", "Maripá de Minas", "32"],
+    ["3140308", "Marliéria", "31"], ["3140407", "Marmelópolis", "35"], ["3140506", "Martinho Campos", "37"],
+    ["3140530", "Martins Soares", "33"], ["3140555", "Mata Verde", "33"], ["3140605", "Materlândia", "33"],
+    ["3140704", "Mateus Leme", "31"], ["3140803", "Matias Barbosa", "32"], ["3140852", "Matias Cardoso", "38"],
+    ["3140902", "Matipó", "31"], ["3141009", "Mato Verde", "38"], ["3141108", "Matozinhos", "31"],
+    ["3141207", "Matutina", "34"], ["3141306", "Medeiros", "37"], ["3141405", "Medina", "33"],
+    ["3141504", "Mendes Pimentel", "33"], ["3141603", "Mercês", "32"], ["3141702", "Mesquita", "33"],
+    ["3141801", "Minas Novas", "33"], ["3141900", "Minduri", "35"], ["3142007", "Mirabela", "38"],
+    ["3142106", "Miradouro", "32"], ["3142205", "Miraí", "32"], ["3142254", "Miravânia", "38"],
+    ["3142304", "Moeda", "31"], ["3142403", "Moema", "37"], ["3142502", "Monjolos", "38"],
+    ["3142601", "Monsenhor Paulo", "35"], ["3142700", "Montalvânia", "38"], ["3142809", "Monte Alegre de Minas", "34"],
+    ["3142908", "Monte Azul", "38"], ["3143005", "Monte Belo", "35"], ["3143104", "Monte Carmelo", "34"],
+    ["3143153", "Monte Formoso", "33"], ["3143203", "Monte Santo de Minas", "35"], ["3143302", "Montes Claros", "38"],
+    ["3143401", "Monte Sião", "35"], ["3143450", "Montezuma", "38"], ["3143500", "Morada Nova de Minas", "37"],
+    ["3143609", "Morro da Garça", "38"], ["3143708", "Morro do Pilar", "31"], ["3143807", "Munhoz", "35"],
+    ["3143906", "Muriaé", "32"], ["3144003", "Mutum", "33"], ["3144102", "Muzambinho", "35"],
+    ["3144201", "Nacip Raydan", "33"], ["3144300", "Nanuque", "33"], ["3144359", "Naque", "33"],
+    ["3144375", "Natalândia", "38"], ["3144409", "Natércia", "35"], ["3144508", "Nazareno", "35"],
+    ["3144607", "Nepomuceno", "35"], ["3144656", "Ninheira", "38"], ["3144672", "Nova Belém", "33"],
+    ["3144706", "Nova Era", "31"], ["3144805", "Nova Lima", "31"], ["3144904", "Nova Módica", "33"],
+    ["3145000", "Nova Ponte", "34"], ["3145059", "Nova Porteirinha", "38"], ["3145109", "Nova Resende", "35"],
+    ["3145208", "Nova Serrana", "37"], ["3145307", "Novo Cruzeiro", "33"], ["3145356", "Novo Oriente de Minas", "33"],
+    ["3145372", "Novorizonte", "38"], ["3145406", "Olaria", "32"], ["3145455", "Olhos d'Água", "38"],
+    ["3145505", "Olímpio Noronha", "35"], ["3145604", "Oliveira", "37"], ["3145703", "Oliveira Fortes", "32"],
+    ["3145802", "Onça de Pitangui", "37"], ["3145851", "Oratórios", "31"], ["3145877", "Orizânia", "32"],
+    ["3145901", "Ouro Branco", "31"], ["3146008", "Ouro Fino", "35"], ["3146107", "Ouro Preto", "31"],
+    ["3146206", "Ouro Verde de Minas", "33"], ["3146255", "Padre Carvalho", "38"], ["3146305", "Padre Paraíso", "33"],
+    ["3146404", "Paineiras", "37"], ["3146503", "Pains", "37"], ["3146552", "Pai Pedro", "38"],
+    ["3146602", "Paiva", "32"], ["3146701", "Palma", "32"], ["3146750", "Palmópolis", "33"],
+    ["3146909", "Papagaios", "37"], ["3147006", "Paracatu", "38"], ["3147105", "Pará de Minas", "37"],
+    ["3147204", "Paraguaçu", "35"], ["3147303", "Paraisópolis", "35"], ["3147402", "Paraopeba", "31"],
+    ["3147501", "Passabém", "31"], ["3147600", "Passa Quatro", "35"], ["3147709", "Passa Tempo", "37"],
+    ["3147808", "Passa-Vinte", "32"], ["3147907", "Passos", "35"], ["3147956", "Patis", "38"],
+    ["3148004", "Patos de Minas", "34"], ["3148103", "Patrocínio", "34"], ["3148202", "Patrocínio do Muriaé", "32"],
+    ["3148301", "Paula Cândido", "32"], ["3148400", "Paulistas", "33"], ["3148509", "Pavão", "33"],
+    ["3148608", "Peçanha", "33"], ["3148707", "Pedra Azul", "33"], ["3148756", "Pedra Bonita", "31"],
+    ["3148806", "Pedra do Anta", "31"], ["3148905", "Pedra do Indaiá", "37"], ["3149002", "Pedra Dourada", "32"],
+    ["3149101", "Pedralva", "35"], ["3149150", "Pedras de Maria da Cruz", "38"], ["3149200", "Pedrinópolis", "34"],
+    ["3149309", "Pedro Leopoldo", "31"], ["3149408", "Pedro Teixeira", "32"], ["3149507", "Pequeri", "32"],
+    ["3149606", "Pequi", "37"], ["3149705", "Perdigão", "37"], ["3149804", "Perdizes", "34"],
+    ["3149903", "Perdões", "35"], ["3149952", "Periquito", "33"], ["3150000", "Pescador", "33"],
+    ["3150109", "Piau", "32"], ["3150158", "Piedade de Caratinga", "33"], ["3150208", "Piedade de Ponte Nova", "31"],
+    ["3150307", "Piedade do Rio Grande", "32"], ["3150406", "Piedade dos Gerais", "31"], ["3150505", "Pimenta", "37"],
+    ["3150539", "Pingo-d'Água", "33"], ["3150570", "Pintópolis", "38"], ["3150604", "Piracema", "37"],
+    ["3150703", "Pirajuba", "34"], ["3150802", "Piranga", "31"], ["3150901", "Piranguçu", "35"],
+    ["3151008", "Piranguinho", "35"], ["3151107", "Pirapetinga", "32"], ["3151206", "Pirapora", "38"],
+    ["3151305", "Piraúba", "32"], ["3151404", "Pitangui", "37"], ["3151503", "Piumhi", "37"],
+    ["3151602", "Planura", "34"], ["3151701", "Poço Fundo", "35"], ["3151800", "Poços de Caldas", "35"],
+    ["3151909", "Pocrane", "33"], ["3152006", "Pompéu", "37"], ["3152105", "Ponte Nova", "31"],
+    ["3152131", "Ponto Chique", "38"], ["3152170", "Ponto dos Volantes", "33"], ["3152204", "Porteirinha", "38"],
+    ["3152303", "Porto Firme", "31"], ["3152402", "Poté", "33"], ["3152501", "Pouso Alegre", "35"],
+    ["3152600", "Pouso Alto", "35"], ["3152709", "Prados", "32"], ["3152808", "Prata", "34"],
+    ["3152907", "Pratápolis", "35"], ["3153004", "Pratinha", "34"], ["3153103", "Presidente Bernardes", "32"],
+    ["3153202", "Presidente Juscelino", "38"], ["3153301", "Presidente Kubitschek", "38"],
+    ["3153400", "Presidente Olegário", "34"], ["3153509", "Alto Jequitibá", "33"],
+    ["3153608", "Prudente de Morais", "31"], ["3153707", "Quartel Geral", "37"], ["3153806", "Queluzito", "31"],
+    ["3153905", "Raposos", "31"], ["3154002", "Raul Soares", "33"], ["3154101", "Recreio", "32"],
+    ["3154150", "Reduto", "33"], ["3154200", "Resende Costa", "32"], ["3154309", "Resplendor", "33"],
+    ["3154408", "Ressaquinha", "32"], ["3154457", "Riachinho", "38"], ["3154507", "Riacho dos Machados", "38"],
+    ["3154606", "Ribeirão das Neves", "31"], ["3154705", "Ribeirão Vermelho", "35"], ["3154804", "Rio Acima", "31"],
+    ["3154903", "Rio Casca", "31"], ["3155009", "Rio Doce", "31"], ["3155108", "Rio do Prado", "33"],
+    ["3155207", "Rio Espera", "31"], ["3155306", "Rio Manso", "31"], ["3155405", "Rio Novo", "32"],
+    ["3155504", "Rio Paranaíba", "34"], ["3155603", "Rio Pardo de Minas", "38"], ["3155702", "Rio Piracicaba", "31"],
+    ["3155801", "Rio Pomba", "32"], ["3155900", "Rio Preto", "32"], ["3156007", "Rio Vermelho", "33"],
+    ["3156106", "Ritápolis", "32"], ["3156205", "Rochedo de Minas", "32"], ["3156304", "Rodeiro", "32"],
+    ["3156403", "Romaria", "34"], ["3156452", "Rosário da Limeira", "32"], ["3156502", "Rubelita", "38"],
+    ["3156601", "Rubim", "33"], ["3156700", "Sabará", "31"], ["3156809", "Sabinópolis", "33"],
+    ["3156908", "Sacramento", "34"], ["3157005", "Salinas", "38"], ["3157104", "Salto da Divisa", "33"],
+    ["3157203", "Santa Bárbara", "31"], ["3157252", "Santa Bárbara do Leste", "33"],
+    ["3157278", "Santa Bárbara do Monte Verde", "32"], ["3157302", "Santa Bárbara do Tugúrio", "32"],
+    ["3157336", "Santa Cruz de Minas", "32"], ["3157377", "Santa Cruz de Salinas", "38"],
+    ["3157401", "Santa Cruz do Escalvado", "31"], ["3157500", "Santa Efigênia de Minas", "33"],
+    ["3157609", "Santa Fé de Minas", "38"], ["3157658", "Santa Helena de Minas", "33"],
+    ["3157708", "Santa Juliana", "34"], ["3157807", "Santa Luzia", "31"], ["3157906", "Santa Margarida", "31"],
+    ["3158003", "Santa Maria de Itabira", "31"], ["3158102", "Santa Maria do Salto", "33"],
+    ["3158201", "Santa Maria do Suaçuí", "33"], ["3158300", "Santana da Vargem", "35"],
+    ["3158409", "Santana de Cataguases", "32"], ["3158508", "Santana de Pirapama", "31"],
+    ["3158607", "Santana do Deserto", "32"], ["3158706", "Santana do Garambéu", "32"],
+    ["3158805", "Santana do Jacaré", "35"], ["3158904", "Santana do Manhuaçu", "33"],
+    ["3158953", "Santana do Paraíso", "31"], ["3159001", "Santana do Riacho", "31"],
+    ["3159100", "Santana dos Montes", "31"], ["3159209", "Santa Rita de Caldas", "35"],
+    ["3159308", "Santa Rita de Jacutinga", "32"], ["3159357", "Santa Rita de Minas", "33"],
+    ["3159407", "Santa Rita de Ibitipoca", "32"], ["3159506", "Santa Rita do Itueto", "33"],
+    ["3159605", "Santa Rita do Sapucaí", "35"], ["3159704", "Santa Rosa da Serra", "34"],
+    ["3159803", "Santa Vitória", "34"], ["3159902", "Santo Antônio do Amparo", "35"],
+    ["3160009", "Santo Antônio do Aventureiro", "32"], ["3160108", "Santo Antônio do Grama", "31"],
+    ["3160207", "Santo Antônio do Itambé", "33"], ["3160306", "Santo Antônio do Jacinto", "33"],
+    ["3160405", "Santo Antônio do Monte", "37"], ["3160454", "Santo Antônio do Retiro", "38"],
+    ["3160504", "Santo Antônio do Rio Abaixo", "31"], ["3160603", "Santo Hipólito", "38"],
+    ["3160702", "Santos Dumont", "32"], ["3160801", "São Bento Abade", "35"], ["3160900", "São Brás do Suaçuí", "31"],
+    ["3160959", "São Domingos das Dores", "33"], ["3161007", "São Domingos do Prata", "31"],
+    ["3161056", "São Félix de Minas", "33"], ["3161106", "São Francisco", "38"],
+    ["3161205", "São Francisco de Paula", "37"], ["3161304", "São Francisco de Sales", "34"],
+    ["3161403", "São Francisco do Glória", "32"], ["3161502", "São Geraldo", "32"],
+    ["3161601", "São Geraldo da Piedade", "33"], ["3161650", "São Geraldo do Baixio", "33"],
+    ["3161700", "São Gonçalo do Abaeté", "38"], ["3161809", "São Gonçalo do Pará", "37"],
+    ["3161908", "São Gonçalo do Rio Abaixo", "31"], ["3162005", "São Gonçalo do Sapucaí", "35"],
+    ["3162104", "São Gotardo", "34"], ["3162203", "São João Batista do Glória", "35"],
+    ["3162252", "São João da Lagoa", "38"], ["3162302", "São João da Mata", "35"],
+    ["3162401", "São João da Ponte", "38"], ["3162450", "São João das Missões", "38"],
+    ["3162500", "São João del Rei", "32"], ["3162559", "São João do Manhuaçu", "33"],
+    ["3162575", "São João do Manteninha", "33"], ["3162609", "São João do Oriente", "33"],
+    ["3162658", "São João do Pacuí", "38"], ["3162708", "São João do Paraíso", "38"],
+    ["3162807", "São João Evangelista", "33"], ["3162906", "São João Nepomuceno", "32"],
+    ["3162922", "São Joaquim de Bicas", "31"], ["3162948", "São José da Barra", "35"],
+    ["3162955", "São José da Lapa", "31"], ["3163003", "São José da Safira", "33"],
+    ["3163102", "São José da Varginha", "37"], ["3163201", "São José do Alegre", "35"],
+    ["3163300", "São José do Divino", "33"], ["3163409", "São José do Goiabal", "31"],
+    ["3163508", "São José do Jacuri", "33"], ["3163607", "São José do Mantimento", "33"],
+    ["3163706", "São Lourenço", "35"], ["3163805", "São Miguel do Anta", "31"], ["3163904", "São Pedro da União", "35"],
+    ["3164001", "São Pedro dos Ferros", "33"], ["3164100", "São Pedro do Suaçuí", "33"], ["3164209", "São Romão", "38"],
+    ["3164308", "São Roque de Minas", "37"], ["3164407", "São Sebastião da Bela Vista", "35"],
+    ["3164431", "São Sebastião da Vargem Alegre", "32"], ["3164472", "São Sebastião do Anta", "33"],
+    ["3164506", "São Sebastião do Maranhão", "33"], ["3164605", "São Sebastião do Oeste", "37"],
+    ["3164704", "São Sebastião do Paraíso", "35"], ["3164803", "São Sebastião do Rio Preto", "31"],
+    ["3164902", "São Sebastião do Rio Verde", "35"], ["3165008", "São Tiago", "32"],
+    ["3165107", "São Tomás de Aquino", "35"], ["3165206", "São Thomé das Letras", "35"],
+    ["3165305", "São Vicente de Minas", "35"], ["3165404", "Sapucaí-Mirim", "35"], ["3165503", "Sardoá", "33"],
+    ["3165537", "Sarzedo", "31"], ["3165552", "Setubinha", "33"], ["3165560", "Sem-Peixe", "31"],
+    ["3165578", "Senador Amaral", "35"], ["3165602", "Senador Cortes", "32"], ["3165701", "Senador Firmino", "32"],
+    ["3165800", "Senador José Bento", "35"], ["3165909", "Senador Modestino Gonçalves", "38"],
+    ["3166006", "Senhora de Oliveira", "31"], ["3166105", "Senhora do Porto", "33"],
+    ["3166204", "Senhora dos Remédios", "32"], ["3166303", "Sericita", "31"], ["3166402", "Seritinga", "35"],
+    ["3166501", "Serra Azul de Minas", "38"], ["3166600", "Serra da Saudade", "37"],
+    ["3166709", "Serra dos Aimorés", "33"], ["3166808", "Serra do Salitre", "34"], ["3166907", "Serrania", "35"],
+    ["3166956", "Serranópolis de Minas", "38"], ["3167004", "Serranos", "35"], ["3167103", "Serro", "38"],
+    ["3167202", "Sete Lagoas", "31"], ["3167301", "Silveirânia", "32"], ["3167400", "Silvianópolis", "35"],
+    ["3167509", "Simão Pereira", "32"], ["3167608", "Simonésia", "33"], ["3167707", "Sobrália", "33"],
+    ["3167806", "Soledade de Minas", "35"], ["3167905", "Tabuleiro", "32"], ["3168002", "Taiobeiras", "38"],
+    ["3168051", "Taparuba", "33"], ["3168101", "Tapira", "34"], ["3168200", "Tapiraí", "37"],
+    ["3168309", "Taquaraçu de Minas", "31"], ["3168408", "Tarumirim", "33"], ["3168507", "Teixeiras", "31"],
+    ["3168606", "Teófilo Otoni", "33"], ["3168705", "Timóteo", "31"], ["3168804", "Tiradentes", "32"],
+    ["3168903", "Tiros", "34"], ["3169000", "Tocantins", "32"], ["3169059", "Tocos do Moji", "35"],
+    ["3169109", "Toledo", "35"], ["3169208", "Tombos", "32"], ["3169307", "Três Corações", "35"],
+    ["3169356", "Três Marias", "38"], ["3169406", "Três Pontas", "35"], ["3169505", "Tumiritinga", "33"],
+    ["3169604", "Tupaciguara", "34"], ["3169703", "Turmalina", "38"], ["3169802", "Turvolândia", "35"],
+    ["3169901", "Ubá", "32"], ["3170008", "Ubaí", "38"], ["3170057", "Ubaporanga", "33"], ["3170107", "Uberaba", "34"],
+    ["3170206", "Uberlândia", "34"], ["3170305", "Umburatiba", "33"], ["3170404", "Unaí", "38"],
+    ["3170438", "União de Minas", "34"], ["3170479", "Uruana de Minas", "38"], ["3170503", "Urucânia", "31"],
+    ["3170529", "Urucuia", "38"], ["3170578", "Vargem Alegre", "33"], ["3170602", "Vargem Bonita", "37"],
+    ["3170651", "Vargem Grande do Rio Pardo", "38"], ["3170701", "Varginha", "35"],
+    ["3170750", "Varjão de Minas", "38"], ["3170800", "Várzea da Palma", "38"], ["3170909", "Varzelândia", "38"],
+    ["3171006", "Vazante", "34"], ["3171030", "Verdelândia", "38"], ["3171071", "Veredinha", "38"],
+    ["3171105", "Veríssimo", "34"], ["3171154", "Vermelho Novo", "33"], ["3171204", "Vespasiano", "31"],
+    ["3171303", "Viçosa", "31"], ["3171402", "Vieiras", "32"], ["3171501", "Mathias Lobato", "33"],
+    ["3171600", "Virgem da Lapa", "33"], ["3171709", "Virgínia", "35"], ["3171808", "Virginópolis", "33"],
+    ["3171907", "Virgolândia", "33"], ["3172004", "Visconde do Rio Branco", "32"], ["3172103", "Volta Grande", "32"],
+    ["3172202", "Wenceslau Braz", "35"],
+  ],
+  ES: [
+    ["3200102", "Afonso Cláudio", "27"], ["3200136", "Águia Branca", "27"], ["3200169", "Água Doce do Norte", "27"],
+    ["3200201", "Alegre", "28"], ["3200300", "Alfredo Chaves", "27"], ["3200359", "Alto Rio Novo", "27"],
+    ["3200409", "Anchieta", "28"], ["3200508", "Apiacá", "28"], ["3200607", "Aracruz", "27"],
+    ["3200706", "Atilio Vivacqua", "28"], ["3200805", "Baixo Guandu", "27"],
+    ["3200904", "Barra de São Francisco", "27"], ["3201001", "Boa Esperança", "27"],
+    ["3201100", "Bom Jesus do Norte", "28"], ["3201159", "Brejetuba", "27"],
+    ["3201209", "Cachoeiro de Itapemirim", "28"], ["3201308", "Cariacica", "27"], ["3201407", "Castelo", "28"],
+    ["3201506", "Colatina", "27"], ["3201605", "Conceição da Barra", "27"], ["3201704", "Conceição do Castelo", "28"],
+    ["3201803", "Divino de São Lourenço", "28"], ["3201902", "Domingos Martins", "27"],
+    ["3202009", "Dores do Rio Preto", "28"], ["3202108", "Ecoporanga", "27"], ["3202207", "Fundão", "27"],
+    ["3202256", "Governador Lindenberg", "27"], ["3202306", "Guaçuí", "28"], ["3202405", "Guarapari", "27"],
+    ["3202454", "Ibatiba", "28"], ["3202504", "Ibiraçu", "27"], ["3202553", "Ibitirama", "28"],
+    ["3202603", "Iconha", "28"], ["3202652", "Irupi", "28"], ["3202702", "Itaguaçu", "27"],
+    ["3202801", "Itapemirim", "28"], ["3202900", "Itarana", "27"], ["3203007", "Iúna", "28"],
+    ["3203056", "Jaguaré", "27"], ["3203106", "Jerônimo Monteiro", "28"], ["3203130", "João Neiva", "27"],
+    ["3203163", "Laranja da Terra", "27"], ["3203205", "Linhares", "27"], ["3203304", "Mantenópolis", "27"],
+    ["3203320", "Marataízes", "28"], ["3203346", "Marechal Floriano", "27"], ["3203353", "Marilândia", "27"],
+    ["3203403", "Mimoso do Sul", "28"], ["3203502", "Montanha", "27"], ["3203601", "Mucurici", "27"],
+    ["3203700", "Muniz Freire", "28"], ["3203809", "Muqui", "28"], ["3203908", "Nova Venécia", "27"],
+    ["3204005", "Pancas", "27"], ["3204054", "Pedro Canário", "27"], ["3204104", "Pinheiros", "27"],
+    ["3204203", "Piúma", "28"], ["3204252", "Ponto Belo", "27"], ["3204302", "Presidente Kennedy", "28"],
+    ["3204351", "Rio Bananal", "27"], ["3204401", "Rio Novo do Sul", "28"], ["3204500", "Santa Leopoldina", "27"],
+    ["3204559", "Santa Maria de Jetibá", "27"], ["3204609", "Santa Teresa", "27"],
+    ["3204658", "São Domingos do Norte", "27"], ["3204708", "São Gabriel da Palha", "27"],
+    ["3204807", "São José do Calçado", "28"], ["3204906", "São Mateus", "27"], ["3204955", "São Roque do Canaã", "27"],
+    ["3205002", "Serra", "27"], ["3205010", "Sooretama", "27"], ["3205036", "Vargem Alta", "28"],
+    ["3205069", "Venda Nova do Imigrante", "28"], ["3205101", "Viana", "27"], ["3205150", "Vila Pavão", "27"],
+    ["3205176", "Vila Valério", "27"], ["3205200", "Vila Velha", "27"], ["3205309", "Vitória", "27"],
+  ],
+  RJ: [
+    ["3300100", "Angra dos Reis", "24"], ["3300159", "Aperibé", "22"], ["3300209", "Araruama", "22"],
+    ["3300225", "Areal", "24"], ["3300233", "Armação dos Búzios", "22"], ["3300258", "Arraial do Cabo", "22"],
+    ["3300308", "Barra do Piraí", "24"], ["3300407", "Barra Mansa", "24"], ["3300456", "Belford Roxo", "21"],
+    ["3300506", "Bom Jardim", "22"], ["3300605", "Bom Jesus do Itabapoana", "22"], ["3300704", "Cabo Frio", "22"],
+    ["3300803", "Cachoeiras de Macacu", "21"], ["3300902", "Cambuci", "22"], ["3300936", "Carapebus", "22"],
+    ["3300951", "Comendador Levy Gasparian", "24"], ["3301009", "Campos dos Goytacazes", "22"],
+    ["3301108", "Cantagalo", "22"], ["3301157", "Cardoso Moreira", "22"], ["3301207", "Carmo", "22"],
+    ["3301306", "Casimiro de Abreu", "22"], ["3301405", "Conceição de Macabu", "22"], ["3301504", "Cordeiro", "22"],
+    ["3301603", "Duas Barras", "22"], ["3301702", "Duque de Caxias", "21"],
+    ["3301801", "Engenheiro Paulo de Frontin", "24"], ["3301850", "Guapimirim", "21"],
+    ["3301876", "Iguaba Grande", "22"], ["3301900", "Itaboraí", "21"], ["3302007", "Itaguaí", "21"],
+    ["3302056", "Italva", "22"], ["3302106", "Itaocara", "22"], ["3302205", "Itaperuna", "22"],
+    ["3302254", "Itatiaia", "24"], ["3302270", "Japeri", "21"], ["3302304", "Laje do Muriaé", "22"],
+    ["3302403", "Macaé", "22"], ["3302452", "Macuco", "22"], ["3302502", "Magé", "21"],
+    ["3302601", "Mangaratiba", "21"], ["3302700", "Maricá", "21"], ["3302809", "Mendes", "24"],
+    ["3302858", "Mesquita", "21"], ["3302908", "Miguel Pereira", "24"], ["3303005", "Miracema", "22"],
+    ["3303104", "Natividade", "22"], ["3303203", "Nilópolis", "21"], ["3303302", "Niterói", "21"],
+    ["3303401", "Nova Friburgo", "22"], ["3303500", "Nova Iguaçu", "21"], ["3303609", "Paracambi", "21"],
+    ["3303708", "Paraíba do Sul", "24"], ["3303807", "Paraty", "24"], ["3303856", "Paty do Alferes", "24"],
+    ["3303906", "Petrópolis", "24"], ["3303955", "Pinheiral", "24"], ["3304003", "Piraí", "24"],
+    ["3304102", "Porciúncula", "22"], ["3304110", "Porto Real", "24"], ["3304128", "Quatis", "24"],
+    ["3304144", "Queimados", "21"], ["3304151", "Quissamã", "22"], ["3304201", "Resende", "24"],
+    ["3304300", "Rio Bonito", "21"], ["3304409", "Rio Claro", "24"], ["3304508", "Rio das Flores", "24"],
+    ["3304524", "Rio das Ostras", "22"], ["3304557", "Rio de Janeiro", "21"], ["3304607", "Santa Maria Madalena", "22"],
+    ["3304706", "Santo Antônio de Pádua", "22"], ["3304755", "São Francisco de Itabapoana", "22"],
+    ["3304805", "São Fidélis", "22"], ["3304904", "São Gonçalo", "21"], ["3305000", "São João da Barra", "22"],
+    ["3305109", "São João de Meriti", "21"], ["3305133", "São José de Ubá", "22"],
+    ["3305158", "São José do Vale do Rio Preto", "24"], ["3305208", "São Pedro da Aldeia", "22"],
+    ["3305307", "São Sebastião do Alto", "22"], ["3305406", "Sapucaia", "24"], ["3305505", "Saquarema", "22"],
+    ["3305554", "Seropédica", "21"], ["3305604", "Silva Jardim", "22"], ["3305703", "Sumidouro", "22"],
+    ["3305752", "Tanguá", "21"], ["3305802", "Teresópolis", "21"], ["3305901", "Trajano de Moraes", "22"],
+    ["3306008", "Três Rios", "24"], ["3306107", "Valença", "24"], ["3306156", "Varre-Sai", "22"],
+    ["3306206", "Vassouras", "24"], ["3306305", "Volta Redonda", "24"],
+  ],
+  SP: [
+    ["3500105", "Adamantina", "18"], ["3500204", "Adolfo", "17"], ["3500303", "Aguaí", "19"],
+    ["3500402", "Águas da Prata", "19"], ["3500501", "Águas de Lindóia", "19"],
+    ["3500550", "Águas de Santa Bárbara", "14"], ["3500600", "Águas de São Pedro", "19"], ["3500709", "Agudos", "14"],
+    ["3500758", "Alambari", "15"], ["3500808", "Alfredo Marcondes", "18"], ["3500907", "Altair", "17"],
+    ["3501004", "Altinópolis", "16"], ["3501103", "Alto Alegre", "18"], ["3501152", "Alumínio", "11"],
+    ["3501202", "Álvares Florence", "17"], ["3501301", "Álvares Machado", "18"],
+    ["3501400", "Álvaro de Carvalho", "14"], ["3501509", "Alvinlândia", "14"], ["3501608", "Americana", "19"],
+    ["3501707", "Américo Brasiliense", "16"], ["3501806", "Américo de Campos", "17"], ["3501905", "Amparo", "19"],
+    ["3502002", "Analândia", "19"], ["3502101", "Andradina", "18"], ["3502200", "Angatuba", "15"],
+    ["3502309", "Anhembi", "14"], ["3502408", "Anhumas", "18"], ["3502507", "Aparecida", "12"],
+    ["3502606", "Aparecida d'Oeste", "17"], ["3502705", "Apiaí", "15"], ["3502754", "Araçariguama", "11"],
+    ["3502804", "Araçatuba", "18"], ["3502903", "Araçoiaba da Serra", "15"], ["3503000", "Aramina", "16"],
+    ["3503109", "Arandu", "14"], ["3503158", "Arapeí", "12"], ["3503208", "Araraquara", "16"],
+    ["3503307", "Araras", "19"], ["3503356", "Arco-Íris", "14"], ["3503406", "Arealva", "14"],
+    ["3503505", "Areias", "12"], ["3503604", "Areiópolis", "14"], ["3503703", "Ariranha", "17"],
+    ["3503802", "Artur Nogueira", "19"], ["3503901", "Arujá", "11"], ["3503950", "Aspásia", "17"],
+    ["3504008", "Assis", "18"], ["3504107", "Atibaia", "11"], ["3504206", "Auriflama", "17"], ["3504305", "Avaí", "14"],
+    ["3504404", "Avanhandava", "18"], ["3504503", "Avaré", "14"], ["3504602", "Bady Bassitt", "17"],
+    ["3504701", "Balbinos", "14"], ["3504800", "Bálsamo", "17"], ["3504909", "Bananal", "12"],
+    ["3505005", "Barão de Antonina", "15"], ["3505104", "Barbosa", "18"], ["3505203", "Bariri", "14"],
+    ["3505302", "Barra Bonita", "14"], ["3505351", "Barra do Chapéu", "15"], ["3505401", "Barra do Turvo", "15"],
+    ["3505500", "Barretos", "17"], ["3505609", "Barrinha", "16"], ["3505708", "Barueri", "11"],
+    ["3505807", "Bastos", "14"], ["3505906", "Batatais", "16"], ["3506003", "Bauru", "14"],
+    ["3506102", "Bebedouro", "17"], ["3506201", "Bento de Abreu", "18"], ["3506300", "Bernardino de Campos", "14"],
+    ["3506359", "Bertioga", "13"], ["3506409", "Bilac", "18"], ["3506508", "Birigui", "18"],
+    ["3506607", "Biritiba-Mirim", "11"], ["3506706", "Boa Esperança do Sul", "16"], ["3506805", "Bocaina", "14"],
+    ["3506904", "Bofete", "14"], ["3507001", "Boituva", "15"], ["3507100", "Bom Jesus dos Perdões", "11"],
+    ["3507159", "Bom Sucesso de Itararé", "15"], ["3507209", "Borá", "18"], ["3507308", "Boracéia", "14"],
+    ["3507407", "Borborema", "16"], ["3507456", "Borebi", "14"], ["3507506", "Botucatu", "14"],
+    ["3507605", "Bragança Paulista", "11"], ["3507704", "Braúna", "18"], ["3507753", "Brejo Alegre", "18"],
+    ["3507803", "Brodowski", "16"], ["3507902", "Brotas", "14"], ["3508009", "Buri", "15"],
+    ["3508108", "Buritama", "18"], ["3508207", "Buritizal", "16"], ["3508306", "Cabrália Paulista", "14"],
+    ["3508405", "Cabreúva", "11"], ["3508504", "Caçapava", "12"], ["3508603", "Cachoeira Paulista", "12"],
+    ["3508702", "Caconde", "19"], ["3508801", "Cafelândia", "14"], ["3508900", "Caiabu", "18"],
+    ["3509007", "Caieiras", "11"], ["3509106", "Caiuá", "18"], ["3509205", "Cajamar", "11"],
+    ["3509254", "Cajati", "13"], ["3509304", "Cajobi", "17"], ["3509403", "Cajuru", "16"],
+    ["3509452", "Campina do Monte Alegre", "15"], ["3509502", "Campinas", "19"],
+    ["3509601", "Campo Limpo Paulista", "11"], ["3509700", "Campos do Jordão", "12"],
+    ["3509809", "Campos Novos Paulista", "14"], ["3509908", "Cananéia", "13"], ["3509957", "Canas", "12"],
+    ["3510005", "Cândido Mota", "18"], ["3510104", "Cândido Rodrigues", "16"], ["3510153", "Canitar", "14"],
+    ["3510203", "Capão Bonito", "15"], ["3510302", "Capela do Alto", "15"], ["3510401", "Capivari", "19"],
+    ["3510500", "Caraguatatuba", "12"], ["3510609", "Carapicuíba", "11"], ["3510708", "Cardoso", "17"],
+    ["3510807", "Casa Branca", "19"], ["3510906", "Cássia dos Coqueiros", "16"], ["3511003", "Castilho", "18"],
+    ["3511102", "Catanduva", "17"], ["3511201", "Catiguá", "17"], ["3511300", "Cedral", "17"],
+    ["3511409", "Cerqueira César", "14"], ["3511508", "Cerquilho", "15"], ["3511607", "Cesário Lange", "15"],
+    ["3511706", "Charqueada", "19"], ["3511904", "Clementina", "18"], ["3512001", "Colina", "17"],
+    ["3512100", "Colômbia", "17"], ["3512209", "Conchal", "19"], ["3512308", "Conchas", "14"],
+    ["3512407", "Cordeirópolis", "19"], ["3512506", "Coroados", "18"], ["3512605", "Coronel Macedo", "14"],
+    ["3512704", "Corumbataí", "19"], ["3512803", "Cosmópolis", "19"], ["3512902", "Cosmorama", "17"],
+    ["3513009", "Cotia", "11"], ["3513108", "Cravinhos", "16"], ["3513207", "Cristais Paulista", "16"],
+    ["3513306", "Cruzália", "18"], ["3513405", "Cruzeiro", "12"], ["3513504", "Cubatão", "13"],
+    ["3513603", "Cunha", "12"], ["3513702", "Descalvado", "19"], ["3513801", "Diadema", "11"],
+    ["3513850", "Dirce Reis", "17"], ["3513900", "Divinolândia", "19"], ["3514007", "Dobrada", "16"],
+    ["3514106", "Dois Córregos", "14"], ["3514205", "Dolcinópolis", "17"], ["3514304", "Dourado", "16"],
+    ["3514403", "Dracena", "18"], ["3514502", "Duartina", "14"], ["3514601", "Dumont", "16"],
+    ["3514700", "Echaporã", "18"], ["3514809", "Eldorado", "13"], ["3514908", "Elias Fausto", "19"],
+    ["3514924", "Elisiário", "17"], ["3514957", "Embaúba", "17"], ["3515004", "Embu das Artes", "11"],
+    ["3515103", "Embu-Guaçu", "11"], ["3515129", "Emilianópolis", "18"], ["3515152", "Engenheiro Coelho", "19"],
+    ["3515186", "Espírito Santo do Pinhal", "19"], ["3515194", "Espírito Santo do Turvo", "14"],
+    ["3515202", "Estrela d'Oeste", "17"], ["3515301", "Estrela do Norte", "18"],
+    ["3515350", "Euclides da Cunha Paulista", "18"], ["3515400", "Fartura", "14"], ["3515509", "Fernandópolis", "17"],
+    ["3515608", "Fernando Prestes", "16"], ["3515657", "Fernão", "14"], ["3515707", "Ferraz de Vasconcelos", "11"],
+    ["3515806", "Flora Rica", "18"], ["3515905", "Floreal", "17"], ["3516002", "Flórida Paulista", "18"],
+    ["3516101", "Florínia", "18"], ["3516200", "Franca", "16"], ["3516309", "Francisco Morato", "11"],
+    ["3516408", "Franco da Rocha", "11"], ["3516507", "Gabriel Monteiro", "18"], ["3516606", "Gália", "14"],
+    ["3516705", "Garça", "14"], ["3516804", "Gastão Vidigal", "17"], ["3516853", "Gavião Peixoto", "16"],
+    ["3516903", "General Salgado", "17"], ["3517000", "Getulina", "14"], ["3517109", "Glicério", "18"],
+    ["3517208", "Guaiçara", "14"], ["3517307", "Guaimbê", "14"], ["3517406", "Guaíra", "17"],
+    ["3517505", "Guapiaçu", "17"], ["3517604", "Guapiara", "15"], ["3517703", "Guará", "16"],
+    ["3517802", "Guaraçaí", "18"], ["3517901", "Guaraci", "17"], ["3518008", "Guarani d'Oeste", "17"],
+    ["3518107", "Guarantã", "14"], ["3518206", "Guararapes", "18"], ["3518305", "Guararema", "11"],
+    ["3518404", "Guaratinguetá", "12"], ["3518503", "Guareí", "15"], ["3518602", "Guariba", "16"],
+    ["3518701", "Guarujá", "13"], ["3518800", "Guarulhos", "11"], ["3518859", "Guatapará", "16"],
+    ["3518909", "Guzolândia", "17"], ["3519006", "Herculândia", "14"], ["3519055", "Holambra", "19"],
+    ["3519071", "Hortolândia", "19"], ["3519105", "Iacanga", "14"], ["3519204", "Iacri", "14"],
+    ["3519253", "Iaras", "14"], ["3519303", "Ibaté", "16"], ["3519402", "Ibirá", "17"], ["3519501", "Ibirarema", "14"],
+    ["3519600", "Ibitinga", "16"], ["3519709", "Ibiúna", "15"], ["3519808", "Icém", "17"], ["3519907", "Iepê", "18"],
+    ["3520004", "Igaraçu do Tietê", "14"], ["3520103", "Igarapava", "16"], ["3520202", "Igaratá", "11"],
+    ["3520301", "Iguape", "13"], ["3520400", "Ilhabela", "12"], ["3520426", "Ilha Comprida", "13"],
+    ["3520442", "Ilha Solteira", "18"], ["3520509", "Indaiatuba", "19"], ["3520608", "Indiana", "18"],
+    ["3520707", "Indiaporã", "17"], ["3520806", "Inúbia Paulista", "18"], ["3520905", "Ipaussu", "14"],
+    ["3521002", "Iperó", "15"], ["3521101", "Ipeúna", "19"], ["3521150", "Ipiguá", "17"], ["3521200", "Iporanga", "15"],
+    ["3521309", "Ipuã", "16"], ["3521408", "Iracemápolis", "19"], ["3521507", "Irapuã", "17"],
+    ["3521606", "Irapuru", "18"], ["3521705", "Itaberá", "15"], ["3521804", "Itaí", "14"], ["3521903", "Itajobi", "17"],
+    ["3522000", "Itaju", "14"], ["3522109", "Itanhaém", "13"], ["3522158", "Itaóca", "15"],
+    ["3522208", "Itapecerica da Serra", "11"], ["3522307", "Itapetininga", "15"], ["3522406", "Itapeva", "15"],
+    ["3522505", "Itapevi", "11"], ["3522604", "Itapira", "19"], ["3522653", "Itapirapuã Paulista", "15"],
+    ["3522703", "Itápolis", "16"], ["3522802", "Itaporanga", "15"], ["3522901", "Itapuí", "14"],
+    ["3523008", "Itapura", "18"], ["3523107", "Itaquaquecetuba", "11"], ["3523206", "Itararé", "15"],
+    ["3523305", "Itariri", "13"], ["3523404", "Itatiba", "11"], ["3523503", "Itatinga", "14"],
+    ["3523602", "Itirapina", "19"], ["3523701", "Itirapuã", "16"], ["3523800", "Itobi", "19"], ["3523909", "Itu", "11"],
+    ["3524006", "Itupeva", "11"], ["3524105", "Ituverava", "16"], ["3524204", "Jaborandi", "17"],
+    ["3524303", "Jaboticabal", "16"], ["3524402", "Jacareí", "12"], ["3524501", "Jaci", "17"],
+    ["3524600", "Jacupiranga", "13"], ["3524709", "Jaguariúna", "19"], ["3524808", "Jales", "17"],
+    ["3524907", "Jambeiro", "12"], ["3525003", "Jandira", "11"], ["3525102", "Jardinópolis", "16"],
+    ["3525201", "Jarinu", "11"], ["3525300", "Jaú", "14"], ["3525409", "Jeriquara", "16"],
+    ["3525508", "Joanópolis", "11"], ["3525607", "João Ramalho", "18"], ["3525706", "José Bonifácio", "17"],
+    ["3525805", "Júlio Mesquita", "14"], ["3525854", "Jumirim", "15"], ["3525904", "Jundiaí", "11"],
+    ["3526001", "Junqueirópolis", "18"], ["3526100", "Juquiá", "13"], ["3526209", "Juquitiba", "11"],
+    ["3526308", "Lagoinha", "12"], ["3526407", "Laranjal Paulista", "15"], ["3526506", "Lavínia", "18"],
+    ["3526605", "Lavrinhas", "12"], ["3526704", "Leme", "19"], ["3526803", "Lençóis Paulista", "14"],
+    ["3526902", "Limeira", "19"], ["3527009", "Lindóia", "19"], ["3527108", "Lins", "14"], ["3527207", "Lorena", "12"],
+    ["3527256", "Lourdes", "18"], ["3527306", "Louveira", "19"], ["3527405", "Lucélia", "18"],
+    ["3527504", "Lucianópolis", "14"], ["3527603", "Luís Antônio", "16"], ["3527702", "Luiziânia", "18"],
+    ["3527801", "Lupércio", "14"], ["3527900", "Lutécia", "18"], ["3528007", "Macatuba", "14"],
+    ["3528106", "Macaubal", "17"], ["3528205", "Macedônia", "17"], ["3528304", "Magda", "17"],
+    ["3528403", "Mairinque", "11"], ["3528502", "Mairiporã", "11"], ["3528601", "Manduri", "14"],
+    ["3528700", "Marabá Paulista", "18"], ["3528809", "Maracaí", "18"], ["3528858", "Marapoama", "17"],
+    ["3528908", "Mariápolis", "18"], ["3529005", "Marília", "14"], ["3529104", "Marinópolis", "17"],
+    ["3529203", "Martinópolis", "18"], ["3529302", "Matão", "16"], ["3529401", "Mauá", "11"],
+    ["3529500", "Mendonça", "17"], ["3529609", "Meridiano", "17"], ["3529658", "Mesópolis", "17"],
+    ["3529708", "Miguelópolis", "16"], ["3529807", "Mineiros do Tietê", "14"], ["3529906", "Miracatu", "13"],
+    ["3530003", "Mira Estrela", "17"], ["3530102", "Mirandópolis", "18"], ["3530201", "Mirante do Paranapanema", "18"],
+    ["3530300", "Mirassol", "17"], ["3530409", "Mirassolândia", "17"], ["3530508", "Mococa", "19"],
+    ["3530607", "Mogi das Cruzes", "11"], ["3530706", "Mogi Guaçu", "19"], ["3530805", "Mogi Mirim", "19"],
+    ["3530904", "Mombuca", "19"], ["3531001", "Monções", "17"], ["3531100", "Mongaguá", "13"],
+    ["3531209", "Monte Alegre do Sul", "19"], ["3531308", "Monte Alto", "16"], ["3531407", "Monte Aprazível", "17"],
+    ["3531506", "Monte Azul Paulista", "17"], ["3531605", "Monte Castelo", "18"], ["3531704", "Monteiro Lobato", "12"],
+    ["3531803", "Monte Mor", "19"], ["3531902", "Morro Agudo", "16"], ["3532009", "Morungaba", "11"],
+    ["3532058", "Motuca", "16"], ["3532108", "Murutinga do Sul", "18"], ["3532157", "Nantes", "18"],
+    ["3532207", "Narandiba", "18"], ["3532306", "Natividade da Serra", "12"], ["3532405", "Nazaré Paulista", "11"],
+    ["3532504", "Neves Paulista", "17"], ["3532603", "Nhandeara", "17"], ["3532702", "Nipoã", "17"],
+    ["3532801", "Nova Aliança", "17"], ["3532827", "Nova Campina", "15"], ["3532843", "Nova Canaã Paulista", "17"],
+    ["3532868", "Nova Castilho", "17"], ["3532900", "Nova Europa", "16"], ["3533007", "Nova Granada", "17"],
+    ["3533106", "Nova Guataporanga", "18"], ["3533205", "Nova Independência", "18"], ["3533254", "Novais", "17"],
+    ["3533304", "Nova Luzitânia", "17"], ["3533403", "Nova Odessa", "19"], ["3533502", "Novo Horizonte", "17"],
+    ["3533601", "Nuporanga", "16"], ["3533700", "Ocauçu", "14"], ["3533809", "Óleo", "14"],
+    ["3533908", "Olímpia", "17"], ["3534005", "Onda Verde", "17"], ["3534104", "Oriente", "14"],
+    ["3534203", "Orindiúva", "17"], ["3534302", "Orlândia", "16"], ["3534401", "Osasco", "11"],
+    ["3534500", "Oscar Bressane", "14"], ["3534609", "Osvaldo Cruz", "18"], ["3534708", "Ourinhos", "14"],
+    ["3534757", "Ouroeste", "17"], ["3534807", "Ouro Verde", "18"], ["3534906", "Pacaembu", "18"],
+    ["3535002", "Palestina", "17"], ["3535101", "Palmares Paulista", "17"], ["3535200", "Palmeira d'Oeste", "17"],
+    ["3535309", "Palmital", "18"], ["3535408", "Panorama", "18"], ["3535507", "Paraguaçu Paulista", "18"],
+    ["3535606", "Paraibuna", "12"], ["3535705", "Paraíso", "17"], ["3535804", "Paranapanema", "14"],
+    ["3535903", "Paranapuã", "17"], ["3536000", "Parapuã", "18"], ["3536109", "Pardinho", "14"],
+    ["3536208", "Pariquera-Açu", "13"], ["3536257", "Parisi", "17"], ["3536307", "Patrocínio Paulista", "16"],
+    ["3536406", "Paulicéia", "18"], ["3536505", "Paulínia", "19"], ["3536570", "Paulistânia", "14"],
+    ["3536604", "Paulo de Faria", "17"], ["3536703", "Pederneiras", "14"], ["3536802", "Pedra Bela", "11"],
+    ["3536901", "Pedranópolis", "17"], ["3537008", "Pedregulho", "16"], ["3537107", "Pedreira", "19"],
+    ["3537156", "Pedrinhas Paulista", "18"], ["3537206", "Pedro de Toledo", "13"], ["3537305", "Penápolis", "18"],
+    ["3537404", "Pereira Barreto", "18"], ["3537503", "Pereiras", "14"], ["3537602", "Peruíbe", "13"],
+    ["3537701", "Piacatu", "18"], ["3537800", "Piedade", "15"], ["3537909", "Pilar do Sul", "15"],
+    ["3538006", "Pindamonhangaba", "12"], ["3538105", "Pindorama", "17"], ["3538204", "Pinhalzinho", "11"],
+    ["3538303", "Piquerobi", "18"], ["3538501", "Piquete", "12"], ["3538600", "Piracaia", "11"],
+    ["3538709", "Piracicaba", "19"], ["3538808", "Piraju", "14"], ["3538907", "Pirajuí", "14"],
+    ["3539004", "Pirangi", "17"], ["3539103", "Pirapora do Bom Jesus", "11"], ["3539202", "Pirapozinho", "18"],
+    ["3539301", "Pirassununga", "19"], ["3539400", "Piratininga", "14"], ["3539509", "Pitangueiras", "16"],
+    ["3539608", "Planalto", "18"], ["3539707", "Platina", "18"], ["3539806", "Poá", "11"], ["3539905", "Poloni", "17"],
+    ["3540002", "Pompéia", "14"], ["3540101", "Pongaí", "14"], ["3540200", "Pontal", "16"],
+    ["3540259", "Pontalinda", "17"], ["3540309", "Pontes Gestal", "17"], ["3540408", "Populina", "17"],
+    ["3540507", "Porangaba", "15"], ["3540606", "Porto Feliz", "15"], ["3540705", "Porto Ferreira", "19"],
+    ["3540754", "Potim", "12"], ["3540804", "Potirendaba", "17"], ["3540853", "Pracinha", "18"],
+    ["3540903", "Pradópolis", "16"], ["3541000", "Praia Grande", "13"], ["3541059", "Pratânia", "14"],
+    ["3541109", "Presidente Alves", "14"], ["3541208", "Presidente Bernardes", "18"],
+    ["3541307", "Presidente Epitácio", "18"], ["3541406", "Presidente Prudente", "18"],
+    ["3541505", "Presidente Venceslau", "18"], ["3541604", "Promissão", "14"], ["3541653", "Quadra", "15"],
+    ["3541703", "Quatá", "18"], ["3541802", "Queiroz", "14"], ["3541901", "Queluz", "12"],
+    ["3542008", "Quintana", "14"], ["3542107", "Rafard", "19"], ["3542206", "Rancharia", "18"],
+    ["3542305", "Redenção da Serra", "12"], ["3542404", "Regente Feijó", "18"], ["3542503", "Reginópolis", "14"],
+    ["3542602", "Registro", "13"], ["3542701", "Restinga", "16"], ["3542800", "Ribeira", "15"],
+    ["3542909", "Ribeirão Bonito", "16"], ["3543006", "Ribeirão Branco", "15"], ["3543105", "Ribeirão Corrente", "16"],
+    ["3543204", "Ribeirão do Sul", "14"], ["3543238", "Ribeirão dos Índios", "18"],
+    ["3543253", "Ribeirão Grande", "15"], ["3543303", "Ribeirão Pires", "11"], ["3543402", "Ribeirão Preto", "16"],
+    ["3543501", "Riversul", "15"], ["3543600", "Rifaina", "16"], ["3543709", "Rincão", "16"],
+    ["3543808", "Rinópolis", "18"], ["3543907", "Rio Claro", "19"], ["3544004", "Rio das Pedras", "19"],
+    ["3544103", "Rio Grande da Serra", "11"], ["3544202", "Riolândia", "17"], ["3544251", "Rosana", "18"],
+    ["3544301", "Roseira", "12"], ["3544400", "Rubiácea", "18"], ["3544509", "Rubinéia", "17"],
+    ["3544608", "Sabino", "14"], ["3544707", "Sagres", "18"], ["3544806", "Sales", "17"],
+    ["3544905", "Sales Oliveira", "16"], ["3545001", "Salesópolis", "11"], ["3545100", "Salmourão", "18"],
+    ["3545159", "Saltinho", "19"], ["3545209", "Salto", "11"], ["3545308", "Salto de Pirapora", "15"],
+    ["3545407", "Salto Grande", "14"], ["3545506", "Sandovalina", "18"], ["3545605", "Santa Adélia", "17"],
+    ["3545704", "Santa Albertina", "17"], ["3545803", "Santa Bárbara d'Oeste", "19"], ["3546009", "Santa Branca", "12"],
+    ["3546108", "Santa Clara d'Oeste", "17"], ["3546207", "Santa Cruz da Conceição", "19"],
+    ["3546256", "Santa Cruz da Esperança", "16"], ["3546306", "Santa Cruz das Palmeiras", "19"],
+    ["3546405", "Santa Cruz do Rio Pardo", "14"], ["3546504", "Santa Ernestina", "16"],
+    ["3546603", "Santa Fé do Sul", "17"], ["3546702", "Santa Gertrudes", "19"], ["3546801", "Santa Isabel", "11"],
+    ["3546900", "Santa Lúcia", "16"], ["3547007", "Santa Maria da Serra", "19"], ["3547106", "Santa Mercedes", "18"],
+    ["3547205", "Santana da Ponte Pensa", "17"], ["3547304", "Santana de Parnaíba", "11"],
+    ["3547403", "Santa Rita d'Oeste", "17"], ["3547502", "Santa Rita do Passa Quatro", "19"],
+    ["3547601", "Santa Rosa de Viterbo", "16"], ["3547650", "Santa Salete", "17"], ["3547700", "Santo Anastácio", "18"],
+    ["3547809", "Santo André", "11"], ["3547908", "Santo Antônio da Alegria", "16"],
+    ["3548005", "Santo Antônio de Posse", "19"], ["3548054", "Santo Antônio do Aracanguá", "18"],
+    ["3548104", "Santo Antônio do Jardim", "19"], ["3548203", "Santo Antônio do Pinhal", "12"],
+    ["3548302", "Santo Expedito", "18"], ["3548401", "Santópolis do Aguapeí", "18"], ["3548500", "Santos", "13"],
+    ["3548609", "São Bento do Sapucaí", "12"], ["3548708", "São Bernardo do Campo", "11"],
+    ["3548807", "São Caetano do Sul", "11"], ["3548906", "São Carlos", "16"], ["3549003", "São Francisco", "17"],
+    ["3549102", "São João da Boa Vista", "19"], ["3549201", "São João das Duas Pontes", "17"],
+    ["3549250", "São João de Iracema", "17"], ["3549300", "São João do Pau d'Alho", "18"],
+    ["3549409", "São Joaquim da Barra", "16"], ["3549508", "São José da Bela Vista", "16"],
+    ["3549607", "São José do Barreiro", "12"], ["3549706", "São José do Rio Pardo", "19"],
+    ["3549805", "São José do Rio Preto", "17"], ["3549904", "São José dos Campos", "12"],
+    ["3549953", "São Lourenço da Serra", "11"], ["3550001", "São Luiz do Paraitinga", "12"],
+    ["3550100", "São Manuel", "14"], ["3550209", "São Miguel Arcanjo", "15"], ["3550308", "São Paulo", "11"],
+    ["3550407", "São Pedro", "19"], ["3550506", "São Pedro do Turvo", "14"], ["3550605", "São Roque", "11"],
+    ["3550704", "São Sebastião", "12"], ["3550803", "São Sebastião da Grama", "19"], ["3550902", "São Simão", "16"],
+    ["3551009", "São Vicente", "13"], ["3551108", "Sarapuí", "15"], ["3551207", "Sarutaiá", "14"],
+    ["3551306", "Sebastianópolis do Sul", "17"], ["3551405", "Serra Azul", "16"], ["3551504", "Serrana", "16"],
+    ["3551603", "Serra Negra", "19"], ["3551702", "Sertãozinho", "16"], ["3551801", "Sete Barras", "13"],
+    ["3551900", "Severínia", "17"], ["3552007", "Silveiras", "12"], ["3552106", "Socorro", "19"],
+    ["3552205", "Sorocaba", "15"], ["3552304", "Sud Mennucci", "18"], ["3552403", "Sumaré", "19"],
+    ["3552502", "Suzano", "11"], ["3552551", "Suzanápolis", "18"], ["3552601", "Tabapuã", "17"],
+    ["3552700", "Tabatinga", "16"], ["3552809", "Taboão da Serra", "11"], ["3552908", "Taciba", "18"],
+    ["3553005", "Taguaí", "14"], ["3553104", "Taiaçu", "16"], ["3553203", "Taiúva", "16"], ["3553302", "Tambaú", "19"],
+    ["3553401", "Tanabi", "17"], ["3553500", "Tapiraí", "15"], ["3553609", "Tapiratiba", "19"],
+    ["3553658", "Taquaral", "16"], ["3553708", "Taquaritinga", "16"], ["3553807", "Taquarituba", "14"],
+    ["3553856", "Taquarivaí", "15"], ["3553906", "Tarabai", "18"], ["3553955", "Tarumã", "18"],
+    ["3554003", "Tatuí", "15"], ["3554102", "Taubaté", "12"], ["3554201", "Tejupá", "14"],
+    ["3554300", "Teodoro Sampaio", "18"], ["3554409", "Terra Roxa", "17"], ["3554508", "Tietê", "15"],
+    ["3554607", "Timburi", "14"], ["3554656", "Torre de Pedra", "15"], ["3554706", "Torrinha", "14"],
+    ["3554755", "Trabiju", "16"], ["3554805", "Tremembé", "12"], ["3554904", "Três Fronteiras", "17"],
+    ["3554953", "Tuiuti", "11"], ["3555000", "Tupã", "14"], ["3555109", "Tupi Paulista", "18"],
+    ["3555208", "Turiúba", "18"], ["3555307", "Turmalina", "17"], ["3555356", "Ubarana", "17"],
+    ["3555406", "Ubatuba", "12"], ["3555505", "Ubirajara", "14"], ["3555604", "Uchoa", "17"],
+    ["3555703", "União Paulista", "17"], ["3555802", "Urânia", "17"], ["3555901", "Uru", "14"],
+    ["3556008", "Urupês", "17"], ["3556107", "Valentim Gentil", "17"], ["3556206", "Valinhos", "19"],
+    ["3556305", "Valparaíso", "18"], ["3556354", "Vargem", "11"], ["3556404", "Vargem Grande do Sul", "19"],
+    ["3556453", "Vargem Grande Paulista", "11"], ["3556503", "Várzea Paulista", "11"], ["3556602", "Vera Cruz", "14"],
+    ["3556701", "Vinhedo", "19"], ["3556800", "Viradouro", "17"], ["3556909", "Vista Alegre do Alto", "16"],
+    ["3556958", "Vitória Brasil", "17"], ["3557006", "Votorantim", "15"], ["3557105", "Votuporanga", "17"],
+    ["3557154", "Zacarias", "18"], ["3557204", "Chavantes", "14"], ["3557303", "Estiva Gerbi", "19"],
+  ],
+  PR: [
+    ["4100103", "Abatiá", "43"], ["4100202", "Adrianópolis", "41"], ["4100301", "Agudos do Sul", "41"],
+    ["4100400", "Almirante Tamandaré", "41"], ["4100459", "Altamira do Paraná", "44"], ["4100509", "Altônia", "44"],
+    ["4100608", "Alto Paraná", "44"], ["4100707", "Alto Piquiri", "44"], ["4100806", "Alvorada do Sul", "43"],
+    ["4100905", "Amaporã", "44"], ["4101002", "Ampére", "46"], ["4101051", "Anahy", "45"], ["4101101", "Andirá", "43"],
+    ["4101150", "Ângulo", "44"], ["4101200", "Antonina", "41"], ["4101309", "Antônio Olinto", "42"],
+    ["4101408", "Apucarana", "43"], ["4101507", "Arapongas", "43"], ["4101606", "Arapoti", "43"],
+    ["4101655", "Arapuã", "43"], ["4101705", "Araruna", "44"], ["4101804", "Araucária", "41"],
+    ["4101853", "Ariranha do Ivaí", "43"], ["4101903", "Assaí", "43"], ["4102000", "Assis Chateaubriand", "44"],
+    ["4102109", "Astorga", "44"], ["4102208", "Atalaia", "44"], ["4102307", "Balsa Nova", "41"],
+    ["4102406", "Bandeirantes", "43"], ["4102505", "Barbosa Ferraz", "44"], ["4102604", "Barracão", "49"],
+    ["4102703", "Barra do Jacaré", "43"], ["4102752", "Bela Vista da Caroba", "46"],
+    ["4102802", "Bela Vista do Paraíso", "43"], ["4102901", "Bituruna", "42"], ["4103008", "Boa Esperança", "44"],
+    ["4103024", "Boa Esperança do Iguaçu", "46"], ["4103040", "Boa Ventura de São Roque", "42"],
+    ["4103057", "Boa Vista da Aparecida", "45"], ["4103107", "Bocaiúva do Sul", "41"],
+    ["4103156", "Bom Jesus do Sul", "46"], ["4103206", "Bom Sucesso", "43"], ["4103222", "Bom Sucesso do Sul", "46"],
+    ["4103305", "Borrazópolis", "43"], ["4103354", "Braganey", "45"], ["4103370", "Brasilândia do Sul", "44"],
+    ["4103404", "Cafeara", "43"], ["4103453", "Cafelândia", "45"], ["4103479", "Cafezal do Sul", "44"],
+    ["4103503", "Califórnia", "43"], ["4103602", "Cambará", "43"], ["4103701", "Cambé", "43"],
+    ["4103800", "Cambira", "43"], ["4103909", "Campina da Lagoa", "44"], ["4103958", "Campina do Simão", "42"],
+    ["4104006", "Campina Grande do Sul", "41"], ["4104055", "Campo Bonito", "45"],
+    ["4104105", "Campo do Tenente", "41"], ["4104204", "Campo Largo", "41"], ["4104253", "Campo Magro", "41"],
+    ["4104303", "Campo Mourão", "44"], ["4104402", "Cândido de Abreu", "43"], ["4104428", "Candói", "42"],
+    ["4104451", "Cantagalo", "42"], ["4104501", "Capanema", "46"], ["4104600", "Capitão Leônidas Marques", "45"],
+    ["4104659", "Carambeí", "42"], ["4104709", "Carlópolis", "43"], ["4104808", "Cascavel", "45"],
+    ["4104907", "Castro", "42"], ["4105003", "Catanduvas", "45"], ["4105102", "Centenário do Sul", "43"],
+    ["4105201", "Cerro Azul", "41"], ["4105300", "Céu Azul", "45"], ["4105409", "Chopinzinho", "46"],
+    ["4105508", "Cianorte", "44"], ["4105607", "Cidade Gaúcha", "44"], ["4105706", "Clevelândia", "46"],
+    ["4105805", "Colombo", "41"], ["4105904", "Colorado", "44"], ["4106001", "Congonhinhas", "43"],
+    ["4106100", "Conselheiro Mairinck", "43"], ["4106209", "Contenda", "41"], ["4106308", "Corbélia", "45"],
+    ["4106407", "Cornélio Procópio", "43"], ["4106456", "Coronel Domingos Soares", "46"],
+    ["4106506", "Coronel Vivida", "46"], ["4106555", "Corumbataí do Sul", "44"],
+    ["4106571", "Cruzeiro do Iguaçu", "46"], ["4106605", "Cruzeiro do Oeste", "44"],
+    ["4106704", "Cruzeiro do Sul", "44"], ["4106803", "Cruz Machado", "42"], ["4106852", "Cruzmaltina", "43"],
+    ["4106902", "Curitiba", "41"], ["4107009", "Curiúva", "43"], ["4107108", "Diamante do Norte", "44"],
+    ["4107124", "Diamante do Sul", "45"], ["4107157", "Diamante D'Oeste", "45"], ["4107207", "Dois Vizinhos", "46"],
+    ["4107256", "Douradina", "44"], ["4107306", "Doutor Camargo", "44"], ["4107405", "Enéas Marques", "46"],
+    ["4107504", "Engenheiro Beltrão", "44"], ["4107520", "Esperança Nova", "44"],
+    ["4107538", "Entre Rios do Oeste", "45"], ["4107546", "Espigão Alto do Iguaçu", "46"], ["4107553", "Farol", "44"],
+    ["4107603", "Faxinal", "43"], ["4107652", "Fazenda Rio Grande", "41"], ["4107702", "Fênix", "44"],
+    ["4107736", "Fernandes Pinheiro", "42"], ["4107751", "Figueira", "43"], ["4107801", "Floraí", "44"],
+    ["4107850", "Flor da Serra do Sul", "46"], ["4107900", "Floresta", "44"], ["4108007", "Florestópolis", "43"],
+    ["4108106", "Flórida", "44"], ["4108205", "Formosa do Oeste", "44"], ["4108304", "Foz do Iguaçu", "45"],
+    ["4108320", "Francisco Alves", "44"], ["4108403", "Francisco Beltrão", "46"], ["4108452", "Foz do Jordão", "42"],
+    ["4108502", "General Carneiro", "42"], ["4108551", "Godoy Moreira", "43"], ["4108601", "Goioerê", "44"],
+    ["4108650", "Goioxim", "42"], ["4108700", "Grandes Rios", "43"], ["4108809", "Guaíra", "44"],
+    ["4108908", "Guairaçá", "44"], ["4108957", "Guamiranga", "42"], ["4109005", "Guapirama", "43"],
+    ["4109104", "Guaporema", "44"], ["4109203", "Guaraci", "43"], ["4109302", "Guaraniaçu", "45"],
+    ["4109401", "Guarapuava", "42"], ["4109500", "Guaraqueçaba", "41"], ["4109609", "Guaratuba", "41"],
+    ["4109658", "Honório Serpa", "46"], ["4109708", "Ibaiti", "43"], ["4109757", "Ibema", "45"],
+    ["4109807", "Ibiporã", "43"], ["4109906", "Icaraíma", "44"], ["4110003", "Iguaraçu", "44"],
+    ["4110052", "Iguatu", "45"], ["4110078", "Imbaú", "42"], ["4110102", "Imbituva", "42"],
+    ["4110201", "Inácio Martins", "42"], ["4110300", "Inajá", "44"], ["4110409", "Indianópolis", "44"],
+    ["4110508", "Ipiranga", "42"], ["4110607", "Iporã", "44"], ["4110656", "Iracema do Oeste", "44"],
+    ["4110706", "Irati", "42"], ["4110805", "Iretama", "44"], ["4110904", "Itaguajé", "44"],
+    ["4110953", "Itaipulândia", "45"], ["4111001", "Itambaracá", "43"], ["4111100", "Itambé", "44"],
+    ["4111209", "Itapejara d'Oeste", "46"], ["4111258", "Itaperuçu", "41"], ["4111308", "Itaúna do Sul", "44"],
+    ["4111407", "Ivaí", "42"], ["4111506", "Ivaiporã", "43"], ["4111555", "Ivaté", "44"], ["4111605", "Ivatuba", "44"],
+    ["4111704", "Jaboti", "43"], ["4111803", "Jacarezinho", "43"], ["4111902", "Jaguapitã", "43"],
+    ["4112009", "Jaguariaíva", "43"], ["4112108", "Jandaia do Sul", "43"], ["4112207", "Janiópolis", "44"],
+    ["4112306", "Japira", "43"], ["4112405", "Japurá", "44"], ["4112504", "Jardim Alegre", "43"],
+    ["4112603", "Jardim Olinda", "44"], ["4112702", "Jataizinho", "43"], ["4112751", "Jesuítas", "44"],
+    ["4112801", "Joaquim Távora", "43"], ["4112900", "Jundiaí do Sul", "43"], ["4112959", "Juranda", "44"],
+    ["4113007", "Jussara", "44"], ["4113106", "Kaloré", "43"], ["4113205", "Lapa", "41"], ["4113254", "Laranjal", "42"],
+    ["4113304", "Laranjeiras do Sul", "42"], ["4113403", "Leópolis", "43"], ["4113429", "Lidianópolis", "43"],
+    ["4113452", "Lindoeste", "45"], ["4113502", "Loanda", "44"], ["4113601", "Lobato", "44"],
+    ["4113700", "Londrina", "43"], ["4113734", "Luiziana", "44"], ["4113759", "Lunardelli", "43"],
+    ["4113809", "Lupionópolis", "43"], ["4113908", "Mallet", "42"], ["4114005", "Mamborê", "44"],
+    ["4114104", "Mandaguaçu", "44"], ["4114203", "Mandaguari", "44"], ["4114302", "Mandirituba", "41"],
+    ["4114351", "Manfrinópolis", "46"], ["4114401", "Mangueirinha", "46"], ["4114500", "Manoel Ribas", "43"],
+    ["4114609", "Marechal Cândido Rondon", "45"], ["4114708", "Maria Helena", "44"], ["4114807", "Marialva", "44"],
+    ["4114906", "Marilândia do Sul", "43"], ["4115002", "Marilena", "44"], ["4115101", "Mariluz", "44"],
+    ["4115200", "Maringá", "44"], ["4115309", "Mariópolis", "46"], ["4115358", "Maripá", "44"],
+    ["4115408", "Marmeleiro", "46"], ["4115457", "Marquinho", "42"], ["4115507", "Marumbi", "43"],
+    ["4115606", "Matelândia", "45"], ["4115705", "Matinhos", "41"], ["4115739", "Mato Rico", "42"],
+    ["4115754", "Mauá da Serra", "43"], ["4115804", "Medianeira", "45"], ["4115853", "Mercedes", "45"],
+    ["4115903", "Mirador", "44"], ["4116000", "Miraselva", "43"], ["4116059", "Missal", "45"],
+    ["4116109", "Moreira Sales", "44"], ["4116208", "Morretes", "41"], ["4116307", "Munhoz de Melo", "44"],
+    ["4116406", "Nossa Senhora das Graças", "44"], ["4116505", "Nova Aliança do Ivaí", "44"],
+    ["4116604", "Nova América da Colina", "43"], ["4116703", "Nova Aurora", "45"], ["4116802", "Nova Cantu", "44"],
+    ["4116901", "Nova Esperança", "44"], ["4116950", "Nova Esperança do Sudoeste", "46"],
+    ["4117008", "Nova Fátima", "43"], ["4117057", "Nova Laranjeiras", "42"], ["4117107", "Nova Londrina", "44"],
+    ["4117206", "Nova Olímpia", "44"], ["4117214", "Nova Santa Bárbara", "43"], ["4117222", "Nova Santa Rosa", "45"],
+    ["4117255", "Nova Prata do Iguaçu", "46"], ["4117271", "Nova Tebas", "42"], ["4117297", "Novo Itacolomi", "43"],
+    ["4117305", "Ortigueira", "42"], ["4117404", "Ourizona", "44"], ["4117453", "Ouro Verde do Oeste", "45"],
+    ["4117503", "Paiçandu", "44"], ["4117602", "Palmas", "46"], ["4117701", "Palmeira", "42"],
+    ["4117800", "Palmital", "42"], ["4117909", "Palotina", "44"], ["4118006", "Paraíso do Norte", "44"],
+    ["4118105", "Paranacity", "44"], ["4118204", "Paranaguá", "41"], ["4118303", "Paranapoema", "44"],
+    ["4118402", "Paranavaí", "44"], ["4118451", "Pato Bragado", "45"], ["4118501", "Pato Branco", "46"],
+    ["4118600", "Paula Freitas", "42"], ["4118709", "Paulo Frontin", "42"], ["4118808", "Peabiru", "44"],
+    ["4118857", "Perobal", "44"], ["4118907", "Pérola", "44"], ["4119004", "Pérola d'Oeste", "46"],
+    ["4119103", "Piên", "41"], ["4119152", "Pinhais", "41"], ["4119202", "Pinhalão", "43"],
+    ["4119251", "Pinhal de São Bento", "46"], ["4119301", "Pinhão", "42"], ["4119400", "Piraí do Sul", "42"],
+    ["4119509", "Piraquara", "41"], ["4119608", "Pitanga", "42"], ["4119657", "Pitangueiras", "43"],
+    ["4119707", "Planaltina do Paraná", "44"], ["4119806", "Planalto", "46"], ["4119905", "Ponta Grossa", "42"],
+    ["4119954", "Pontal do Paraná", "41"], ["4120002", "Porecatu", "43"], ["4120101", "Porto Amazonas", "42"],
+    ["4120150", "Porto Barreiro", "42"], ["4120200", "Porto Rico", "44"], ["4120309", "Porto Vitória", "42"],
+    ["4120333", "Prado Ferreira", "43"], ["4120358", "Pranchita", "46"], ["4120408", "Presidente Castelo Branco", "44"],
+    ["4120507", "Primeiro de Maio", "43"], ["4120606", "Prudentópolis", "42"], ["4120655", "Quarto Centenário", "44"],
+    ["4120705", "Quatiguá", "43"], ["4120804", "Quatro Barras", "41"], ["4120853", "Quatro Pontes", "45"],
+    ["4120903", "Quedas do Iguaçu", "46"], ["4121000", "Querência do Norte", "44"], ["4121109", "Quinta do Sol", "44"],
+    ["4121208", "Quitandinha", "41"], ["4121257", "Ramilândia", "45"], ["4121307", "Rancho Alegre", "43"],
+    ["4121356", "Rancho Alegre D'Oeste", "44"], ["4121406", "Realeza", "46"], ["4121505", "Rebouças", "42"],
+    ["4121604", "Renascença", "46"], ["4121703", "Reserva", "42"], ["4121752", "Reserva do Iguaçu", "42"],
+    ["4121802", "Ribeirão Claro", "43"], ["4121901", "Ribeirão do Pinhal", "43"], ["4122008", "Rio Azul", "42"],
+    ["4122107", "Rio Bom", "43"], ["4122156", "Rio Bonito do Iguaçu", "42"], ["4122172", "Rio Branco do Ivaí", "43"],
+    ["4122206", "Rio Branco do Sul", "41"], ["4122305", "Rio Negro", "47"], ["4122404", "Rolândia", "43"],
+    ["4122503", "Roncador", "44"], ["4122602", "Rondon", "44"], ["4122651", "Rosário do Ivaí", "43"],
+    ["4122701", "Sabáudia", "43"], ["4122800", "Salgado Filho", "46"], ["4122909", "Salto do Itararé", "43"],
+    ["4123006", "Salto do Lontra", "46"], ["4123105", "Santa Amélia", "43"],
+    ["4123204", "Santa Cecília do Pavão", "43"], ["4123303", "Santa Cruz de Monte Castelo", "44"],
+    ["4123402", "Santa Fé", "44"], ["4123501", "Santa Helena", "45"], ["4123600", "Santa Inês", "44"],
+    ["4123709", "Santa Isabel do Ivaí", "44"], ["4123808", "Santa Izabel do Oeste", "46"],
+    ["4123824", "Santa Lúcia", "45"], ["4123857", "Santa Maria do Oeste", "42"], ["4123907", "Santa Mariana", "43"],
+    ["4123956", "Santa Mônica", "44"], ["4124004", "Santana do Itararé", "43"],
+    ["4124020", "Santa Tereza do Oeste", "45"], ["4124053", "Santa Terezinha de Itaipu", "45"],
+    ["4124103", "Santo Antônio da Platina", "43"], ["4124202", "Santo Antônio do Caiuá", "44"],
+    ["4124301", "Santo Antônio do Paraíso", "43"], ["4124400", "Santo Antônio do Sudoeste", "46"],
+    ["4124509", "Santo Inácio", "44"], ["4124608", "São Carlos do Ivaí", "44"],
+    ["4124707", "São Jerônimo da Serra", "43"], ["4124806", "São João", "46"], ["4124905", "São João do Caiuá", "44"],
+    ["4125001", "São João do Ivaí", "43"], ["4125100", "São João do Triunfo", "42"],
+    ["4125209", "São Jorge d'Oeste", "46"], ["4125308", "São Jorge do Ivaí", "44"],
+    ["4125357", "São Jorge do Patrocínio", "44"], ["4125407", "São José da Boa Vista", "43"],
+    ["4125456", "São José das Palmeiras", "45"], ["4125506", "São José dos Pinhais", "41"],
+    ["4125555", "São Manoel do Paraná", "44"], ["4125605", "São Mateus do Sul", "42"],
+    ["4125704", "São Miguel do Iguaçu", "45"], ["4125753", "São Pedro do Iguaçu", "45"],
+    ["4125803", "São Pedro do Ivaí", "43"], ["4125902", "São Pedro do Paraná", "44"],
+    ["4126009", "São Sebastião da Amoreira", "43"], ["4126108", "São Tomé", "44"], ["4126207", "Sapopema", "43"],
+    ["4126256", "Sarandi", "44"], ["4126272", "Saudade do Iguaçu", "46"], ["4126306", "Sengés", "43"],
+    ["4126355", "Serranópolis do Iguaçu", "45"], ["4126405", "Sertaneja", "43"], ["4126504", "Sertanópolis", "43"],
+    ["4126603", "Siqueira Campos", "43"], ["4126652", "Sulina", "46"], ["4126678", "Tamarana", "43"],
+    ["4126702", "Tamboara", "44"], ["4126801", "Tapejara", "44"], ["4126900", "Tapira", "44"],
+    ["4127007", "Teixeira Soares", "42"], ["4127106", "Telêmaco Borba", "42"], ["4127205", "Terra Boa", "44"],
+    ["4127304", "Terra Rica", "44"], ["4127403", "Terra Roxa", "44"], ["4127502", "Tibagi", "42"],
+    ["4127601", "Tijucas do Sul", "41"], ["4127700", "Toledo", "45"], ["4127809", "Tomazina", "43"],
+    ["4127858", "Três Barras do Paraná", "45"], ["4127882", "Tunas do Paraná", "41"],
+    ["4127908", "Tuneiras do Oeste", "44"], ["4127957", "Tupãssi", "44"], ["4127965", "Turvo", "42"],
+    ["4128005", "Ubiratã", "44"], ["4128104", "Umuarama", "44"], ["4128203", "União da Vitória", "42"],
+    ["4128302", "Uniflor", "44"], ["4128401", "Uraí", "43"], ["4128500", "Wenceslau Braz", "43"],
+    ["4128534", "Ventania", "42"], ["4128559", "Vera Cruz do Oeste", "45"], ["4128609", "Verê", "46"],
+    ["4128625", "Alto Paraíso", "44"], ["4128633", "Doutor Ulysses", "41"], ["4128658", "Virmond", "42"],
+    ["4128708", "Vitorino", "46"], ["4128807", "Xambrê", "44"],
+  ],
+  SC: [
+    ["4200051", "Abdon Batista", "49"], ["4200101", "Abelardo Luz", "49"], ["4200200", "Agrolândia", "47"],
+    ["4200309", "Agronômica", "47"], ["4200408", "Água Doce", "49"], ["4200507", "Águas de Chapecó", "49"],
+    ["4200556", "Águas Frias", "49"], ["4200606", "Águas Mornas", "48"], ["4200705", "Alfredo Wagner", "48"],
+    ["4200754", "Alto Bela Vista", "49"], ["4200804", "Anchieta", "49"], ["4200903", "Angelina", "48"],
+    ["4201000", "Anita Garibaldi", "49"], ["4201109", "Anitápolis", "48"], ["4201208", "Antônio Carlos", "48"],
+    ["4201257", "Apiúna", "47"], ["4201273", "Arabutã", "49"], ["4201307", "Araquari", "47"],
+    ["4201406", "Araranguá", "48"], ["4201505", "Armazém", "48"], ["4201604", "Arroio Trinta", "49"],
+    ["4201653", "Arvoredo", "49"], ["4201703", "Ascurra", "47"], ["4201802", "Atalanta", "47"],
+    ["4201901", "Aurora", "47"], ["4201950", "Balneário Arroio do Silva", "48"],
+    ["4202008", "Balneário Camboriú", "47"], ["4202057", "Balneário Barra do Sul", "47"],
+    ["4202073", "Balneário Gaivota", "48"], ["4202081", "Bandeirante", "49"], ["4202099", "Barra Bonita", "49"],
+    ["4202107", "Barra Velha", "47"], ["4202131", "Bela Vista do Toldo", "47"], ["4202156", "Belmonte", "49"],
+    ["4202206", "Benedito Novo", "47"], ["4202305", "Biguaçu", "48"], ["4202404", "Blumenau", "47"],
+    ["4202438", "Bocaina do Sul", "49"], ["4202453", "Bombinhas", "47"], ["4202503", "Bom Jardim da Serra", "49"],
+    ["4202537", "Bom Jesus", "49"], ["4202578", "Bom Jesus do Oeste", "49"], ["4202602", "Bom Retiro", "49"],
+    ["4202701", "Botuverá", "47"], ["4202800", "Braço do Norte", "48"], ["4202859", "Braço do Trombudo", "47"],
+    ["4202875", "Brunópolis", "49"], ["4202909", "Brusque", "47"], ["4203006", "Caçador", "49"],
+    ["4203105", "Caibi", "49"], ["4203154", "Calmon", "49"], ["4203204", "Camboriú", "47"],
+    ["4203253", "Capão Alto", "49"], ["4203303", "Campo Alegre", "47"], ["4203402", "Campo Belo do Sul", "49"],
+    ["4203501", "Campo Erê", "49"], ["4203600", "Campos Novos", "49"], ["4203709", "Canelinha", "48"],
+    ["4203808", "Canoinhas", "47"], ["4203907", "Capinzal", "49"], ["4203956", "Capivari de Baixo", "48"],
+    ["4204004", "Catanduvas", "49"], ["4204103", "Caxambu do Sul", "49"], ["4204152", "Celso Ramos", "49"],
+    ["4204178", "Cerro Negro", "49"], ["4204194", "Chapadão do Lageado", "47"], ["4204202", "Chapecó", "49"],
+    ["4204251", "Cocal do Sul", "48"], ["4204301", "Concórdia", "49"], ["4204350", "Cordilheira Alta", "49"],
+    ["4204400", "Coronel Freitas", "49"], ["4204459", "Coronel Martins", "49"], ["4204509", "Corupá", "47"],
+    ["4204558", "Correia Pinto", "49"], ["4204608", "Criciúma", "48"], ["4204707", "Cunha Porã", "49"],
+    ["4204756", "Cunhataí", "49"], ["4204806", "Curitibanos", "49"], ["4204905", "Descanso", "49"],
+    ["4205001", "Dionísio Cerqueira", "49"], ["4205100", "Dona Emma", "47"], ["4205159", "Doutor Pedrinho", "47"],
+    ["4205175", "Entre Rios", "49"], ["4205191", "Ermo", "48"], ["4205209", "Erval Velho", "49"],
+    ["4205308", "Faxinal dos Guedes", "49"], ["4205357", "Flor do Sertão", "49"], ["4205407", "Florianópolis", "48"],
+    ["4205431", "Formosa do Sul", "49"], ["4205456", "Forquilhinha", "48"], ["4205506", "Fraiburgo", "49"],
+    ["4205555", "Frei Rogério", "49"], ["4205605", "Galvão", "49"], ["4205704", "Garopaba", "48"],
+    ["4205803", "Garuva", "47"], ["4205902", "Gaspar", "47"], ["4206009", "Governador Celso Ramos", "48"],
+    ["4206108", "Grão Pará", "48"], ["4206207", "Gravatal", "48"], ["4206306", "Guabiruba", "47"],
+    ["4206405", "Guaraciaba", "49"], ["4206504", "Guaramirim", "47"], ["4206603", "Guarujá do Sul", "49"],
+    ["4206652", "Guatambú", "49"], ["4206702", "Herval d'Oeste", "49"], ["4206751", "Ibiam", "49"],
+    ["4206801", "Ibicaré", "49"], ["4206900", "Ibirama", "47"], ["4207007", "Içara", "48"], ["4207106", "Ilhota", "47"],
+    ["4207205", "Imaruí", "48"], ["4207304", "Imbituba", "48"], ["4207403", "Imbuia", "47"],
+    ["4207502", "Indaial", "47"], ["4207577", "Iomerê", "49"], ["4207601", "Ipira", "49"],
+    ["4207650", "Iporã do Oeste", "49"], ["4207684", "Ipuaçu", "49"], ["4207700", "Ipumirim", "49"],
+    ["4207759", "Iraceminha", "49"], ["4207809", "Irani", "49"], ["4207858", "Irati", "49"],
+    ["4207908", "Irineópolis", "47"], ["4208005", "Itá", "49"], ["4208104", "Itaiópolis", "47"],
+    ["4208203", "Itajaí", "47"], ["4208302", "Itapema", "47"], ["4208401", "Itapiranga", "49"],
+    ["4208450", "Itapoá", "47"], ["4208500", "Ituporanga", "47"], ["4208609", "Jaborá", "49"],
+    ["4208708", "Jacinto Machado", "48"], ["4208807", "Jaguaruna", "48"], ["4208906", "Jaraguá do Sul", "47"],
+    ["4208955", "Jardinópolis", "49"], ["4209003", "Joaçaba", "49"], ["4209102", "Joinville", "47"],
+    ["4209151", "José Boiteux", "47"], ["4209177", "Jupiá", "49"], ["4209201", "Lacerdópolis", "49"],
+    ["4209300", "Lages", "49"], ["4209409", "Laguna", "48"], ["4209458", "Lajeado Grande", "49"],
+    ["4209508", "Laurentino", "47"], ["4209607", "Lauro Muller", "48"], ["4209706", "Lebon Régis", "49"],
+    ["4209805", "Leoberto Leal", "48"], ["4209854", "Lindóia do Sul", "49"], ["4209904", "Lontras", "47"],
+    ["4210001", "Luiz Alves", "47"], ["4210035", "Luzerna", "49"], ["4210050", "Macieira", "49"],
+    ["4210100", "Mafra", "47"], ["4210209", "Major Gercino", "48"], ["4210308", "Major Vieira", "47"],
+    ["4210407", "Maracajá", "48"], ["4210506", "Maravilha", "49"], ["4210555", "Marema", "49"],
+    ["4210605", "Massaranduba", "47"], ["4210704", "Matos Costa", "49"], ["4210803", "Meleiro", "48"],
+    ["4210852", "Mirim Doce", "47"], ["4210902", "Modelo", "49"], ["4211009", "Mondaí", "49"],
+    ["4211058", "Monte Carlo", "49"], ["4211108", "Monte Castelo", "47"], ["4211207", "Morro da Fumaça", "48"],
+    ["4211256", "Morro Grande", "48"], ["4211306", "Navegantes", "47"], ["4211405", "Nova Erechim", "49"],
+    ["4211454", "Nova Itaberaba", "49"], ["4211504", "Nova Trento", "48"], ["4211603", "Nova Veneza", "48"],
+    ["4211652", "Novo Horizonte", "49"], ["4211702", "Orleans", "48"], ["4211751", "Otacílio Costa", "49"],
+    ["4211801", "Ouro", "49"], ["4211850", "Ouro Verde", "49"], ["4211876", "Paial", "49"], ["4211892", "Painel", "49"],
+    ["4211900", "Palhoça", "48"], ["4212007", "Palma Sola", "49"], ["4212056", "Palmeira", "49"],
+    ["4212106", "Palmitos", "49"], ["4212205", "Papanduva", "47"], ["4212239", "Paraíso", "49"],
+    ["4212254", "Passo de Torres", "48"], ["4212270", "Passos Maia", "49"], ["4212304", "Paulo Lopes", "48"],
+    ["4212403", "Pedras Grandes", "48"], ["4212502", "Penha", "47"], ["4212601", "Peritiba", "49"],
+    ["4212650", "Pescaria Brava", "48"], ["4212700", "Petrolândia", "47"], ["4212809", "Balneário Piçarras", "47"],
+    ["4212908", "Pinhalzinho", "49"], ["4213005", "Pinheiro Preto", "49"], ["4213104", "Piratuba", "49"],
+    ["4213153", "Planalto Alegre", "49"], ["4213203", "Pomerode", "47"], ["4213302", "Ponte Alta", "49"],
+    ["4213351", "Ponte Alta do Norte", "49"], ["4213401", "Ponte Serrada", "49"], ["4213500", "Porto Belo", "47"],
+    ["4213609", "Porto União", "42"], ["4213708", "Pouso Redondo", "47"], ["4213807", "Praia Grande", "48"],
+    ["4213906", "Presidente Castello Branco", "49"], ["4214003", "Presidente Getúlio", "47"],
+    ["4214102", "Presidente Nereu", "47"], ["4214151", "Princesa", "49"], ["4214201", "Quilombo", "49"],
+    ["4214300", "Rancho Queimado", "48"], ["4214409", "Rio das Antas", "49"], ["4214508", "Rio do Campo", "47"],
+    ["4214607", "Rio do Oeste", "47"], ["4214706", "Rio dos Cedros", "47"], ["4214805", "Rio do Sul", "47"],
+    ["4214904", "Rio Fortuna", "48"], ["4215000", "Rio Negrinho", "47"], ["4215059", "Rio Rufino", "49"],
+    ["4215075", "Riqueza", "49"], ["4215109", "Rodeio", "47"], ["4215208", "Romelândia", "49"],
+    ["4215307", "Salete", "47"], ["4215356", "Saltinho", "49"], ["4215406", "Salto Veloso", "49"],
+    ["4215455", "Sangão", "48"], ["4215505", "Santa Cecília", "49"], ["4215554", "Santa Helena", "49"],
+    ["4215604", "Santa Rosa de Lima", "48"], ["4215653", "Santa Rosa do Sul", "48"],
+    ["4215679", "Santa Terezinha", "47"], ["4215687", "Santa Terezinha do Progresso", "49"],
+    ["4215695", "Santiago do Sul", "49"], ["4215703", "Santo Amaro da Imperatriz", "48"],
+    ["4215752", "São Bernardino", "49"], ["4215802", "São Bento do Sul", "47"], ["4215901", "São Bonifácio", "48"],
+    ["4216008", "São Carlos", "49"], ["4216057", "São Cristovão do Sul", "49"], ["4216107", "São Domingos", "49"],
+    ["4216206", "São Francisco do Sul", "47"], ["4216255", "São João do Oeste", "49"],
+    ["4216305", "São João Batista", "48"], ["4216354", "São João do Itaperiú", "47"],
+    ["4216404", "São João do Sul", "48"], ["4216503", "São Joaquim", "49"], ["4216602", "São José", "48"],
+    ["4216701", "São José do Cedro", "49"], ["4216800", "São José do Cerrito", "49"],
+    ["4216909", "São Lourenço do Oeste", "49"], ["4217006", "São Ludgero", "48"], ["4217105", "São Martinho", "48"],
+    ["4217154", "São Miguel da Boa Vista", "49"], ["4217204", "São Miguel do Oeste", "49"],
+    ["4217253", "São Pedro de Alcântara", "48"], ["4217303", "Saudades", "49"], ["4217402", "Schroeder", "47"],
+    ["4217501", "Seara", "49"], ["4217550", "Serra Alta", "49"], ["4217600", "Siderópolis", "48"],
+    ["4217709", "Sombrio", "48"], ["4217758", "Sul Brasil", "49"], ["4217808", "Taió", "47"],
+    ["4217907", "Tangará", "49"], ["4217956", "Tigrinhos", "49"], ["4218004", "Tijucas", "48"],
+    ["4218103", "Timbé do Sul", "48"], ["4218202", "Timbó", "47"], ["4218251", "Timbó Grande", "49"],
+    ["4218301", "Três Barras", "47"], ["4218350", "Treviso", "48"], ["4218400", "Treze de Maio", "48"],
+    ["4218509", "Treze Tílias", "49"], ["4218608", "Trombudo Central", "47"], ["4218707", "Tubarão", "48"],
+    ["4218756", "Tunápolis", "49"], ["4218806", "Turvo", "48"], ["4218855", "União do Oeste", "49"],
+    ["4218905", "Urubici", "49"], ["4218954", "Urupema", "49"], ["4219002", "Urussanga", "48"],
+    ["4219101", "Vargeão", "49"], ["4219150", "Vargem", "49"], ["4219176", "Vargem Bonita", "49"],
+    ["4219200", "Vidal Ramos", "47"], ["4219309", "Videira", "49"], ["4219358", "Vitor Meireles", "47"],
+    ["4219408", "Witmarsum", "47"], ["4219507", "Xanxerê", "49"], ["4219606", "Xavantina", "49"],
+    ["4219705", "Xaxim", "49"], ["4219853", "Zortéa", "49"], ["4220000", "Balneário Rincão", "48"],
+  ],
+  RS: [
+    ["4300034", "Aceguá", "53"], ["4300059", "Água Santa", "54"], ["4300109", "Agudo", "55"],
+    ["4300208", "Ajuricaba", "55"], ["4300307", "Alecrim", "55"], ["4300406", "Alegrete", "55"],
+    ["4300455", "Alegria", "55"], ["4300471", "Almirante Tamandaré do Sul", "54"], ["4300505", "Alpestre", "55"],
+    ["4300554", "Alto Alegre", "54"], ["4300570", "Alto Feliz", "51"], ["4300604", "Alvorada", "51"],
+    ["4300638", "Amaral Ferrador", "51"], ["4300646", "Ametista do Sul", "55"], ["4300661", "André da Rocha", "54"],
+    ["4300703", "Anta Gorda", "51"], ["4300802", "Antônio Prado", "54"], ["4300851", "Arambaré", "51"],
+    ["4300877", "Araricá", "51"], ["4300901", "Aratiba", "54"], ["4301008", "Arroio do Meio", "51"],
+    ["4301057", "Arroio do Sal", "51"], ["4301073", "Arroio do Padre", "53"], ["4301107", "Arroio dos Ratos", "51"],
+    ["4301206", "Arroio do Tigre", "51"], ["4301305", "Arroio Grande", "53"], ["4301404", "Arvorezinha", "51"],
+    ["4301503", "Augusto Pestana", "55"], ["4301552", "Áurea", "54"], ["4301602", "Bagé", "53"],
+    ["4301636", "Balneário Pinhal", "51"], ["4301651", "Barão", "51"], ["4301701", "Barão de Cotegipe", "54"],
+    ["4301750", "Barão do Triunfo", "51"], ["4301800", "Barracão", "54"], ["4301859", "Barra do Guarita", "55"],
+    ["4301875", "Barra do Quaraí", "55"], ["4301909", "Barra do Ribeiro", "51"], ["4301925", "Barra do Rio Azul", "54"],
+    ["4301958", "Barra Funda", "54"], ["4302006", "Barros Cassal", "54"], ["4302055", "Benjamin Constant do Sul", "54"],
+    ["4302105", "Bento Gonçalves", "54"], ["4302154", "Boa Vista das Missões", "55"],
+    ["4302204", "Boa Vista do Buricá", "55"], ["4302220", "Boa Vista do Cadeado", "55"],
+    ["4302238", "Boa Vista do Incra", "55"], ["4302253", "Boa Vista do Sul", "54"], ["4302303", "Bom Jesus", "54"],
+    ["4302352", "Bom Princípio", "51"], ["4302378", "Bom Progresso", "55"], ["4302402", "Bom Retiro do Sul", "51"],
+    ["4302451", "Boqueirão do Leão", "51"], ["4302501", "Bossoroca", "55"], ["4302584", "Bozano", "55"],
+    ["4302600", "Braga", "55"], ["4302659", "Brochier", "51"], ["4302709", "Butiá", "51"],
+    ["4302808", "Caçapava do Sul", "55"], ["4302907", "Cacequi", "55"], ["4303004", "Cachoeira do Sul", "51"],
+    ["4303103", "Cachoeirinha", "51"], ["4303202", "Cacique Doble", "54"], ["4303301", "Caibaté", "55"],
+    ["4303400", "Caiçara", "55"], ["4303509", "Camaquã", "51"], ["4303558", "Camargo", "54"],
+    ["4303608", "Cambará do Sul", "54"], ["4303673", "Campestre da Serra", "54"],
+    ["4303707", "Campina das Missões", "55"], ["4303806", "Campinas do Sul", "54"], ["4303905", "Campo Bom", "51"],
+    ["4304002", "Campo Novo", "55"], ["4304101", "Campos Borges", "54"], ["4304200", "Candelária", "51"],
+    ["4304309", "Cândido Godói", "55"], ["4304358", "Candiota", "53"], ["4304408", "Canela", "54"],
+    ["4304507", "Canguçu", "53"], ["4304606", "Canoas", "51"], ["4304614", "Canudos do Vale", "51"],
+    ["4304622", "Capão Bonito do Sul", "54"], ["4304630", "Capão da Canoa", "51"], ["4304655", "Capão do Cipó", "55"],
+    ["4304663", "Capão do Leão", "53"], ["4304671", "Capivari do Sul", "51"], ["4304689", "Capela de Santana", "51"],
+    ["4304697", "Capitão", "51"], ["4304705", "Carazinho", "54"], ["4304713", "Caraá", "51"],
+    ["4304804", "Carlos Barbosa", "54"], ["4304853", "Carlos Gomes", "54"], ["4304903", "Casca", "54"],
+    ["4304952", "Caseiros", "54"], ["4305009", "Catuípe", "55"], ["4305108", "Caxias do Sul", "54"],
+    ["4305116", "Centenário", "54"], ["4305124", "Cerrito", "53"], ["4305132", "Cerro Branco", "51"],
+    ["4305157", "Cerro Grande", "55"], ["4305173", "Cerro Grande do Sul", "51"], ["4305207", "Cerro Largo", "55"],
+    ["4305306", "Chapada", "54"], ["4305355", "Charqueadas", "51"], ["4305371", "Charrua", "54"],
+    ["4305405", "Chiapetta", "55"], ["4305439", "Chuí", "53"], ["4305447", "Chuvisca", "51"],
+    ["4305454", "Cidreira", "51"], ["4305504", "Ciríaco", "54"], ["4305587", "Colinas", "51"],
+    ["4305603", "Colorado", "54"], ["4305702", "Condor", "55"], ["4305801", "Constantina", "54"],
+    ["4305835", "Coqueiro Baixo", "51"], ["4305850", "Coqueiros do Sul", "54"], ["4305871", "Coronel Barros", "55"],
+    ["4305900", "Coronel Bicaco", "55"], ["4305934", "Coronel Pilar", "54"], ["4305959", "Cotiporã", "54"],
+    ["4305975", "Coxilha", "54"], ["4306007", "Crissiumal", "55"], ["4306056", "Cristal", "51"],
+    ["4306072", "Cristal do Sul", "55"], ["4306106", "Cruz Alta", "55"], ["4306130", "Cruzaltense", "54"],
+    ["4306205", "Cruzeiro do Sul", "51"], ["4306304", "David Canabarro", "54"], ["4306320", "Derrubadas", "55"],
+    ["4306353", "Dezesseis de Novembro", "55"], ["4306379", "Dilermando de Aguiar", "55"],
+    ["4306403", "Dois Irmãos", "51"], ["4306429", "Dois Irmãos das Missões", "55"], ["4306452", "Dois Lajeados", "54"],
+    ["4306502", "Dom Feliciano", "51"], ["4306551", "Dom Pedro de Alcântara", "51"], ["4306601", "Dom Pedrito", "53"],
+    ["4306700", "Dona Francisca", "55"], ["4306734", "Doutor Maurício Cardoso", "55"],
+    ["4306759", "Doutor Ricardo", "51"], ["4306767", "Eldorado do Sul", "51"], ["4306809", "Encantado", "51"],
+    ["4306908", "Encruzilhada do Sul", "51"], ["4306924", "Engenho Velho", "54"], ["4306932", "Entre-Ijuís", "55"],
+    ["4306957", "Entre Rios do Sul", "54"], ["4306973", "Erebango", "54"], ["4307005", "Erechim", "54"],
+    ["4307054", "Ernestina", "54"], ["4307104", "Herval", "53"], ["4307203", "Erval Grande", "54"],
+    ["4307302", "Erval Seco", "55"], ["4307401", "Esmeralda", "54"], ["4307450", "Esperança do Sul", "55"],
+    ["4307500", "Espumoso", "54"], ["4307559", "Estação", "54"], ["4307609", "Estância Velha", "51"],
+    ["4307708", "Esteio", "51"], ["4307807", "Estrela", "51"], ["4307815", "Estrela Velha", "51"],
+    ["4307831", "Eugênio de Castro", "55"], ["4307864", "Fagundes Varela", "54"], ["4307906", "Farroupilha", "54"],
+    ["4308003", "Faxinal do Soturno", "55"], ["4308052", "Faxinalzinho", "54"], ["4308078", "Fazenda Vilanova", "51"],
+    ["4308102", "Feliz", "51"], ["4308201", "Flores da Cunha", "54"], ["4308250", "Floriano Peixoto", "54"],
+    ["4308300", "Fontoura Xavier", "54"], ["4308409", "Formigueiro", "55"], ["4308433", "Forquetinha", "51"],
+    ["4308458", "Fortaleza dos Valos", "55"], ["4308508", "Frederico Westphalen", "55"], ["4308607", "Garibaldi", "54"],
+    ["4308656", "Garruchos", "55"], ["4308706", "Gaurama", "54"], ["4308805", "General Câmara", "51"],
+    ["4308854", "Gentil", "54"], ["4308904", "Getúlio Vargas", "54"], ["4309001", "Giruá", "55"],
+    ["4309050", "Glorinha", "51"], ["4309100", "Gramado", "54"], ["4309126", "Gramado dos Loureiros", "54"],
+    ["4309159", "Gramado Xavier", "51"], ["4309209", "Gravataí", "51"], ["4309258", "Guabiju", "54"],
+    ["4309308", "Guaíba", "51"], ["4309407", "Guaporé", "54"], ["4309506", "Guarani das Missões", "55"],
+    ["4309555", "Harmonia", "51"], ["4309571", "Herveiras", "51"], ["4309605", "Horizontina", "55"],
+    ["4309654", "Hulha Negra", "53"], ["4309704", "Humaitá", "55"], ["4309753", "Ibarama", "51"],
+    ["4309803", "Ibiaçá", "54"], ["4309902", "Ibiraiaras", "54"], ["4309951", "Ibirapuitã", "54"],
+    ["4310009", "Ibirubá", "54"], ["4310108", "Igrejinha", "51"], ["4310207", "Ijuí", "55"],
+    ["4310306", "Ilópolis", "51"], ["4310330", "Imbé", "51"], ["4310363", "Imigrante", "51"],
+    ["4310405", "Independência", "55"], ["4310413", "Inhacorá", "55"], ["4310439", "Ipê", "54"],
+    ["4310462", "Ipiranga do Sul", "54"], ["4310504", "Iraí", "55"], ["4310538", "Itaara", "55"],
+    ["4310553", "Itacurubi", "55"], ["4310579", "Itapuca", "51"], ["4310603", "Itaqui", "55"],
+    ["4310652", "Itati", "51"], ["4310702", "Itatiba do Sul", "54"], ["4310751", "Ivorá", "55"],
+    ["4310801", "Ivoti", "51"], ["4310850", "Jaboticaba", "55"], ["4310876", "Jacuizinho", "55"],
+    ["4310900", "Jacutinga", "54"], ["4311007", "Jaguarão", "53"], ["4311106", "Jaguari", "55"],
+    ["4311122", "Jaquirana", "54"], ["4311130", "Jari", "55"], ["4311155", "Jóia", "55"],
+    ["4311205", "Júlio de Castilhos", "55"], ["4311239", "Lagoa Bonita do Sul", "51"], ["4311254", "Lagoão", "51"],
+    ["4311270", "Lagoa dos Três Cantos", "54"], ["4311304", "Lagoa Vermelha", "54"], ["4311403", "Lajeado", "51"],
+    ["4311429", "Lajeado do Bugre", "55"], ["4311502", "Lavras do Sul", "55"], ["4311601", "Liberato Salzano", "55"],
+    ["4311627", "Lindolfo Collor", "51"], ["4311643", "Linha Nova", "51"], ["4311700", "Machadinho", "54"],
+    ["4311718", "Maçambará", "55"], ["4311734", "Mampituba", "51"], ["4311759", "Manoel Viana", "55"],
+    ["4311775", "Maquiné", "51"], ["4311791", "Maratá", "51"], ["4311809", "Marau", "54"],
+    ["4311908", "Marcelino Ramos", "54"], ["4311981", "Mariana Pimentel", "51"], ["4312005", "Mariano Moro", "54"],
+    ["4312054", "Marques de Souza", "51"], ["4312104", "Mata", "55"], ["4312138", "Mato Castelhano", "54"],
+    ["4312153", "Mato Leitão", "51"], ["4312179", "Mato Queimado", "55"], ["4312203", "Maximiliano de Almeida", "54"],
+    ["4312252", "Minas do Leão", "51"], ["4312302", "Miraguaí", "55"], ["4312351", "Montauri", "54"],
+    ["4312377", "Monte Alegre dos Campos", "54"], ["4312385", "Monte Belo do Sul", "54"],
+    ["4312401", "Montenegro", "51"], ["4312427", "Mormaço", "54"], ["4312443", "Morrinhos do Sul", "51"],
+    ["4312450", "Morro Redondo", "53"], ["4312476", "Morro Reuter", "51"], ["4312500", "Mostardas", "51"],
+    ["4312609", "Muçum", "51"], ["4312617", "Muitos Capões", "54"], ["4312625", "Muliterno", "54"],
+    ["4312658", "Não-Me-Toque", "54"], ["4312674", "Nicolau Vergueiro", "54"], ["4312708", "Nonoai", "54"],
+    ["4312757", "Nova Alvorada", "54"], ["4312807", "Nova Araçá", "54"], ["4312906", "Nova Bassano", "54"],
+    ["4312955", "Nova Boa Vista", "54"], ["4313003", "Nova Bréscia", "51"], ["4313011", "Nova Candelária", "55"],
+    ["4313037", "Nova Esperança do Sul", "55"], ["4313060", "Nova Hartz", "51"], ["4313086", "Nova Pádua", "54"],
+    ["4313102", "Nova Palma", "55"], ["4313201", "Nova Petrópolis", "54"], ["4313300", "Nova Prata", "54"],
+    ["4313334", "Nova Ramada", "55"], ["4313359", "Nova Roma do Sul", "54"], ["4313375", "Nova Santa Rita", "51"],
+    ["4313391", "Novo Cabrais", "51"], ["4313409", "Novo Hamburgo", "51"], ["4313425", "Novo Machado", "55"],
+    ["4313441", "Novo Tiradentes", "55"], ["4313466", "Novo Xingu", "54"], ["4313490", "Novo Barreiro", "55"],
+    ["4313508", "Osório", "51"], ["4313607", "Paim Filho", "54"], ["4313656", "Palmares do Sul", "51"],
+    ["4313706", "Palmeira das Missões", "55"], ["4313805", "Palmitinho", "55"], ["4313904", "Panambi", "55"],
+    ["4313953", "Pantano Grande", "51"], ["4314001", "Paraí", "54"], ["4314027", "Paraíso do Sul", "55"],
+    ["4314035", "Pareci Novo", "51"], ["4314050", "Parobé", "51"], ["4314068", "Passa Sete", "51"],
+    ["4314076", "Passo do Sobrado", "51"], ["4314100", "Passo Fundo", "54"], ["4314134", "Paulo Bento", "54"],
+    ["4314159", "Paverama", "51"], ["4314175", "Pedras Altas", "53"], ["4314209", "Pedro Osório", "53"],
+    ["4314308", "Pejuçara", "55"], ["4314407", "Pelotas", "53"], ["4314423", "Picada Café", "54"],
+    ["4314456", "Pinhal", "55"], ["4314464", "Pinhal da Serra", "54"], ["4314472", "Pinhal Grande", "55"],
+    ["4314498", "Pinheirinho do Vale", "55"], ["4314506", "Pinheiro Machado", "53"],
+    ["4314548", "Pinto Bandeira", "54"], ["4314555", "Pirapó", "55"], ["4314605", "Piratini", "53"],
+    ["4314704", "Planalto", "55"], ["4314753", "Poço das Antas", "51"], ["4314779", "Pontão", "54"],
+    ["4314787", "Ponte Preta", "54"], ["4314803", "Portão", "51"], ["4314902", "Porto Alegre", "51"],
+    ["4315008", "Porto Lucena", "55"], ["4315057", "Porto Mauá", "55"], ["4315073", "Porto Vera Cruz", "55"],
+    ["4315107", "Porto Xavier", "55"], ["4315131", "Pouso Novo", "51"], ["4315149", "Presidente Lucena", "51"],
+    ["4315156", "Progresso", "51"], ["4315172", "Protásio Alves", "54"], ["4315206", "Putinga", "51"],
+    ["4315305", "Quaraí", "55"], ["4315313", "Quatro Irmãos", "54"], ["4315321", "Quevedos", "55"],
+    ["4315354", "Quinze de Novembro", "54"], ["4315404", "Redentora", "55"], ["4315453", "Relvado", "51"],
+    ["4315503", "Restinga Sêca", "55"], ["4315552", "Rio dos Índios", "54"], ["4315602", "Rio Grande", "53"],
+    ["4315701", "Rio Pardo", "51"], ["4315750", "Riozinho", "51"], ["4315800", "Roca Sales", "51"],
+    ["4315909", "Rodeio Bonito", "55"], ["4315958", "Rolador", "55"], ["4316006", "Rolante", "51"],
+    ["4316105", "Ronda Alta", "54"], ["4316204", "Rondinha", "54"], ["4316303", "Roque Gonzales", "55"],
+    ["4316402", "Rosário do Sul", "55"], ["4316428", "Sagrada Família", "55"], ["4316436", "Saldanha Marinho", "55"],
+    ["4316451", "Salto do Jacuí", "55"], ["4316477", "Salvador das Missões", "55"],
+    ["4316501", "Salvador do Sul", "51"], ["4316600", "Sananduva", "54"], ["4316709", "Santa Bárbara do Sul", "55"],
+    ["4316733", "Santa Cecília do Sul", "54"], ["4316758", "Santa Clara do Sul", "51"],
+    ["4316808", "Santa Cruz do Sul", "51"], ["4316907", "Santa Maria", "55"],
+    ["4316956", "Santa Maria do Herval", "51"], ["4316972", "Santa Margarida do Sul", "55"],
+    ["4317004", "Santana da Boa Vista", "53"], ["4317103", "Sant'Ana do Livramento", "55"],
+    ["4317202", "Santa Rosa", "55"], ["4317251", "Santa Tereza", "54"], ["4317301", "Santa Vitória do Palmar", "53"],
+    ["4317400", "Santiago", "55"], ["4317509", "Santo Ângelo", "55"], ["4317558", "Santo Antônio do Palma", "54"],
+    ["4317608", "Santo Antônio da Patrulha", "51"], ["4317707", "Santo Antônio das Missões", "55"],
+    ["4317756", "Santo Antônio do Planalto", "54"], ["4317806", "Santo Augusto", "55"],
+    ["4317905", "Santo Cristo", "55"], ["4317954", "Santo Expedito do Sul", "54"], ["4318002", "São Borja", "55"],
+    ["4318051", "São Domingos do Sul", "54"], ["4318101", "São Francisco de Assis", "55"],
+    ["4318200", "São Francisco de Paula", "54"], ["4318309", "São Gabriel", "55"], ["4318408", "São Jerônimo", "51"],
+    ["4318424", "São João da Urtiga", "54"], ["4318432", "São João do Polêsine", "55"], ["4318440", "São Jorge", "54"],
+    ["4318457", "São José das Missões", "55"], ["4318465", "São José do Herval", "54"],
+    ["4318481", "São José do Hortêncio", "51"], ["4318499", "São José do Inhacorá", "55"],
+    ["4318507", "São José do Norte", "53"], ["4318606", "São José do Ouro", "54"], ["4318614", "São José do Sul", "51"],
+    ["4318622", "São José dos Ausentes", "54"], ["4318705", "São Leopoldo", "51"],
+    ["4318804", "São Lourenço do Sul", "53"], ["4318903", "São Luiz Gonzaga", "55"], ["4319000", "São Marcos", "54"],
+    ["4319109", "São Martinho", "55"], ["4319125", "São Martinho da Serra", "55"],
+    ["4319158", "São Miguel das Missões", "55"], ["4319208", "São Nicolau", "55"],
+    ["4319307", "São Paulo das Missões", "55"], ["4319356", "São Pedro da Serra", "51"],
+    ["4319364", "São Pedro das Missões", "55"], ["4319372", "São Pedro do Butiá", "55"],
+    ["4319406", "São Pedro do Sul", "55"], ["4319505", "São Sebastião do Caí", "51"], ["4319604", "São Sepé", "55"],
+    ["4319703", "São Valentim", "54"], ["4319711", "São Valentim do Sul", "54"],
+    ["4319737", "São Valério do Sul", "55"], ["4319752", "São Vendelino", "51"],
+    ["4319802", "São Vicente do Sul", "55"], ["4319901", "Sapiranga", "51"], ["4320008", "Sapucaia do Sul", "51"],
+    ["4320107", "Sarandi", "54"], ["4320206", "Seberi", "55"], ["4320230", "Sede Nova", "55"],
+    ["4320263", "Segredo", "51"], ["4320305", "Selbach", "54"], ["4320321", "Senador Salgado Filho", "55"],
+    ["4320354", "Sentinela do Sul", "51"], ["4320404", "Serafina Corrêa", "54"], ["4320453", "Sério", "51"],
+    ["4320503", "Sertão", "54"], ["4320552", "Sertão Santana", "51"], ["4320578", "Sete de Setembro", "55"],
+    ["4320602", "Severiano de Almeida", "54"], ["4320651", "Silveira Martins", "55"], ["4320677", "Sinimbu", "51"],
+    ["4320701", "Sobradinho", "51"], ["4320800", "Soledade", "54"], ["4320859", "Tabaí", "51"],
+    ["4320909", "Tapejara", "54"], ["4321006", "Tapera", "54"], ["4321105", "Tapes", "51"],
+    ["4321204", "Taquara", "51"], ["4321303", "Taquari", "51"], ["4321329", "Taquaruçu do Sul", "55"],
+    ["4321352", "Tavares", "51"], ["4321402", "Tenente Portela", "55"], ["4321436", "Terra de Areia", "51"],
+    ["4321451", "Teutônia", "51"], ["4321469", "Tio Hugo", "54"], ["4321477", "Tiradentes do Sul", "55"],
+    ["4321493", "Toropi", "55"], ["4321501", "Torres", "51"], ["4321600", "Tramandaí", "51"],
+    ["4321626", "Travesseiro", "51"], ["4321634", "Três Arroios", "54"], ["4321667", "Três Cachoeiras", "51"],
+    ["4321709", "Três Coroas", "51"], ["4321808", "Três de Maio", "55"], ["4321832", "Três Forquilhas", "51"],
+    ["4321857", "Três Palmeiras", "54"], ["4321907", "Três Passos", "55"], ["4321956", "Trindade do Sul", "54"],
+    ["4322004", "Triunfo", "51"], ["4322103", "Tucunduva", "55"], ["4322152", "Tunas", "51"],
+    ["4322186", "Tupanci do Sul", "54"], ["4322202", "Tupanciretã", "55"], ["4322251", "Tupandi", "51"],
+    ["4322301", "Tuparendi", "55"], ["4322327", "Turuçu", "53"], ["4322343", "Ubiretama", "55"],
+    ["4322350", "União da Serra", "54"], ["4322376", "Unistalda", "55"], ["4322400", "Uruguaiana", "55"],
+    ["4322509", "Vacaria", "54"], ["4322525", "Vale Verde", "51"], ["4322533", "Vale do Sol", "51"],
+    ["4322541", "Vale Real", "51"], ["4322558", "Vanini", "54"], ["4322608", "Venâncio Aires", "51"],
+    ["4322707", "Vera Cruz", "51"], ["4322806", "Veranópolis", "54"], ["4322855", "Vespasiano Corrêa", "51"],
+    ["4322905", "Viadutos", "54"], ["4323002", "Viamão", "51"], ["4323101", "Vicente Dutra", "55"],
+    ["4323200", "Victor Graeff", "54"], ["4323309", "Vila Flores", "54"], ["4323358", "Vila Lângaro", "54"],
+    ["4323408", "Vila Maria", "54"], ["4323457", "Vila Nova do Sul", "55"], ["4323507", "Vista Alegre", "55"],
+    ["4323606", "Vista Alegre do Prata", "54"], ["4323705", "Vista Gaúcha", "55"],
+    ["4323754", "Vitória das Missões", "55"], ["4323770", "Westfália", "51"], ["4323804", "Xangri-lá", "51"],
+  ],
+  MS: [
+    ["5000203", "Água Clara", "67"], ["5000252", "Alcinópolis", "67"], ["5000609", "Amambai", "67"],
+    ["5000708", "Anastácio", "67"], ["5000807", "Anaurilândia", "67"], ["5000856", "Angélica", "67"],
+    ["5000906", "Antônio João", "67"], ["5001003", "Aparecida do Taboado", "67"], ["5001102", "Aquidauana", "67"],
+    ["5001243", "Aral Moreira", "67"], ["5001508", "Bandeirantes", "67"], ["5001904", "Bataguassu", "67"],
+    ["5002001", "Batayporã", "67"], ["5002100", "Bela Vista", "67"], ["5002159", "Bodoquena", "67"],
+    ["5002209", "Bonito", "67"], ["5002308", "Brasilândia", "67"], ["5002407", "Caarapó", "67"],
+    ["5002605", "Camapuã", "67"], ["5002704", "Campo Grande", "67"], ["5002803", "Caracol", "67"],
+    ["5002902", "Cassilândia", "67"], ["5002951", "Chapadão do Sul", "67"], ["5003108", "Corguinho", "67"],
+    ["5003157", "Coronel Sapucaia", "67"], ["5003207", "Corumbá", "67"], ["5003256", "Costa Rica", "67"],
+    ["5003306", "Coxim", "67"], ["5003454", "Deodápolis", "67"], ["5003488", "Dois Irmãos do Buriti", "67"],
+    ["5003504", "Douradina", "67"], ["5003702", "Dourados", "67"], ["5003751", "Eldorado", "67"],
+    ["5003801", "Fátima do Sul", "67"], ["5003900", "Figueirão", "67"], ["5004007", "Glória de Dourados", "67"],
+    ["5004106", "Guia Lopes da Laguna", "67"], ["5004304", "Iguatemi", "67"], ["5004403", "Inocência", "67"],
+    ["5004502", "Itaporã", "67"], ["5004601", "Itaquiraí", "67"], ["5004700", "Ivinhema", "67"],
+    ["5004809", "Japorã", "67"], ["5004908", "Jaraguari", "67"], ["5005004", "Jardim", "67"],
+    ["5005103", "Jateí", "67"], ["5005152", "Juti", "67"], ["5005202", "Ladário", "67"],
+    ["5005251", "Laguna Carapã", "67"], ["5005400", "Maracaju", "67"], ["5005608", "Miranda", "67"],
+    ["5005681", "Mundo Novo", "67"], ["5005707", "Naviraí", "67"], ["5005806", "Nioaque", "67"],
+    ["5006002", "Nova Alvorada do Sul", "67"], ["5006200", "Nova Andradina", "67"],
+    ["5006259", "Novo Horizonte do Sul", "67"], ["5006275", "Paraíso das Águas", "67"], ["5006309", "Paranaíba", "67"],
+    ["5006358", "Paranhos", "67"], ["5006408", "Pedro Gomes", "67"], ["5006606", "Ponta Porã", "67"],
+    ["5006903", "Porto Murtinho", "67"], ["5007109", "Ribas do Rio Pardo", "67"], ["5007208", "Rio Brilhante", "67"],
+    ["5007307", "Rio Negro", "67"], ["5007406", "Rio Verde de Mato Grosso", "67"], ["5007505", "Rochedo", "67"],
+    ["5007554", "Santa Rita do Pardo", "67"], ["5007695", "São Gabriel do Oeste", "67"],
+    ["5007703", "Sete Quedas", "67"], ["5007802", "Selvíria", "67"], ["5007901", "Sidrolândia", "67"],
+    ["5007935", "Sonora", "67"], ["5007950", "Tacuru", "67"], ["5007976", "Taquarussu", "67"],
+    ["5008008", "Terenos", "67"], ["5008305", "Três Lagoas", "67"], ["5008404", "Vicentina", "67"],
+  ],
+  MT: [
+    ["5100102", "Acorizal", "65"], ["5100201", "Água Boa", "66"], ["5100250", "Alta Floresta", "66"],
+    ["5100300", "Alto Araguaia", "66"], ["5100359", "Alto Boa Vista", "66"], ["5100409", "Alto Garças", "66"],
+    ["5100508", "Alto Paraguai", "65"], ["5100607", "Alto Taquari", "66"], ["5100805", "Apiacás", "66"],
+    ["5101001", "Araguaiana", "66"], ["5101209", "Araguainha", "66"], ["5101258", "Araputanga", "65"],
+    ["5101308", "Arenápolis", "65"], ["5101407", "Aripuanã", "66"], ["5101605", "Barão de Melgaço", "65"],
+    ["5101704", "Barra do Bugres", "65"], ["5101803", "Barra do Garças", "66"],
+    ["5101837", "Boa Esperança do Norte", "66"], ["5101852", "Bom Jesus do Araguaia", "66"],
+    ["5101902", "Brasnorte", "66"], ["5102504", "Cáceres", "65"], ["5102603", "Campinápolis", "66"],
+    ["5102637", "Campo Novo do Parecis", "65"], ["5102678", "Campo Verde", "66"], ["5102686", "Campos de Júlio", "65"],
+    ["5102694", "Canabrava do Norte", "66"], ["5102702", "Canarana", "66"], ["5102793", "Carlinda", "66"],
+    ["5102850", "Castanheira", "66"], ["5103007", "Chapada dos Guimarães", "65"], ["5103056", "Cláudia", "66"],
+    ["5103106", "Cocalinho", "66"], ["5103205", "Colíder", "66"], ["5103254", "Colniza", "66"],
+    ["5103304", "Comodoro", "65"], ["5103353", "Confresa", "66"], ["5103361", "Conquista D'Oeste", "65"],
+    ["5103379", "Cotriguaçu", "66"], ["5103403", "Cuiabá", "65"], ["5103437", "Curvelândia", "65"],
+    ["5103452", "Denise", "65"], ["5103502", "Diamantino", "65"], ["5103601", "Dom Aquino", "66"],
+    ["5103700", "Feliz Natal", "66"], ["5103809", "Figueirópolis D'Oeste", "65"], ["5103858", "Gaúcha do Norte", "66"],
+    ["5103908", "General Carneiro", "66"], ["5103957", "Glória D'Oeste", "65"], ["5104104", "Guarantã do Norte", "66"],
+    ["5104203", "Guiratinga", "66"], ["5104500", "Indiavaí", "65"], ["5104526", "Ipiranga do Norte", "65"],
+    ["5104542", "Itanhangá", "66"], ["5104559", "Itaúba", "66"], ["5104609", "Itiquira", "65"],
+    ["5104807", "Jaciara", "66"], ["5104906", "Jangada", "65"], ["5105002", "Jauru", "65"], ["5105101", "Juara", "66"],
+    ["5105150", "Juína", "66"], ["5105176", "Juruena", "66"], ["5105200", "Juscimeira", "66"],
+    ["5105234", "Lambari D'Oeste", "65"], ["5105259", "Lucas do Rio Verde", "65"], ["5105309", "Luciara", "66"],
+    ["5105507", "Vila Bela da Santíssima Trindade", "65"], ["5105580", "Marcelândia", "66"],
+    ["5105606", "Matupá", "66"], ["5105622", "Mirassol d'Oeste", "65"], ["5105903", "Nobres", "65"],
+    ["5106000", "Nortelândia", "65"], ["5106109", "Nossa Senhora do Livramento", "65"],
+    ["5106158", "Nova Bandeirantes", "66"], ["5106174", "Nova Nazaré", "66"], ["5106182", "Nova Lacerda", "65"],
+    ["5106190", "Nova Santa Helena", "66"], ["5106208", "Nova Brasilândia", "66"],
+    ["5106216", "Nova Canaã do Norte", "66"], ["5106224", "Nova Mutum", "65"], ["5106232", "Nova Olímpia", "65"],
+    ["5106240", "Nova Ubiratã", "66"], ["5106257", "Nova Xavantina", "66"], ["5106265", "Novo Mundo", "66"],
+    ["5106273", "Novo Horizonte do Norte", "66"], ["5106281", "Novo São Joaquim", "66"], ["5106299", "Paranaíta", "66"],
+    ["5106307", "Paranatinga", "66"], ["5106315", "Novo Santo Antônio", "66"], ["5106372", "Pedra Preta", "66"],
+    ["5106422", "Peixoto de Azevedo", "66"], ["5106455", "Planalto da Serra", "66"], ["5106505", "Poconé", "65"],
+    ["5106653", "Pontal do Araguaia", "66"], ["5106703", "Ponte Branca", "66"], ["5106752", "Pontes e Lacerda", "65"],
+    ["5106778", "Porto Alegre do Norte", "66"], ["5106802", "Porto dos Gaúchos", "66"],
+    ["5106828", "Porto Esperidião", "65"], ["5106851", "Porto Estrela", "65"], ["5107008", "Poxoréu", "66"],
+    ["5107040", "Primavera do Leste", "66"], ["5107065", "Querência", "66"],
+    ["5107107", "São José dos Quatro Marcos", "65"], ["5107156", "Reserva do Cabaçal", "65"],
+    ["5107180", "Ribeirão Cascalheira", "66"], ["5107198", "Ribeirãozinho", "66"], ["5107206", "Rio Branco", "65"],
+    ["5107248", "Santa Carmem", "66"], ["5107263", "Santo Afonso", "65"], ["5107297", "São José do Povo", "66"],
+    ["5107305", "São José do Rio Claro", "65"], ["5107354", "São José do Xingu", "66"],
+    ["5107404", "São Pedro da Cipa", "66"], ["5107578", "Rondolândia", "66"], ["5107602", "Rondonópolis", "66"],
+    ["5107701", "Rosário Oeste", "65"], ["5107743", "Santa Cruz do Xingu", "66"], ["5107750", "Salto do Céu", "65"],
+    ["5107768", "Santa Rita do Trivelato", "65"], ["5107776", "Santa Terezinha", "66"],
+    ["5107792", "Santo Antônio do Leste", "66"], ["5107800", "Santo Antônio do Leverger", "65"],
+    ["5107859", "São Félix do Araguaia", "66"], ["5107875", "Sapezal", "65"], ["5107883", "Serra Nova Dourada", "66"],
+    ["5107909", "Sinop", "66"], ["5107925", "Sorriso", "66"], ["5107941", "Tabaporã", "66"],
+    ["5107958", "Tangará da Serra", "65"], ["5108006", "Tapurah", "66"], ["5108055", "Terra Nova do Norte", "66"],
+    ["5108105", "Tesouro", "66"], ["5108204", "Torixoréu", "66"], ["5108303", "União do Sul", "66"],
+    ["5108352", "Vale de São Domingos", "65"], ["5108402", "Várzea Grande", "65"], ["5108501", "Vera", "66"],
+    ["5108600", "Vila Rica", "66"], ["5108808", "Nova Guarita", "66"], ["5108857", "Nova Marilândia", "65"],
+    ["5108907", "Nova Maringá", "66"], ["5108956", "Nova Monte Verde", "66"],
+  ],
+  GO: [
+    ["5200050", "Abadia de Goiás", "62"], ["5200100", "Abadiânia", "62"], ["5200134", "Acreúna", "64"],
+    ["5200159", "Adelândia", "64"], ["5200175", "Água Fria de Goiás", "62"], ["5200209", "Água Limpa", "64"],
+    ["5200258", "Águas Lindas de Goiás", "61"], ["5200308", "Alexânia", "62"], ["5200506", "Aloândia", "64"],
+    ["5200555", "Alto Horizonte", "62"], ["5200605", "Alto Paraíso de Goiás", "62"],
+    ["5200803", "Alvorada do Norte", "62"], ["5200829", "Amaralina", "62"], ["5200852", "Americano do Brasil", "64"],
+    ["5200902", "Amorinópolis", "64"], ["5201108", "Anápolis", "62"], ["5201207", "Anhanguera", "64"],
+    ["5201306", "Anicuns", "64"], ["5201405", "Aparecida de Goiânia", "62"], ["5201454", "Aparecida do Rio Doce", "64"],
+    ["5201504", "Aporé", "64"], ["5201603", "Araçu", "62"], ["5201702", "Aragarças", "64"],
+    ["5201801", "Aragoiânia", "62"], ["5202155", "Araguapaz", "62"], ["5202353", "Arenópolis", "64"],
+    ["5202502", "Aruanã", "62"], ["5202601", "Aurilândia", "64"], ["5202809", "Avelinópolis", "64"],
+    ["5203104", "Baliza", "64"], ["5203203", "Barro Alto", "62"], ["5203302", "Bela Vista de Goiás", "62"],
+    ["5203401", "Bom Jardim de Goiás", "64"], ["5203500", "Bom Jesus de Goiás", "64"],
+    ["5203559", "Bonfinópolis", "62"], ["5203575", "Bonópolis", "62"], ["5203609", "Brazabrantes", "62"],
+    ["5203807", "Britânia", "62"], ["5203906", "Buriti Alegre", "64"], ["5203939", "Buriti de Goiás", "64"],
+    ["5203962", "Buritinópolis", "62"], ["5204003", "Cabeceiras", "61"], ["5204102", "Cachoeira Alta", "64"],
+    ["5204201", "Cachoeira de Goiás", "64"], ["5204250", "Cachoeira Dourada", "64"], ["5204300", "Caçu", "64"],
+    ["5204409", "Caiapônia", "64"], ["5204508", "Caldas Novas", "64"], ["5204557", "Caldazinha", "62"],
+    ["5204607", "Campestre de Goiás", "62"], ["5204656", "Campinaçu", "62"], ["5204706", "Campinorte", "62"],
+    ["5204805", "Campo Alegre de Goiás", "64"], ["5204854", "Campo Limpo de Goiás", "62"],
+    ["5204904", "Campos Belos", "62"], ["5204953", "Campos Verdes", "62"], ["5205000", "Carmo do Rio Verde", "62"],
+    ["5205059", "Castelândia", "64"], ["5205109", "Catalão", "64"], ["5205208", "Caturaí", "62"],
+    ["5205307", "Cavalcante", "62"], ["5205406", "Ceres", "62"], ["5205455", "Cezarina", "64"],
+    ["5205471", "Chapadão do Céu", "64"], ["5205497", "Cidade Ocidental", "61"],
+    ["5205513", "Cocalzinho de Goiás", "62"], ["5205521", "Colinas do Sul", "62"], ["5205703", "Córrego do Ouro", "64"],
+    ["5205802", "Corumbá de Goiás", "62"], ["5205901", "Corumbaíba", "64"], ["5206206", "Cristalina", "61"],
+    ["5206305", "Cristianópolis", "64"], ["5206404", "Crixás", "62"], ["5206503", "Cromínia", "64"],
+    ["5206602", "Cumari", "64"], ["5206701", "Damianópolis", "62"], ["5206800", "Damolândia", "62"],
+    ["5206909", "Davinópolis", "64"], ["5207105", "Diorama", "64"], ["5207253", "Doverlândia", "64"],
+    ["5207352", "Edealina", "64"], ["5207402", "Edéia", "64"], ["5207501", "Estrela do Norte", "62"],
+    ["5207535", "Faina", "62"], ["5207600", "Fazenda Nova", "62"], ["5207808", "Firminópolis", "64"],
+    ["5207907", "Flores de Goiás", "62"], ["5208004", "Formosa", "61"], ["5208103", "Formoso", "62"],
+    ["5208152", "Gameleira de Goiás", "62"], ["5208301", "Divinópolis de Goiás", "62"],
+    ["5208400", "Goianápolis", "62"], ["5208509", "Goiandira", "64"], ["5208608", "Goianésia", "62"],
+    ["5208707", "Goiânia", "62"], ["5208806", "Goianira", "62"], ["5208905", "Goiás", "62"],
+    ["5209101", "Goiatuba", "64"], ["5209150", "Gouvelândia", "64"], ["5209200", "Guapó", "62"],
+    ["5209291", "Guaraíta", "62"], ["5209408", "Guarani de Goiás", "62"], ["5209457", "Guarinos", "62"],
+    ["5209606", "Heitoraí", "62"], ["5209705", "Hidrolândia", "62"], ["5209804", "Hidrolina", "62"],
+    ["5209903", "Iaciara", "62"], ["5209937", "Inaciolândia", "64"], ["5209952", "Indiara", "64"],
+    ["5210000", "Inhumas", "62"], ["5210109", "Ipameri", "64"], ["5210158", "Ipiranga de Goiás", "62"],
+    ["5210208", "Iporá", "64"], ["5210307", "Israelândia", "64"], ["5210406", "Itaberaí", "62"],
+    ["5210562", "Itaguari", "62"], ["5210604", "Itaguaru", "62"], ["5210802", "Itajá", "64"],
+    ["5210901", "Itapaci", "62"], ["5211008", "Itapirapuã", "62"], ["5211206", "Itapuranga", "62"],
+    ["5211305", "Itarumã", "64"], ["5211404", "Itauçu", "62"], ["5211503", "Itumbiara", "64"],
+    ["5211602", "Ivolândia", "64"], ["5211701", "Jandaia", "64"], ["5211800", "Jaraguá", "62"],
+    ["5211909", "Jataí", "64"], ["5212006", "Jaupaci", "64"], ["5212055", "Jesúpolis", "62"],
+    ["5212105", "Joviânia", "64"], ["5212204", "Jussara", "62"], ["5212253", "Lagoa Santa", "64"],
+    ["5212303", "Leopoldo de Bulhões", "62"], ["5212501", "Luziânia", "61"], ["5212600", "Mairipotaba", "64"],
+    ["5212709", "Mambaí", "62"], ["5212808", "Mara Rosa", "62"], ["5212907", "Marzagão", "64"],
+    ["5212956", "Matrinchã", "62"], ["5213004", "Maurilândia", "64"], ["5213053", "Mimoso de Goiás", "62"],
+    ["5213087", "Minaçu", "62"], ["5213103", "Mineiros", "64"], ["5213400", "Moiporá", "64"],
+    ["5213509", "Monte Alegre de Goiás", "62"], ["5213707", "Montes Claros de Goiás", "62"],
+    ["5213756", "Montividiu", "64"], ["5213772", "Montividiu do Norte", "62"], ["5213806", "Morrinhos", "64"],
+    ["5213855", "Morro Agudo de Goiás", "62"], ["5213905", "Mossâmedes", "64"], ["5214002", "Mozarlândia", "62"],
+    ["5214051", "Mundo Novo", "62"], ["5214101", "Mutunópolis", "62"], ["5214408", "Nazário", "64"],
+    ["5214507", "Nerópolis", "62"], ["5214606", "Niquelândia", "62"], ["5214705", "Nova América", "62"],
+    ["5214804", "Nova Aurora", "64"], ["5214838", "Nova Crixás", "62"], ["5214861", "Nova Glória", "62"],
+    ["5214879", "Nova Iguaçu de Goiás", "62"], ["5214903", "Nova Roma", "62"], ["5215009", "Nova Veneza", "62"],
+    ["5215207", "Novo Brasil", "62"], ["5215231", "Novo Gama", "61"], ["5215256", "Novo Planalto", "62"],
+    ["5215306", "Orizona", "64"], ["5215405", "Ouro Verde de Goiás", "62"], ["5215504", "Ouvidor", "64"],
+    ["5215603", "Padre Bernardo", "61"], ["5215652", "Palestina de Goiás", "64"],
+    ["5215702", "Palmeiras de Goiás", "64"], ["5215801", "Palmelo", "64"], ["5215900", "Palminópolis", "64"],
+    ["5216007", "Panamá", "64"], ["5216304", "Paranaiguara", "64"], ["5216403", "Paraúna", "64"],
+    ["5216452", "Perolândia", "64"], ["5216809", "Petrolina de Goiás", "62"], ["5216908", "Pilar de Goiás", "62"],
+    ["5217104", "Piracanjuba", "64"], ["5217203", "Piranhas", "64"], ["5217302", "Pirenópolis", "62"],
+    ["5217401", "Pires do Rio", "64"], ["5217609", "Planaltina", "61"], ["5217708", "Pontalina", "64"],
+    ["5218003", "Porangatu", "62"], ["5218052", "Porteirão", "64"], ["5218102", "Portelândia", "64"],
+    ["5218300", "Posse", "62"], ["5218391", "Professor Jamil", "64"], ["5218508", "Quirinópolis", "64"],
+    ["5218607", "Rialma", "62"], ["5218706", "Rianápolis", "62"], ["5218789", "Rio Quente", "64"],
+    ["5218805", "Rio Verde", "64"], ["5218904", "Rubiataba", "62"], ["5219001", "Sanclerlândia", "64"],
+    ["5219100", "Santa Bárbara de Goiás", "62"], ["5219209", "Santa Cruz de Goiás", "64"],
+    ["5219258", "Santa Fé de Goiás", "62"], ["5219308", "Santa Helena de Goiás", "64"],
+    ["5219357", "Santa Isabel", "62"], ["5219407", "Santa Rita do Araguaia", "64"],
+    ["5219456", "Santa Rita do Novo Destino", "62"], ["5219506", "Santa Rosa de Goiás", "62"],
+    ["5219605", "Santa Tereza de Goiás", "62"], ["5219704", "Santa Terezinha de Goiás", "62"],
+    ["5219712", "Santo Antônio da Barra", "64"], ["5219738", "Santo Antônio de Goiás", "62"],
+    ["5219753", "Santo Antônio do Descoberto", "61"], ["5219803", "São Domingos", "62"],
+    ["5219902", "São Francisco de Goiás", "62"], ["5220009", "São João d'Aliança", "62"],
+    ["5220058", "São João da Paraúna", "64"], ["5220108", "São Luís de Montes Belos", "64"],
+    ["5220157", "São Luiz do Norte", "62"], ["5220207", "São Miguel do Araguaia", "62"],
+    ["5220264", "São Miguel do Passa Quatro", "62"], ["5220280", "São Patrício", "62"], ["5220405", "São Simão", "64"],
+    ["5220454", "Senador Canedo", "62"], ["5220504", "Serranópolis", "64"], ["5220603", "Silvânia", "62"],
+    ["5220686", "Simolândia", "62"], ["5220702", "Sítio d'Abadia", "62"], ["5221007", "Taquaral de Goiás", "62"],
+    ["5221080", "Teresina de Goiás", "62"], ["5221197", "Terezópolis de Goiás", "62"],
+    ["5221304", "Três Ranchos", "64"], ["5221403", "Trindade", "62"], ["5221452", "Trombas", "62"],
+    ["5221502", "Turvânia", "64"], ["5221551", "Turvelândia", "64"], ["5221577", "Uirapuru", "62"],
+    ["5221601", "Uruaçu", "62"], ["5221700", "Uruana", "62"], ["5221809", "Urutaí", "64"],
+    ["5221858", "Valparaíso de Goiás", "61"], ["5221908", "Varjão", "62"], ["5222005", "Vianópolis", "62"],
+    ["5222054", "Vicentinópolis", "64"], ["5222203", "Vila Boa", "61"], ["5222302", "Vila Propício", "62"],
+  ],
+  DF: [
+    ["5300108", "Brasília", "61"],
+  ],
+};
@@ -0,0 +1,82 @@
+/**
+ * Capitais e principais municipios de cada UF: codigo IBGE, UF, nome e DDD.
+ * Municipios fora da lista usam o DDD da capital (`dddByState`).
+ */
+export const municipalities: Array<[ibge: string, state: string, city: string, ddd: string]> = [
+  // Norte
+  ["1100205", "RO", "Porto Velho", "69"], ["1100122", "RO", "Ji-Paraná", "69"],
+  ["1200401", "AC", "Rio Branco", "68"],
+  ["1302603", "AM", "Manaus", "92"], ["1303403", "AM", "Parintins", "92"],
+  ["1400100", "RR", "Boa Vista", "95"],
+  ["1501402", "PA", "Belém", "91"], ["1500800", "PA", "Ananindeua", "91"], ["1506807", "PA", "Santarém", "93"],
+  ["1504208", "PA", "Marabá", "94"],
+  ["1600303", "AP", "Macapá", "96"],
+  ["1721000", "TO", "Palmas", "63"], ["1702109", "TO", "Araguaína", "63"],
+  // Nordeste
+  ["2111300", "MA", "São Luís", "98"], ["2105302", "MA", "Imperatriz", "99"],
+  ["2211001", "PI", "Teresina", "86"], ["2207702", "PI", "Parnaíba", "86"],
+  ["2304400", "CE", "Fortaleza", "85"], ["2303709", "CE", "Caucaia", "85"], ["2307304", "CE", "Juazeiro do Norte", "88"],
+  ["2312908", "CE", "Sobral", "88"],
+  ["2408102", "RN", "Natal", "84"], ["2408003", "RN", "Mossoró", "84"],
+  ["2507507", "PB", "João Pessoa", "83"], ["2504009", "PB", "Campina Grande", "83"],
+  ["2611606", "PE", "Recife", "81"], ["2607901", "PE", "Jaboatão dos Guararapes", "81"], ["2609600", "PE", "Olinda", "81"],
+  ["2604106", "PE", "Caruaru", "81"], ["2611101", "PE", "Petrolina", "87"],
+  ["2704302", "AL", "Maceió", "82"], ["2700300", "AL", "Arapiraca", "82"],
+  ["2800308", "SE", "Aracaju", "79"],
+  ["2927408", "BA", "Salvador", "71"], ["2910800", "BA", "Feira de Santana", "75"], ["2933307", "BA", "Vitória da Conquista", "77"],
+  ["2913606", "BA", "Ilhéus", "73"], ["2918407", "BA", "Juazeiro", "74"],
+  // Sudeste
+  ["3106200", "MG", "Belo Horizonte", "31"], ["3118601", "MG", "Contagem", "31"], ["3131307", "MG", "Ipatinga", "31"],
+  ["3136702", "MG", "Juiz de Fora", "32"], ["3127701", "MG", "Governador Valadares", "33"], ["3170206", "MG", "Uberlândia", "34"],
+  ["3170107", "MG", "Uberaba", "34"], ["3143302", "MG", "Montes Claros", "38"],
+  ["3205309", "ES", "Vitória", "27"], ["3205200", "ES", "Vila Velha", "27"], ["3205002", "ES", "Serra", "27"],
+  ["3201209", "ES", "Cachoeiro de Itapemirim", "28"],
+  ["3304557", "RJ", "Rio de Janeiro", "21"], ["3303302", "RJ", "Niterói", "21"], ["3303500", "RJ", "Nova Iguaçu", "21"],
+  ["3301702", "RJ", "Duque de Caxias", "21"], ["3301009", "RJ", "Campos dos Goytacazes", "22"], ["3303906", "RJ", "Petrópolis", "24"],
+  ["3306305", "RJ", "Volta Redonda", "24"],
+  ["3550308", "SP", "São Paulo", "11"], ["3518800", "SP", "Guarulhos", "11"], ["3547809", "SP", "Santo André", "11"],
+  ["3548708", "SP", "São Bernardo do Campo", "11"], ["3534401", "SP", "Osasco", "11"], ["3525904", "SP", "Jundiaí", "11"],
+  ["3549904", "SP", "São José dos Campos", "12"], ["3554102", "SP", "Taubaté", "12"], ["3548500", "SP", "Santos", "13"],
+  ["3506003", "SP", "Bauru", "14"], ["3529005", "SP", "Marília", "14"], ["3552205", "SP", "Sorocaba", "15"],
+  ["3543402", "SP", "Ribeirão Preto", "16"], ["3503208", "SP", "Araraquara", "16"], ["3516200", "SP", "Franca", "16"],
+  ["3549805", "SP", "São José do Rio Preto", "17"], ["3541406", "SP", "Presidente Prudente", "18"], ["3504008", "SP", "Assis", "18"],
+  ["3509502", "SP", "Campinas", "19"], ["3538709", "SP", "Piracicaba", "19"],
+  // Sul
+  ["4106902", "PR", "Curitiba", "41"], ["4119905", "PR", "Ponta Grossa", "42"], ["4113700", "PR", "Londrina", "43"],
+  ["4115200", "PR", "Maringá", "44"], ["4104808", "PR", "Cascavel", "45"], ["4108304", "PR", "Foz do Iguaçu", "45"],
+  ["4205407", "SC", "Florianópolis", "48"], ["4204608", "SC", "Criciúma", "48"], ["4209102", "SC", "Joinville", "47"],
+  ["4202404", "SC", "Blumenau", "47"], ["4204202", "SC", "Chapecó", "49"],
+  ["4314902", "RS", "Porto Alegre", "51"], ["4305108", "RS", "Caxias do Sul", "54"], ["4314100", "RS", "Passo Fundo", "54"],
+  ["4314407", "RS", "Pelotas", "53"], ["4316907", "RS", "Santa Maria", "55"],
+  // Centro-Oeste
+  ["5002704", "MS", "Campo Grande", "67"], ["5003702", "MS", "Dourados", "67"],
+  ["5103403", "MT", "Cuiabá", "65"], ["5108402", "MT", "Várzea Grande", "65"], ["5107602", "MT", "Rondonópolis", "66"],
+  ["5107909", "MT", "Sinop", "66"],
+  ["5208707", "GO", "Goiânia", "62"], ["5201405", "GO", "Aparecida de Goiânia", "62"], ["5201108", "GO", "Anápolis", "62"],
+  ["5218805", "GO", "Rio Verde", "64"],
+  ["5300108", "DF", "Brasília", "61"],
+];
+
+/** Variantes de nome retornadas por alguns providers → nome oficial do municipio */
+export const municipalityAliases: Array<[state: string, alias: string, city: string]> = [
+  // Regioes administrativas do DF pertencem ao municipio de Brasilia
+  ["DF", "Plano Piloto", "Brasília"], ["DF", "Taguatinga", "Brasília"], ["DF", "Ceilândia", "Brasília"],
+  ["DF", "Samambaia", "Brasília"], ["DF", "Gama", "Brasília"], ["DF", "Sobradinho", "Brasília"],
+  ["DF", "Planaltina", "Brasília"], ["DF", "Guará", "Brasília"], ["DF", "Águas Claras", "Brasília"],
+  ["DF", "Recanto das Emas", "Brasília"], ["DF", "Santa Maria", "Brasília"], ["DF", "São Sebastião", "Brasília"],
+  ["DF", "Lago Sul", "Brasília"], ["DF", "Lago Norte", "Brasília"], ["DF", "Cruzeiro", "Brasília"],
+  ["DF", "Núcleo Bandeirante", "Brasília"], ["DF", "Riacho Fundo", "Brasília"], ["DF", "Paranoá", "Brasília"],
+  ["DF", "Brazlândia", "Brasília"], ["DF", "Vicente Pires", "Brasília"], ["DF", "Sudoeste/Octogonal", "Brasília"],
+  // Nomes abreviados
+  ["PE", "Jaboatão", "Jaboatão dos Guararapes"], ["RJ", "Campos", "Campos dos Goytacazes"],
+  ["SP", "São Bernardo", "São Bernardo do Campo"], ["SP", "Rio Preto", "São José do Rio Preto"],
+  ["ES", "Cachoeiro", "Cachoeiro de Itapemirim"],
+  // Grafias e nomes alternativos (so resolvem com a tabela completa de `@eusilvio/cep-lookup/ibge`)
+  ["TO", "Tabocão", "Fortaleza do Tabocão"], ["CE", "Itapagé", "Itapajé"], ["RN", "Presidente Juscelino", "Serra Caiada"],
+  ["RN", "Campo Grande", "Augusto Severo (Campo Grande)"], ["RN", "Augusto Severo", "Augusto Severo (Campo Grande)"],
+  ["RN", "Januário Cicco", "Januário Cicco (Boa Saúde)"], ["RN", "Boa Saúde", "Januário Cicco (Boa Saúde)"],
+  ["SP", "Moji Mirim", "Mogi Mirim"], ["SP", "Florínea", "Florínia"], ["SP", "São Luís do Paraitinga", "São Luiz do Paraitinga"],
+  ["MT", "Poxoréo", "Poxoréu"], ["PA", "Santa Isabel do Pará", "Santa Izabel do Pará"],
+  ["PA", "Eldorado dos Carajás", "Eldorado do Carajás"], ["PE", "Iguaraci", "Iguaracy"], ["PE", "São Caitano", "São Caetano"],
+  ["GO", "São Luíz do Norte", "São Luiz do Norte"],
+];
@@ -0,0 +1,25 @@
+/** Abreviacoes de tipo de logradouro (primeira palavra), sem ponto e sem acento */
+export const streetTypeAbbreviations: Record<string, string> = {
+  r: "Rua", av: "Avenida", avda: "Avenida", al: "Alameda", pc: "Praça", pca: "Praça", pr: "Praça",
+  tv: "Travessa", trav: "Travessa", rod: "Rodovia", estr: "Estrada", est: "Estrada", lgo: "Largo",
+  lg: "Largo", ld: "Ladeira", lad: "Ladeira", bc: "Beco", vd: "Viaduto", pq: "Parque", pque: "Parque",
+  jd: "Jardim", vl: "Vila", cj: "Conjunto", conj: "Conjunto", res: "Residencial", q: "Quadra", qd: "Quadra",
+  pte: "Ponte", ver: "Vereda",
+};
+
+/** Tipos de logradouro por extenso (uma palavra) reconhecidos no inicio da rua */
+export const streetTypes: string[] = [
+  "Rua", "Avenida", "Alameda", "Praça", "Travessa", "Rodovia", "Estrada", "Largo", "Ladeira", "Beco", "Viaduto",
+  "Parque", "Jardim", "Vila", "Conjunto", "Residencial", "Quadra", "Ponte", "Vereda", "Via", "Viela", "Passagem",
+  "Servidão", "Caminho", "Acesso", "Setor", "Loteamento", "Condomínio", "Praia", "Núcleo", "Área", "Sítio",
+  "Chácara", "Fazenda", "Galeria", "Marginal", "Calçadão", "Boulevard", "Contorno",
+];
+
+/** Abreviacoes de titulos em qualquer posicao (so expandidas quando escritas com ponto), sem ponto e sem acento */
+export const nameAbbreviations: Record<string, string> = {
+  dr: "Doutor", dra: "Doutora", prof: "Professor", profa: "Professora", eng: "Engenheiro", gov: "Governador",
+  pres: "Presidente", cel: "Coronel", gen: "General", mal: "Marechal", cap: "Capitão", ten: "Tenente",
+  sgt: "Sargento", dep: "Deputado", sen: "Senador", ver: "Vereador", des: "Desembargador", pe: "Padre",
+  fr: "Frei", d: "Dom", sta: "Santa", sto: "Santo", nsa: "Nossa", sra: "Senhora", min: "Ministro",
+  alm: "Almirante", brig: "Brigadeiro", cmte: "Comandante", comend: "Comendador",
+};
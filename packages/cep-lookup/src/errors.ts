@@ -1,10 +1,14 @@
 export type CepErrorCode =
   | "INVALID_CEP"
+  | "INVALID_QUERY"
+  | "SEARCH_UNSUPPORTED"
   | "RATE_LIMITED"
   | "TIMEOUT"
   | "NOT_FOUND"
   | "PROVIDER_UNAVAILABLE"
+  | "STATE_MISMATCH"
   | "ALL_PROVIDERS_FAILED"
+  | "ABORTED"
   | "UNKNOWN";
 
 export class CepValidationError extends Error {
@@ -17,6 +21,28 @@ export class CepValidationError extends Error {
   }
 }
 
+export class AddressQueryValidationError extends Error {
+  public readonly field: "state" | "city" | "street";
+  public readonly code: CepErrorCode = "INVALID_QUERY";
+  constructor(field: "state" | "city" | "street") {
+    super(
+      field === "state"
+        ? "Invalid state. Use a two-letter UF such as SP."
+        : `Invalid ${field}. Use at least 3 characters.`
+    );
+    this.name = "AddressQueryValidationError";
+    this.field = field;
+  }
+}
+
+export class SearchUnsupportedError extends Error {
+  public readonly code: CepErrorCode = "SEARCH_UNSUPPORTED";
+  constructor() {
+    super("No configured provider supports address search.");
+    this.name = "SearchUnsupportedError";
+  }
+}
+
 export class RateLimitError extends Error {
   public readonly limit: number;
   public readonly window: number;
@@ -65,11 +91,39 @@ export class AllProvidersFailedError extends Error {
 
 export class ProviderUnavailableError extends Error {
   public readonly provider: string;
+  public readonly reason: string;
   public readonly code: CepErrorCode = "PROVIDER_UNAVAILABLE";
-  constructor(provider: string) {
-    super(`Provider ${provider} is temporarily unavailable (circuit open).`);
+  constructor(provider: string, reason = "circuit open") {
+    super(`Provider ${provider} is temporarily unavailable (${reason}).`);
     this.name = "ProviderUnavailableError";
     this.provider = provider;
+    this.reason = reason;
+  }
+}
+
+export class StateMismatchError extends Error {
+  public readonly cep: string;
+  public readonly provider: string;
+  public readonly expected: string;
+  public readonly received: string;
+  public readonly code: CepErrorCode = "STATE_MISMATCH";
+  constructor(cep: string, provider: string, expected: string, received: string) {
+    super(`${provider} returned state ${received}, but CEP ${cep} belongs to ${expected}.`);
+    this.name = "StateMismatchError";
+    this.cep = cep;
+    this.provider = provider;
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+export class LookupAbortedError extends Error {
+  public readonly cep?: string;
+  public readonly code: CepErrorCode = "ABORTED";
+  constructor(cep?: string) {
+    super("Lookup aborted by the caller.");
+    this.name = "LookupAbortedError";
+    this.cep = cep;
   }
 }
 
@@ -81,11 +135,19 @@ export function normalizeProviderError(error: unknown, cep: string, provider: st
       error instanceof ProviderTimeoutError ||
       error instanceof CepNotFoundError ||
       error instanceof ProviderUnavailableError ||
-      error instanceof AllProvidersFailedError
+      error instanceof StateMismatchError ||
+      error instanceof AllProvidersFailedError ||
+      error instanceof LookupAbortedError
     ) {
       return error;
     }
 
+    // The "/providers" entry is bundled separately and carries its own copy of this class
+    if (error.name === "ProviderUnavailableError") {
+      const { provider: name, reason } = error as ProviderUnavailableError;
+      return new ProviderUnavailableError(name, reason);
+    }
+
     const message = error.message?.toLowerCase?.() || "";
     if (message.includes("cep not found") || message.includes("not found") || message.includes("status: 404")) {
       return new CepNotFoundError(cep, provider);
@@ -0,0 +1,37 @@
+import { ibgeMunicipalities } from "../data/ibge-municipalities";
+import { municipalityAliases } from "../data/municipalities";
+import { Municipality, normalizeCityName } from "../municipalities";
+import { DddResolver, IbgeResolver } from "../types";
+
+const byIbge = new Map<string, Municipality>();
+const byName = new Map<string, Municipality>();
+Object.entries(ibgeMunicipalities).forEach(([state, rows]) => {
+  rows.forEach(([ibge, city, ddd]) => {
+    const municipality = { ibge, state, city, ddd };
+    byIbge.set(ibge, municipality);
+    byName.set(`${state}:${normalizeCityName(city)}`, municipality);
+  });
+});
+municipalityAliases.forEach(([state, alias, city]) => {
+  const municipality = byName.get(`${state}:${normalizeCityName(city)}`);
+  if (municipality) byName.set(`${state}:${normalizeCityName(alias)}`, municipality);
+});
+
+const findByName = (state?: string, city?: string): Municipality | undefined =>
+  state && city ? byName.get(`${state.toUpperCase()}:${normalizeCityName(city)}`) : undefined;
+
+/**
+ * @const ibgeResolver
+ * @description `IbgeResolver` backed by the full IBGE municipality list (all 5,571 municipalities), matched by
+ * state + city name like the bundled table. Pass it as `enrichment: { ibge: ibgeResolver }`; import it from
+ * `@eusilvio/cep-lookup/ibge` so bundles that don't need the list leave it out.
+ */
+export const ibgeResolver: IbgeResolver = (address) => findByName(address.state, address.city)?.ibge;
+
+/**
+ * @const dddResolver
+ * @description `DddResolver` backed by the same list, matched by IBGE code, then by state + city name.
+ * Pass it as `enrichment: { ddd: dddResolver }`.
+ */
+export const dddResolver: DddResolver = (address) =>
+  (address.ibge ? byIbge.get(address.ibge) : undefined)?.ddd ?? findByName(address.state, address.city)?.ddd;
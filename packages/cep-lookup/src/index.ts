@@ -1,11 +1,18 @@
-import { Address, Fetcher, Provider, CepLookupOptions, BulkCepResult, RateLimitOptions, EventName, EventListener, EventMap, ProviderHealth, ProviderMetrics, CircuitBreakerOptions } from "./types";
-import { Cache, InMemoryCache, InMemoryCacheOptions } from "./cache";
-import { CepValidationError, RateLimitError, ProviderTimeoutError, CepNotFoundError, AllProvidersFailedError, ProviderUnavailableError, normalizeProviderError } from "./errors";
+import { Address, Fetcher, FetcherInit, Provider, ProviderRequest, CepLookupOptions, LookupOptions, LookupStrategy, ConsensusOptions, MergeOptions, AddressField, FieldDiscrepancy, AddressMeta, NegativeCacheOptions, BulkCepResult, BulkLookupOptions, LookupResult, ProviderAttemptError, AddressQuery, AddressLocation, Geocoder, Enricher, EnrichmentOptions, NormalizeOptions, DddResolver, IbgeResolver, RateLimitOptions, EventName, EventListener, EventMap, ProviderHealth, ProviderQuota, ProviderMetrics, CircuitBreakerOptions } from "./types";
+import { Cache, CacheReadResult, CacheSnapshot, CacheStats, InMemoryCache, InMemoryCacheOptions, MaybePromise, NegativeCache } from "./cache";
+import { CepValidationError, AddressQueryValidationError, SearchUnsupportedError, RateLimitError, ProviderTimeoutError, CepNotFoundError, AllProvidersFailedError, ProviderUnavailableError, StateMismatchError, LookupAbortedError, normalizeProviderError } from "./errors";
+import { WebStorageCache, WebStorageCacheOptions, WebStorageLike } from "./cache/web-storage";
 import { dddByState } from "./data/ddd-by-state";
+import { resolveCepRegion } from "./region";
+import { findMunicipality } from "./municipalities";
+import { normalizeAddress } from "./normalize";
+import { parseStreet } from "./street";
 
-export type { Address, Fetcher, Provider, CepLookupOptions, BulkCepResult, RateLimitOptions, EventName, EventListener, EventMap, Cache, InMemoryCacheOptions, ProviderHealth, ProviderMetrics, CircuitBreakerOptions };
-export { InMemoryCache };
-export { CepValidationError, RateLimitError, ProviderTimeoutError, CepNotFoundError, AllProvidersFailedError, ProviderUnavailableError };
+export type { Address, Fetcher, FetcherInit, Provider, ProviderRequest, CepLookupOptions, LookupOptions, LookupStrategy, ConsensusOptions, MergeOptions, AddressField, FieldDiscrepancy, AddressMeta, NegativeCacheOptions, BulkCepResult, BulkLookupOptions, LookupResult, ProviderAttemptError, AddressQuery, AddressLocation, Geocoder, Enricher, EnrichmentOptions, NormalizeOptions, DddResolver, IbgeResolver, RateLimitOptions, EventName, EventListener, EventMap, Cache, CacheReadResult, CacheSnapshot, CacheStats, MaybePromise, InMemoryCacheOptions, WebStorageCacheOptions, WebStorageLike, ProviderHealth, ProviderQuota, ProviderMetrics, CircuitBreakerOptions };
+export type { CepRegion } from "./region";
+export type { StreetParts } from "./street";
+export { InMemoryCache, WebStorageCache, resolveCepRegion, normalizeAddress, parseStreet };
+export { CepValidationError, AddressQueryValidationError, SearchUnsupportedError, RateLimitError, ProviderTimeoutError, CepNotFoundError, AllProvidersFailedError, ProviderUnavailableError, StateMismatchError, LookupAbortedError };
 
 // Minimal EventEmitter for internal use
 class EventEmitter {
@@ -52,6 +59,21 @@ function validateCep(cep: string): string {
   return cep.replace("-", "");
 }
 
+/**
+ * @function validateAddressQuery
+ * @description Validates and trims a reverse-lookup query. The UF is upper-cased.
+ * @throws {AddressQueryValidationError} If a field is missing or too short to search.
+ */
+function validateAddressQuery(query: AddressQuery): AddressQuery {
+  const state = (query?.state || "").trim().toUpperCase();
+  const city = (query?.city || "").trim();
+  const street = (query?.street || "").trim();
+  if (!/^[A-Z]{2}$/.test(state)) throw new AddressQueryValidationError("state");
+  if (city.length < 3) throw new AddressQueryValidationError("city");
+  if (street.length < 3) throw new AddressQueryValidationError("street");
+  return { state, city, street };
+}
+
 /**
  * @function sanitizeAddress
  * @description Trims whitespace from all string properties of an address object.
@@ -69,20 +91,278 @@ function sanitizeAddress(address: Address): Address {
   return sanitized;
 }
 
+/**
+ * @function withExtras
+ * @description Merges the fields a provider declares through `extras` into `address.extras`.
+ */
+function withExtras(provider: Provider, response: any, address: Address): Address {
+  if (!provider.extras) return address;
+  const extras = provider.extras(response) as Record<string, unknown>;
+  return { ...address, extras: { ...address.extras, ...extras } };
+}
+
+/** Municipality DDD from the bundled table, matched by IBGE code or state + city name. */
+const bundledDdd: DddResolver = (address) => findMunicipality(address)?.ddd;
+
+/** Municipality IBGE code from the bundled table, matched by state + city name. */
+const bundledIbge: IbgeResolver = (address) => findMunicipality({ state: address.state, city: address.city })?.ibge;
+
 /**
  * @function enrichAddress
- * @description Enriches an address with DDD fallback when the provider doesn't return it.
+ * @description Fills a missing IBGE code (flagged with `ibgeInferred`) and a missing DDD: municipality
+ * resolvers first (bundled table unless replaced or disabled), then the state capital's DDD.
+ * `options === false` disables enrichment.
  */
-function enrichAddress(address: Address): Address {
-  if (!address.ddd && address.state) {
-    const fallbackDdd = dddByState[address.state];
-    if (fallbackDdd) {
-      return { ...address, ddd: fallbackDdd };
-    }
+function enrichAddress(address: Address, options: EnrichmentOptions | false = {}): Address {
+  if (options === false) return address;
+  let enriched = address;
+  if (!enriched.ibge) {
+    const resolveIbge = options.ibge === undefined ? bundledIbge : options.ibge;
+    const ibge = resolveIbge ? resolveIbge(enriched) : undefined;
+    if (ibge) enriched = { ...enriched, ibge, ibgeInferred: true };
+  }
+  if (!enriched.ddd) {
+    const resolveDdd = options.ddd === undefined ? bundledDdd : options.ddd;
+    const ddd = (resolveDdd ? resolveDdd(enriched) : undefined) || (enriched.state ? dddByState[enriched.state] : undefined);
+    if (ddd) enriched = { ...enriched, ddd };
   }
+  return enriched;
+}
+
+/** Address fields compared across providers by the consensus strategy. */
+const CONSENSUS_FIELDS: AddressField[] = ["cep", "state", "city", "neighborhood", "street", "ibge", "ddd"];
+
+/** Structured street fields that always follow `street`. */
+const STREET_PARTS = ["streetType", "streetName", "complement"] as const;
+
+interface ProviderAnswer {
+  provider: string;
+  address: Address;
+  raw?: unknown;
+}
+
+/**
+ * @function normalizeForComparison
+ * @description Lowercases, strips accents and collapses whitespace so "SAO  PAULO" matches "São Paulo".
+ */
+function normalizeForComparison(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * @function syncStreetParts
+ * @description Takes `streetType`, `streetName` and `complement` from the first answer whose street matches the
+ * chosen one, so the structured parts never describe a street that lost the vote.
+ */
+function syncStreetParts(address: Address, answers: ProviderAnswer[]): void {
+  const source = answers.find(({ address: answer }) =>
+    answer.street && normalizeForComparison(answer.street) === normalizeForComparison(address.street || "")
+  );
+  STREET_PARTS.forEach((part) => {
+    const value = source?.address[part];
+    if (value !== undefined) address[part] = value;
+    else delete address[part];
+  });
+}
+
+/**
+ * @function buildConsensus
+ * @description Picks the majority value per field; ties go to the provider that answered first.
+ * Empty values abstain, so a provider without `ibge` never outvotes one that has it.
+ */
+function buildConsensus(answers: ProviderAnswer[]): { address: Address; discrepancies: FieldDiscrepancy[] } {
+  const address: Address = { ...answers[0].address, service: answers[0].provider };
+  const discrepancies: FieldDiscrepancy[] = [];
+
+  CONSENSUS_FIELDS.forEach((field) => {
+    const votes = new Map<string, { value: string; count: number }>();
+    answers.forEach(({ address: answer }) => {
+      const value = answer[field];
+      if (!value) return;
+      const key = normalizeForComparison(value);
+      const vote = votes.get(key);
+      if (vote) {
+        vote.count += 1;
+      } else {
+        votes.set(key, { value, count: 1 });
+      }
+    });
+    if (votes.size === 0) return;
+
+    const winner = [...votes.values()].reduce((best, vote) => (vote.count > best.count ? vote : best));
+    address[field] = winner.value;
+    if (votes.size > 1) {
+      discrepancies.push({
+        field,
+        chosen: winner.value,
+        values: answers.map(({ provider, address: answer }) => ({ provider, value: answer[field] })),
+      });
+    }
+  });
+
+  syncStreetParts(address, answers);
+  address.meta = {
+    strategy: "consensus",
+    providers: answers.map(({ provider }) => provider),
+    discrepancies,
+  };
+  return { address, discrepancies };
+}
+
+/**
+ * @function buildMerge
+ * @description Keeps the fastest answer and fills each missing `fields` entry from the next answer that has it.
+ */
+function buildMerge(answers: ProviderAnswer[], fields: AddressField[]): Address {
+  const [fastest] = answers;
+  const address: Address = { ...fastest.address, service: fastest.provider };
+  const provenance: Partial<Record<AddressField, string>> = {};
+
+  CONSENSUS_FIELDS.forEach((field) => {
+    if (address[field]) provenance[field] = fastest.provider;
+  });
+  fields.forEach((field) => {
+    if (address[field]) return;
+    const donor = answers.find(({ address: answer }) => answer[field]);
+    const value = donor?.address[field];
+    if (donor && value) {
+      address[field] = value;
+      provenance[field] = donor.provider;
+    }
+  });
+
+  syncStreetParts(address, answers);
+  address.meta = {
+    strategy: "merge",
+    providers: answers.map(({ provider }) => provider),
+    provenance,
+  };
   return address;
 }
 
+/**
+ * @function isSameAddress
+ * @description Compares two addresses field by field, ignoring which provider served them.
+ */
+function isSameAddress(a: Address, b: Address): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as Array<keyof Address>);
+  keys.delete("service");
+  keys.delete("meta");
+  return [...keys].every((key) => JSON.stringify(a[key]) === JSON.stringify(b[key]));
+}
+
+/**
+ * @function toNotFoundConsensus
+ * @description Returns a `CepNotFoundError` when every provider that answered reported the CEP as not found.
+ */
+function toNotFoundConsensus(error: Error | undefined): CepNotFoundError | undefined {
+  if (error instanceof CepNotFoundError) return error;
+  if (!(error instanceof AllProvidersFailedError)) return undefined;
+  // Backup providers settle as a nested AggregateError
+  const providerErrors = error.errors.flatMap((e) => (e instanceof AggregateError ? e.errors : [e]));
+  if (providerErrors.length > 0 && providerErrors.every((e) => e instanceof CepNotFoundError)) {
+    return providerErrors[0] as CepNotFoundError;
+  }
+  return undefined;
+}
+
+/**
+ * @function weightedOrder
+ * @description Orders providers by weighted random sampling, so each one leads in proportion to its `weight`
+ * (default 1). Used for providers sharing a tier and priority when any of them declares a weight.
+ */
+function weightedOrder(providers: Provider[]): Provider[] {
+  const pool = [...providers];
+  const ordered: Provider[] = [];
+  while (pool.length > 0) {
+    let pick = Math.random() * pool.reduce((total, provider) => total + Math.max(provider.weight ?? 1, 0), 0);
+    const index = pool.findIndex((provider) => (pick -= Math.max(provider.weight ?? 1, 0)) < 0);
+    ordered.push(...pool.splice(index === -1 ? pool.length - 1 : index, 1));
+  }
+  return ordered;
+}
+
+/**
+ * @function splitRuns
+ * @description Splits an ordered provider list into runs of consecutive providers sharing the same key.
+ */
+function splitRuns(providers: Provider[], key: (provider: Provider) => string | number): Provider[][] {
+  const runs: Provider[][] = [];
+  providers.forEach((provider, index) => {
+    if (index === 0 || key(provider) !== key(providers[index - 1])) {
+      runs.push([]);
+    }
+    runs[runs.length - 1].push(provider);
+  });
+  return runs;
+}
+
+const tierOf = (provider: Provider) => provider.tier ?? 0;
+const rankOf = (provider: Provider) => `${tierOf(provider)}:${provider.priority ?? 0}`;
+
+/**
+ * @function delay
+ * @description Waits for `ms` milliseconds, rejecting early with `LookupAbortedError` if the signal aborts.
+ */
+function delay(ms: number, cep: string, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new LookupAbortedError(cep));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new LookupAbortedError(cep));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * @function raceWithAbort
+ * @description Settles with `promise`, or rejects with `LookupAbortedError` as soon as the signal aborts.
+ */
+function raceWithAbort<T>(promise: Promise<T>, cep: string | undefined, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new LookupAbortedError(cep));
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new LookupAbortedError(cep));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/** Result of a shared provider lookup, before it is wrapped into a `LookupResult`. */
+interface ProviderLookupOutcome {
+  address: Address;
+  attempts: number;
+  providerErrors: ProviderAttemptError[];
+  raw?: unknown;
+}
+
+/** Address settled by the providers, with the winning response when `includeRaw` is set. */
+interface ProviderRoundResult {
+  address: Address;
+  raw?: unknown;
+}
+
+interface InFlightLookup {
+  promise: Promise<ProviderLookupOutcome>;
+  controller: AbortController;
+  subscribers: number;
+}
+
 interface ProviderRuntimeState {
   consecutiveFailures: number;
   successCount: number;
@@ -92,6 +372,11 @@ interface ProviderRuntimeState {
   requests: number;
   timeoutErrors: number;
   notFoundErrors: number;
+  /** Start times of requests in the provider's `rateLimit` window. */
+  windowTimestamps: number[];
+  /** UTC day (YYYY-MM-DD) that `quotaUsed` counts. */
+  quotaDay?: string;
+  quotaUsed: number;
 }
 
 /**
@@ -114,13 +399,28 @@ export class CepLookup {
   private circuitFailureThreshold: number;
   private circuitCooldownMs: number;
   private providerState = new Map<string, ProviderRuntimeState>();
+  private dedupe: boolean;
+  private swr: boolean;
+  private negativeCache?: NegativeCache;
+  private strategy: LookupStrategy;
+  private consensusQuorum: number;
+  private mergeGraceMs: number;
+  private mergeFields: AddressField[];
+  private geocoder?: Geocoder;
+  private enrichers: Enricher[];
+  private validateState: boolean;
+  private offlineFallback: boolean;
+  private includeRaw: boolean;
+  private enrichment: EnrichmentOptions | false;
+  private normalizeOptions?: NormalizeOptions;
+  private inFlight = new Map<string, InFlightLookup>();
 
   constructor(options: CepLookupOptions) {
     this.providers = options.providers;
     this.sortedProviders = [...options.providers];
     this.emitter = new EventEmitter();
-    this.fetcher = options.fetcher || (async (url: string, signal?: AbortSignal) => {
-      const response = await fetch(url, { signal });
+    this.fetcher = options.fetcher || (async (url: string, signal?: AbortSignal, init?: FetcherInit) => {
+      const response = await fetch(url, { ...init, signal });
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
@@ -135,6 +435,24 @@ export class CepLookup {
     this.circuitBreakerEnabled = options.circuitBreaker?.enabled ?? true;
     this.circuitFailureThreshold = options.circuitBreaker?.failureThreshold ?? 3;
     this.circuitCooldownMs = options.circuitBreaker?.cooldownMs ?? 30000;
+    this.dedupe = options.dedupe ?? true;
+    this.swr = options.swr ?? false;
+    this.strategy = options.strategy ?? 'race';
+    this.consensusQuorum = options.consensus?.quorum ?? 2;
+    this.mergeGraceMs = options.merge?.graceMs ?? 100;
+    this.mergeFields = options.merge?.fields ?? ['ibge', 'ddd', 'neighborhood'];
+    this.geocoder = options.geocoder;
+    this.enrichers = options.enrichers ?? [];
+    this.validateState = options.validateState ?? false;
+    this.offlineFallback = options.offlineFallback ?? false;
+    this.includeRaw = options.includeRaw ?? false;
+    this.enrichment = options.enrichment ?? {};
+    if (options.normalize) {
+      this.normalizeOptions = options.normalize === true ? {} : options.normalize;
+    }
+    if (options.negativeCache) {
+      this.negativeCache = new NegativeCache(options.negativeCache);
+    }
     this.providers.forEach((provider) => {
       this.providerState.set(provider.name, {
         consecutiveFailures: 0,
@@ -144,6 +462,8 @@ export class CepLookup {
         requests: 0,
         timeoutErrors: 0,
         notFoundErrors: 0,
+        windowTimestamps: [],
+        quotaUsed: 0,
       });
     });
   }
@@ -172,9 +492,12 @@ export class CepLookup {
     
     const race = this.providers.map(async (provider) => {
       const start = Date.now();
+      if (this.quotaExhaustedReason(provider)) {
+        return { provider, duration: Infinity, error: true };
+      }
+      this.consumeQuota(provider);
       try {
-        const url = provider.buildUrl(controlCep);
-        await this.fetcher(url, controller.signal);
+        await this.fetchFromProvider(provider, controlCep, controller.signal);
         // We don't care about the result content, just that it didn't throw network error
         return { provider, duration: Date.now() - start, error: false };
       } catch (e) {
@@ -209,6 +532,8 @@ export class CepLookup {
       requests: 0,
       timeoutErrors: 0,
       notFoundErrors: 0,
+      windowTimestamps: [],
+      quotaUsed: 0,
     };
     this.providerState.set(providerName, created);
     return created;
@@ -254,6 +579,58 @@ export class CepLookup {
     return true;
   }
 
+  /**
+   * @method quotaExhaustedReason
+   * @description Returns why the provider's own `rateLimit` or `dailyQuota` rules it out right now, if it does.
+   */
+  private quotaExhaustedReason(provider: Provider): string | undefined {
+    const state = this.getOrCreateProviderState(provider.name);
+    const now = Date.now();
+    if (provider.dailyQuota !== undefined) {
+      const today = new Date(now).toISOString().slice(0, 10);
+      if (state.quotaDay !== today) {
+        state.quotaDay = today;
+        state.quotaUsed = 0;
+      }
+      if (state.quotaUsed >= provider.dailyQuota) return 'daily quota exhausted';
+    }
+    if (provider.rateLimit) {
+      const windowStart = now - provider.rateLimit.per;
+      state.windowTimestamps = state.windowTimestamps.filter((ts) => ts > windowStart);
+      if (state.windowTimestamps.length >= provider.rateLimit.requests) return 'rate limited';
+    }
+    return undefined;
+  }
+
+  private consumeQuota(provider: Provider): void {
+    const state = this.getOrCreateProviderState(provider.name);
+    if (provider.dailyQuota !== undefined) state.quotaUsed += 1;
+    if (provider.rateLimit) state.windowTimestamps.push(Date.now());
+  }
+
+  private getProviderQuota(provider: Provider): ProviderQuota | undefined {
+    if (!provider.rateLimit && provider.dailyQuota === undefined) return undefined;
+    const exhausted = this.quotaExhaustedReason(provider) !== undefined;
+    const state = this.getOrCreateProviderState(provider.name);
+    const quota: ProviderQuota = { exhausted };
+    const availableAt: number[] = [];
+    if (provider.rateLimit) {
+      quota.windowRequests = state.windowTimestamps.length;
+      if (state.windowTimestamps.length >= provider.rateLimit.requests) {
+        availableAt.push(state.windowTimestamps[0] + provider.rateLimit.per);
+      }
+    }
+    if (provider.dailyQuota !== undefined) {
+      quota.dailyUsed = state.quotaUsed;
+      quota.dailyRemaining = Math.max(provider.dailyQuota - state.quotaUsed, 0);
+      if (state.quotaUsed >= provider.dailyQuota) {
+        availableAt.push(new Date(`${state.quotaDay}T00:00:00Z`).getTime() + 24 * 60 * 60 * 1000);
+      }
+    }
+    if (exhausted) quota.availableAt = Math.max(...availableAt);
+    return quota;
+  }
+
   private scoreProvider(provider: Provider): number {
     const state = this.getOrCreateProviderState(provider.name);
     const total = state.successCount + state.failureCount;
@@ -267,6 +644,7 @@ export class CepLookup {
     return this.providers
       .map((provider) => {
         const state = this.getOrCreateProviderState(provider.name);
+        const quota = this.getProviderQuota(provider);
         return {
           provider: provider.name,
           score: Number(this.scoreProvider(provider).toFixed(4)),
@@ -276,6 +654,7 @@ export class CepLookup {
           successCount: state.successCount,
           failureCount: state.failureCount,
           avgLatencyMs: Number(state.avgLatencyMs.toFixed(2)),
+          ...(quota && { quota }),
         };
       })
       .sort((a, b) => b.score - a.score);
@@ -307,112 +686,492 @@ export class CepLookup {
     this.requestTimestamps.push(now);
   }
 
-  async lookup<T = Address>(cep: string, mapper?: (address: Address) => T): Promise<T> {
+  /**
+   * @method readCache
+   * @description Reads from the (possibly async) cache. Backend errors are reported and treated as a miss.
+   * Stale entries are only returned in stale-while-revalidate mode.
+   */
+  private async readCache(cleanedCep: string): Promise<CacheReadResult | undefined> {
+    try {
+      if (this.swr && this.cache?.getEntry) {
+        return await this.cache.getEntry(cleanedCep);
+      }
+      const value = await this.cache?.get(cleanedCep);
+      return value ? { value, stale: false } : undefined;
+    } catch (error) {
+      this.reportCacheError('get', cleanedCep, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * @method writeCache
+   * @description Writes to the (possibly async) cache without blocking the lookup. Backend errors are reported only.
+   */
+  private writeCache(cleanedCep: string, address: Address): void {
+    if (!this.cache) return;
+    try {
+      Promise.resolve(this.cache.set(cleanedCep, address)).catch((error) => this.reportCacheError('set', cleanedCep, error));
+    } catch (error) {
+      this.reportCacheError('set', cleanedCep, error);
+    }
+  }
+
+  private reportCacheError(operation: 'get' | 'set', cleanedCep: string, error: unknown): void {
+    const normalizedError = error instanceof Error ? error : new Error(String(error));
+    this.log('cache:error', { cep: cleanedCep, operation, error: normalizedError.message });
+    this.emitter.emit('cache:error', { cep: cleanedCep, operation, error: normalizedError });
+  }
+
+  async lookup<T = Address>(cep: string, mapper?: (address: Address) => T, options?: LookupOptions): Promise<T> {
+    const { address } = await this._resolve(cep, options);
+    return mapper ? mapper(address) : (address as Address as T);
+  }
+
+  /**
+   * @method lookupDetailed
+   * @description Like `lookup`, but also reports where the address came from, how many provider rounds ran,
+   * how long it took and which providers failed along the way.
+   */
+  async lookupDetailed(cep: string, options?: LookupOptions): Promise<LookupResult> {
+    return this._resolve(cep, options);
+  }
+
+  private async _resolve(cep: string, options?: LookupOptions): Promise<LookupResult> {
+    const startTime = Date.now();
+    const signal = options?.signal;
     this.checkRateLimit();
     const cleanedCep = validateCep(cep);
+    if (signal?.aborted) {
+      throw new LookupAbortedError(cleanedCep);
+    }
     this.log('lookup:start', { cep: cleanedCep });
 
     if (this.cache) {
-      const cachedAddress = this.cache.get(cleanedCep);
-      if (cachedAddress) {
+      const cached = await this.readCache(cleanedCep);
+      if (cached?.stale) {
+        this.log('cache:stale', { cep: cleanedCep });
+        this.emitter.emit('cache:stale', { cep: cleanedCep, address: cached.value });
+        this.revalidate(cleanedCep, cached.value);
+      } else if (cached) {
         this.log('cache:hit', { cep: cleanedCep });
         this.emitter.emit('cache:hit', { cep: cleanedCep });
-        return mapper ? mapper(cachedAddress) : (cachedAddress as Address as T);
+      }
+      if (cached) {
+        return {
+          address: cached.value,
+          source: 'cache',
+          provider: cached.value.service,
+          attempts: 0,
+          durationMs: Date.now() - startTime,
+          providerErrors: [],
+        };
       }
     }
 
+    const notFound = this.negativeCache?.get(cleanedCep);
+    if (notFound) {
+      this.log('cache:hit', { cep: cleanedCep, negative: true });
+      this.emitter.emit('cache:hit', { cep: cleanedCep, negative: true });
+      throw notFound;
+    }
+
+    const { address, attempts, providerErrors, raw } = await this._lookupShared(cleanedCep, signal);
+    return {
+      address,
+      source: address.approximate ? 'offline' : 'provider',
+      provider: address.service,
+      attempts,
+      durationMs: Date.now() - startTime,
+      providerErrors,
+      ...(raw !== undefined && { raw }),
+    };
+  }
+
+  /**
+   * @method revalidate
+   * @description Refreshes a stale cache entry through the provider race in the background.
+   */
+  private revalidate(cleanedCep: string, previous: Address): void {
+    this._lookupShared(cleanedCep)
+      .then(({ address }) => {
+        // An offline approximation means the providers failed; the cached entry stays untouched
+        if (address.approximate) {
+          this.log('revalidate:failure', { cep: cleanedCep, error: 'providers unavailable (offline fallback)' });
+          return;
+        }
+        if (!isSameAddress(previous, address)) {
+          this.log('cache:revalidated', { cep: cleanedCep });
+          this.emitter.emit('cache:revalidated', { cep: cleanedCep, previous, address });
+        }
+      })
+      .catch((error) => {
+        this.log('revalidate:failure', { cep: cleanedCep, error: (error as Error).message });
+      });
+  }
+
+  /**
+   * @method _lookupShared
+   * @description Coalesces concurrent lookups of the same CEP into a single provider race.
+   * The shared race is only cancelled once every caller waiting on it has aborted.
+   */
+  private _lookupShared(cleanedCep: string, signal?: AbortSignal): Promise<ProviderLookupOutcome> {
+    if (!this.dedupe) {
+      return this._lookupWithRetries(cleanedCep, signal);
+    }
+
+    let entry = this.inFlight.get(cleanedCep);
+    if (entry && !entry.controller.signal.aborted) {
+      this.log('dedupe:hit', { cep: cleanedCep });
+      this.emitter.emit('dedupe:hit', { cep: cleanedCep });
+    } else {
+      const controller = new AbortController();
+      const created: InFlightLookup = {
+        controller,
+        subscribers: 0,
+        promise: this._lookupWithRetries(cleanedCep, controller.signal).finally(() => {
+          if (this.inFlight.get(cleanedCep) === created) {
+            this.inFlight.delete(cleanedCep);
+          }
+        }),
+      };
+      this.inFlight.set(cleanedCep, created);
+      entry = created;
+    }
+
+    const shared = entry;
+    shared.subscribers += 1;
+    if (!signal) {
+      return shared.promise;
+    }
+    const onAbort = () => {
+      shared.subscribers -= 1;
+      if (shared.subscribers === 0) {
+        shared.controller.abort();
+      }
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    return raceWithAbort(shared.promise, cleanedCep, signal).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+    });
+  }
+
+  private async _lookupWithRetries(cleanedCep: string, signal?: AbortSignal): Promise<ProviderLookupOutcome> {
     let lastError: Error | undefined;
     const maxAttempts = 1 + this.retries;
+    const providerErrors: ProviderAttemptError[] = [];
 
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
       if (attempt > 0) {
-        const delay = this.retryDelay * Math.pow(2, attempt - 1);
-        this.log('retry:attempt', { attempt, cep: cleanedCep, delay });
-        await new Promise(resolve => setTimeout(resolve, delay));
+        const retryDelay = this.retryDelay * Math.pow(2, attempt - 1);
+        this.log('retry:attempt', { attempt, cep: cleanedCep, delay: retryDelay });
+        await delay(retryDelay, cleanedCep, signal);
       }
       try {
-        return await this._lookupFromProviders(cleanedCep, mapper);
+        const onProviderError = (provider: string, error: Error) => {
+          providerErrors.push({ provider, attempt: attempt + 1, error });
+        };
+        const found = await raceWithAbort(this._lookupFromProviders(cleanedCep, signal, onProviderError), cleanedCep, signal);
+        // Geocoder and enrichers may be slow; an abort while they run still rejects and skips the cache write
+        const address = await raceWithAbort(this.geocode(found.address).then((geocoded) => this.runEnrichers(geocoded)), cleanedCep, signal);
+        this.writeCache(cleanedCep, address);
+        return { address, attempts: attempt + 1, providerErrors, raw: found.raw };
       } catch (error) {
-        if (error instanceof CepValidationError || error instanceof RateLimitError) {
+        if (error instanceof CepValidationError || error instanceof RateLimitError || error instanceof LookupAbortedError) {
           throw error;
         }
         lastError = error as Error;
       }
     }
+    const notFound = toNotFoundConsensus(lastError);
+    if (notFound && this.negativeCache) {
+      this.negativeCache.set(cleanedCep, notFound);
+    }
+    // A single "not found" answer is enough to not make up an address for the CEP
+    const saidNotFound = notFound || providerErrors.some(({ error }) => error instanceof CepNotFoundError);
+    const region = !saidNotFound && this.offlineFallback ? resolveCepRegion(cleanedCep) : undefined;
+    if (region) {
+      this.log('offline:fallback', { cep: cleanedCep, state: region.state, error: lastError?.message });
+      // Approximate results are never cached, so the next lookup tries the providers again
+      const address = this.enrich({
+        cep: cleanedCep,
+        state: region.state,
+        city: region.city ?? "",
+        neighborhood: "",
+        street: "",
+        service: "Offline",
+        approximate: true,
+      });
+      return { address, attempts: maxAttempts, providerErrors };
+    }
     throw lastError!;
   }
 
-  private async _lookupFromProviders<T = Address>(cleanedCep: string, mapper?: (address: Address) => T): Promise<T> {
+  private normalize(address: Address): Address {
+    return this.normalizeOptions ? normalizeAddress(address, this.normalizeOptions) : address;
+  }
+
+  private enrich(address: Address): Address {
+    return enrichAddress(address, this.enrichment);
+  }
+
+  /**
+   * @method assertStateMatchesCep
+   * @description With `validateState`, rejects provider results whose state contradicts the CEP range.
+   */
+  private assertStateMatchesCep(cleanedCep: string, address: Address, providerName: string): void {
+    if (!this.validateState || !address.state) return;
+    const expected = resolveCepRegion(cleanedCep)?.state;
+    if (expected && expected !== address.state.toUpperCase()) {
+      throw new StateMismatchError(cleanedCep, providerName, expected, address.state);
+    }
+  }
+
+  /**
+   * @method runEnrichers
+   * @description Runs the custom enrichers in order, merging each result over the address.
+   * Errors are isolated per enricher: reported as `enricher:error` and the previous address is kept.
+   */
+  private async runEnrichers(address: Address): Promise<Address> {
+    let enriched = address;
+    for (const [index, enricher] of this.enrichers.entries()) {
+      const name = enricher.name || `enricher[${index}]`;
+      const startTime = Date.now();
+      try {
+        const fields = await enricher(enriched);
+        const duration = Date.now() - startTime;
+        if (fields) enriched = { ...enriched, ...fields };
+        this.log('enricher:success', { cep: address.cep, enricher: name, duration });
+        this.emitter.emit('enricher:success', { cep: address.cep, enricher: name, duration });
+      } catch (error) {
+        const duration = Date.now() - startTime;
+        const normalizedError = error instanceof Error ? error : new Error(String(error));
+        this.log('enricher:failure', { cep: address.cep, enricher: name, duration, error: normalizedError.message });
+        this.emitter.emit('enricher:error', { cep: address.cep, enricher: name, duration, error: normalizedError });
+      }
+    }
+    return enriched;
+  }
+
+  /**
+   * @method geocode
+   * @description Fills `location` through the configured geocoder when the provider returned none.
+   */
+  private async geocode(address: Address): Promise<Address> {
+    if (!this.geocoder || address.location) return address;
+    try {
+      const location = await this.geocoder(address);
+      return location ? { ...address, location } : address;
+    } catch (error) {
+      this.log('geocoder:failure', { cep: address.cep, error: (error as Error).message });
+      return address;
+    }
+  }
+
+  private async _lookupFromProviders(
+    cleanedCep: string,
+    externalSignal?: AbortSignal,
+    onProviderError?: (provider: string, error: Error) => void
+  ): Promise<ProviderRoundResult> {
     const controller = new AbortController();
     const { signal } = controller;
-    const availableProviders = this.sortedProviders.filter((provider) => !this.isProviderOpen(provider.name));
-    const providersByHealth = [...availableProviders].sort((a, b) => this.scoreProvider(b) - this.scoreProvider(a));
-    const selectedProviders = providersByHealth.length > 0 ? providersByHealth : [...this.sortedProviders].sort((a, b) => this.scoreProvider(b) - this.scoreProvider(a));
+    const selectedProviders = this.selectProviders(this.sortedProviders);
+
+    // Caller cancellation propagates to every in-flight provider fetch
+    const onExternalAbort = () => controller.abort();
+    externalSignal?.addEventListener('abort', onExternalAbort, { once: true });
+
+    // Each answer carries its own raw response, so the result reports the one the address was built from
+    const createProviderPromise = (provider: Provider): Promise<ProviderRoundResult> => {
+      this.log('provider:start', { provider: provider.name, cep: cleanedCep });
+      return this._queryProvider(
+        provider,
+        signal,
+        cleanedCep,
+        () =>
+          this.fetchFromProvider(provider, cleanedCep, signal).then((response) => {
+            const address = this.normalize(sanitizeAddress(withExtras(provider, response, provider.transform(response))));
+            this.assertStateMatchesCep(cleanedCep, address, provider.name);
+            return this.includeRaw ? { address, raw: response } : { address };
+          }),
+        {
+          success: (duration, { address, raw }) => {
+            this.log('provider:success', { provider: provider.name, cep: cleanedCep, duration });
+            this.emitter.emit('success', {
+              provider: provider.name,
+              cep: cleanedCep,
+              duration,
+              address: this.enrich(address),
+              ...(this.includeRaw && { raw }),
+            });
+          },
+          failure: (duration, error) => {
+            onProviderError?.(provider.name, error);
+            this.log('provider:failure', { provider: provider.name, cep: cleanedCep, error: error.message });
+            this.emitter.emit('failure', { provider: provider.name, cep: cleanedCep, duration, error });
+          },
+        }
+      );
+    };
+
+    const queryTier = (providers: Provider[]): Promise<ProviderRoundResult> => {
+      if (this.strategy === 'consensus' || this.strategy === 'merge') {
+        const collect = this.strategy === 'consensus' ? this._collectConsensus : this._collectMerge;
+        return collect.call(this, cleanedCep, providers, createProviderPromise);
+      }
+      return this._raceProviders(providers, signal, createProviderPromise, cleanedCep);
+    };
 
-    if (selectedProviders.length === 0) {
+    try {
+      const { address, raw } = await this._escalateTiers(selectedProviders, signal, queryTier);
+      return { address: this.enrich(address), raw };
+    } finally {
+      externalSignal?.removeEventListener('abort', onExternalAbort);
+      controller.abort();
+    }
+  }
+
+  /**
+   * @method fetchFromProvider
+   * @description Fetches a CEP through `buildRequest` when the provider defines it, otherwise through `buildUrl`,
+   * using the provider's own fetcher when it has one.
+   */
+  private async fetchFromProvider(provider: Provider, cleanedCep: string, signal: AbortSignal): Promise<any> {
+    const providerFetcher = provider.fetcher || this.fetcher;
+    if (!provider.buildRequest) {
+      return providerFetcher(provider.buildUrl(cleanedCep), signal);
+    }
+    const { url, ...init } = provider.buildRequest(cleanedCep);
+    return providerFetcher(url, signal, init);
+  }
+
+  /**
+   * @method selectProviders
+   * @description Orders the candidates by tier, then priority, then health score, skipping open circuits.
+   * Providers sharing a tier and priority are shuffled by `weight` when any of them declares one.
+   * Providers over their own `rateLimit` or `dailyQuota` are skipped as well.
+   * Throws when every candidate is skipped.
+   */
+  private selectProviders(candidates: Provider[]): Provider[] {
+    const byRank = (a: Provider, b: Provider) =>
+      tierOf(a) - tierOf(b) || (b.priority ?? 0) - (a.priority ?? 0) || this.scoreProvider(b) - this.scoreProvider(a);
+    const skipReason = (provider: Provider) =>
+      this.isProviderOpen(provider.name) ? 'circuit open' : this.quotaExhaustedReason(provider);
+    const availableProviders = candidates.filter((provider) => !skipReason(provider));
+
+    if (candidates.length === 0) {
       throw new AllProvidersFailedError([new ProviderUnavailableError("all")]);
     }
 
-    if (availableProviders.length === 0 && this.circuitBreakerEnabled) {
-      throw new AllProvidersFailedError(selectedProviders.map((p) => new ProviderUnavailableError(p.name)));
+    if (availableProviders.length === 0) {
+      throw new AllProvidersFailedError(candidates.map((p) => new ProviderUnavailableError(p.name, skipReason(p))));
     }
+    // Weighted runs are sampled in configured order, so a given random draw always picks the same provider
+    const byConfiguredOrder = (a: Provider, b: Provider) => candidates.indexOf(a) - candidates.indexOf(b);
+    return splitRuns([...availableProviders].sort(byRank), rankOf).flatMap((run) =>
+      run.some((provider) => provider.weight !== undefined) ? weightedOrder([...run].sort(byConfiguredOrder)) : run
+    );
+  }
 
-    const createProviderPromise = (provider: Provider) => {
-      const startTime = Date.now();
-      const url = provider.buildUrl(cleanedCep);
-      this.log('provider:start', { provider: provider.name, cep: cleanedCep });
+  /**
+   * @method _escalateTiers
+   * @description Runs `queryTier` on the best tier and moves on to the next tier only when the whole tier fails.
+   * With a single tier the tier's error is thrown as is; otherwise every provider error is collected.
+   */
+  private async _escalateTiers<T>(providers: Provider[], signal: AbortSignal, queryTier: (providers: Provider[]) => Promise<T>): Promise<T> {
+    const tiers = splitRuns(providers, tierOf);
+    if (tiers.length === 1) {
+      return queryTier(tiers[0]);
+    }
 
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        if (!provider.timeout) return;
-        const timeoutId = setTimeout(() => {
-          signal.removeEventListener('abort', onAbort);
-          const duration = Date.now() - startTime;
-          const error = new ProviderTimeoutError(provider.name, provider.timeout!);
-          this.recordProviderFailure(provider.name, duration, error);
-          this.log('provider:failure', { provider: provider.name, cep: cleanedCep, error: error.message });
-          this.emitter.emit('failure', { provider: provider.name, cep: cleanedCep, duration, error });
-          reject(error);
-        }, provider.timeout);
-        const onAbort = () => clearTimeout(timeoutId);
-        signal.addEventListener('abort', onAbort, { once: true });
-      });
+    const errors: Error[] = [];
+    for (const [index, tier] of tiers.entries()) {
+      try {
+        return await queryTier(tier);
+      } catch (error) {
+        if (signal.aborted || error instanceof LookupAbortedError) {
+          throw error;
+        }
+        errors.push(...(error instanceof AllProvidersFailedError ? error.errors : [error as Error]));
+        if (index < tiers.length - 1) {
+          this.log('tier:escalate', { from: tierOf(tier[0]), to: tierOf(tiers[index + 1][0]), error: (error as Error).message });
+        }
+      }
+    }
+    throw new AllProvidersFailedError(errors);
+  }
 
-      const fetchPromise = this.fetcher(url, signal)
-        .then((response) => provider.transform(response))
-        .then((address) => {
-          const duration = Date.now() - startTime;
-          const sanitizedAddress = enrichAddress(sanitizeAddress(address));
-          this.recordProviderSuccess(provider.name, duration);
-          this.log('provider:success', { provider: provider.name, cep: cleanedCep, duration });
-          this.emitter.emit('success', { provider: provider.name, cep: cleanedCep, duration, address: sanitizedAddress });
-          if (this.cache) {
-            this.cache.set(cleanedCep, sanitizedAddress);
-          }
-          return mapper ? mapper(sanitizedAddress) : (sanitizedAddress as Address as T);
-        })
-        .catch((error) => {
-          const duration = Date.now() - startTime;
-          const normalizedError = normalizeProviderError(error, cleanedCep, provider.name);
-          if ((normalizedError as Error).name !== 'AbortError' && !(normalizedError instanceof ProviderTimeoutError)) {
-            this.recordProviderFailure(provider.name, duration, normalizedError);
-            this.log('provider:failure', { provider: provider.name, cep: cleanedCep, error: normalizedError.message });
-            this.emitter.emit('failure', { provider: provider.name, cep: cleanedCep, duration, error: normalizedError });
-          }
-          throw normalizedError;
-        });
+  /**
+   * @method _queryProvider
+   * @description Runs one provider request under the provider timeout and records its health.
+   * Failures caused by cancellation are neither recorded nor reported, and neither is skipping a provider
+   * whose quota ran out after it was selected.
+   */
+  private _queryProvider<T>(
+    provider: Provider,
+    signal: AbortSignal,
+    cepForErrors: string,
+    request: () => Promise<T>,
+    report: { success: (duration: number, value: T) => void; failure: (duration: number, error: Error) => void }
+  ): Promise<T> {
+    const startTime = Date.now();
+    const exhausted = this.quotaExhaustedReason(provider);
+    if (exhausted) {
+      return Promise.reject(new ProviderUnavailableError(provider.name, exhausted));
+    }
+    this.consumeQuota(provider);
 
-      return Promise.race([fetchPromise, timeoutPromise]);
-    };
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      if (!provider.timeout) return;
+      const timeoutId = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        const duration = Date.now() - startTime;
+        const error = new ProviderTimeoutError(provider.name, provider.timeout!);
+        this.recordProviderFailure(provider.name, duration, error);
+        report.failure(duration, error);
+        reject(error);
+      }, provider.timeout);
+      const onAbort = () => clearTimeout(timeoutId);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    const requestPromise = request()
+      .then((value) => {
+        const duration = Date.now() - startTime;
+        this.recordProviderSuccess(provider.name, duration);
+        report.success(duration, value);
+        return value;
+      })
+      .catch((error) => {
+        const duration = Date.now() - startTime;
+        const normalizedError = normalizeProviderError(error, cepForErrors, provider.name);
+        const aborted = signal.aborted || (normalizedError as Error).name === 'AbortError';
+        if (!aborted && !(normalizedError instanceof ProviderTimeoutError)) {
+          this.recordProviderFailure(provider.name, duration, normalizedError);
+          report.failure(duration, normalizedError);
+        }
+        throw normalizedError;
+      });
 
-    const bestProvider = selectedProviders[0];
-    const otherProviders = selectedProviders.slice(1);
+    return Promise.race([requestPromise, timeoutPromise]);
+  }
+
+  /**
+   * @method _raceProviders
+   * @description Staggered race: the best provider starts first, the others after `staggerDelay`
+   * or as soon as it fails. Resolves with the first success.
+   */
+  private async _raceProviders<T>(
+    providers: Provider[],
+    signal: AbortSignal,
+    query: (provider: Provider) => Promise<T>,
+    cleanedCep?: string
+  ): Promise<T> {
+    const bestProvider = providers[0];
+    const otherProviders = providers.slice(1);
 
     if (otherProviders.length === 0) {
-      try {
-        return await createProviderPromise(bestProvider);
-      } finally {
-        controller.abort();
-      }
+      return query(bestProvider);
     }
 
     let staggerTimeout: ReturnType<typeof setTimeout> | null = null;
@@ -421,15 +1180,21 @@ export class CepLookup {
     const secondaryPromise = new Promise<T>((resolve, reject) => {
       triggerOthers = () => {
         if (staggerTimeout) clearTimeout(staggerTimeout);
-        if (signal.aborted) return;
-        const promises = otherProviders.map(createProviderPromise);
+        if (signal.aborted) {
+          reject(new LookupAbortedError(cleanedCep));
+          return;
+        }
+        const promises = otherProviders.map(query);
         Promise.any(promises).then(resolve).catch(reject);
       };
 
       staggerTimeout = setTimeout(triggerOthers, this.staggerDelay);
+      signal.addEventListener('abort', () => {
+        if (staggerTimeout) clearTimeout(staggerTimeout);
+      }, { once: true });
     });
 
-    const primaryPromise = createProviderPromise(bestProvider).catch((err) => {
+    const primaryPromise = query(bestProvider).catch((err) => {
       if (triggerOthers) triggerOthers();
       throw err;
     });
@@ -441,30 +1206,216 @@ export class CepLookup {
       throw new AllProvidersFailedError(errors);
     } finally {
       if (staggerTimeout) clearTimeout(staggerTimeout);
+    }
+  }
+
+  /**
+   * @method searchByAddress
+   * @description Searches CEPs by state, city and street using the providers that implement `buildSearchUrl`.
+   * Uses the same staggered failover, circuit breaker and rate limit as `lookup`; every candidate is written
+   * to the cache under its CEP, so a follow-up `lookup` is served from cache.
+   */
+  async searchByAddress(query: AddressQuery, options?: LookupOptions): Promise<Address[]> {
+    const signal = options?.signal;
+    this.checkRateLimit();
+    const cleanedQuery = validateAddressQuery(query);
+    if (signal?.aborted) {
+      throw new LookupAbortedError();
+    }
+    const searchProviders = this.sortedProviders.filter((provider) => provider.buildSearchUrl && provider.transformSearch);
+    if (searchProviders.length === 0) {
+      throw new SearchUnsupportedError();
+    }
+    this.log('search:start', { ...cleanedQuery });
+
+    const controller = new AbortController();
+    const onExternalAbort = () => controller.abort();
+    signal?.addEventListener('abort', onExternalAbort, { once: true });
+
+    const searchProvider = (provider: Provider) => {
+      const url = provider.buildSearchUrl!(cleanedQuery);
+      const providerFetcher = provider.fetcher || this.fetcher;
+      this.log('provider:start', { provider: provider.name, ...cleanedQuery });
+      return this._queryProvider(
+        provider,
+        controller.signal,
+        "",
+        () =>
+          providerFetcher(url, controller.signal).then((response) => {
+            // Extras are picked per item when the response is a list aligned with the candidates (e.g. ViaCEP)
+            const items = Array.isArray(response) ? response : undefined;
+            return provider.transformSearch!(response).map((address, index) => {
+              const withProviderExtras = items ? withExtras(provider, items[index], address) : address;
+              return this.enrich(this.normalize(sanitizeAddress(withProviderExtras)));
+            });
+          }),
+        {
+          success: (duration, results) => {
+            this.log('search:success', { provider: provider.name, duration, count: results.length });
+            this.emitter.emit('search:success', { provider: provider.name, query: cleanedQuery, duration, results });
+          },
+          failure: (duration, error) => {
+            this.log('search:failure', { provider: provider.name, error: error.message });
+            this.emitter.emit('search:failure', { provider: provider.name, query: cleanedQuery, duration, error });
+          },
+        }
+      );
+    };
+
+    try {
+      const results = await raceWithAbort(
+        this._escalateTiers(this.selectProviders(searchProviders), controller.signal, (providers) =>
+          this._raceProviders(providers, controller.signal, searchProvider)
+        ),
+        undefined,
+        signal
+      );
+      // Candidates are cached under their CEP, so they get the same geocoder and enrichers as a lookup
+      const candidates = await raceWithAbort(
+        Promise.all(results.map(async (address) => this.runEnrichers(await this.geocode(address)))),
+        undefined,
+        signal
+      );
+      candidates.forEach((address) => this.writeCache(address.cep, address));
+      return candidates;
+    } finally {
+      signal?.removeEventListener('abort', onExternalAbort);
       controller.abort();
     }
   }
 
-  public async lookupCeps<T = Address>(ceps: string[], concurrency: number = 5, mapper?: (address: Address) => T): Promise<BulkCepResult<T>[]> {
+  /**
+   * @method _collectConsensus
+   * @description Queries all providers at once, waits for `quorum` answers (or for every provider to settle)
+   * and returns the majority value per field. Disagreements are attached to `meta` and emitted as `discrepancy`.
+   */
+  private _collectConsensus(
+    cleanedCep: string,
+    providers: Provider[],
+    query: (provider: Provider) => Promise<ProviderRoundResult>
+  ): Promise<ProviderRoundResult> {
+    const quorum = Math.max(1, Math.min(this.consensusQuorum, providers.length));
+    const answers: ProviderAnswer[] = [];
+    const errors: Error[] = [];
+    let settled = 0;
+
+    return new Promise<ProviderRoundResult>((resolve, reject) => {
+      let done = false;
+      const finish = () => {
+        if (done) return;
+        done = true;
+        if (answers.length === 0) {
+          reject(new AllProvidersFailedError(errors));
+          return;
+        }
+        const { address, discrepancies } = buildConsensus(answers);
+        if (discrepancies.length > 0) {
+          this.log('discrepancy', { cep: cleanedCep, fields: discrepancies.map((d) => d.field) });
+          this.emitter.emit('discrepancy', { cep: cleanedCep, discrepancies });
+        }
+        resolve({ address, raw: answers[0].raw });
+      };
+
+      providers.forEach((provider) => {
+        query(provider)
+          .then(
+            ({ address, raw }) => {
+              answers.push({ provider: provider.name, address, raw });
+              if (answers.length >= quorum) finish();
+            },
+            (error) => {
+              errors.push(error);
+            }
+          )
+          .finally(() => {
+            settled += 1;
+            if (settled === providers.length) finish();
+          });
+      });
+    });
+  }
+
+  /**
+   * @method _collectMerge
+   * @description Queries all providers at once and keeps the fastest answer. If it lacks any of the merge fields,
+   * answers arriving within `graceMs` fill them in; per-field provenance is attached to `meta`.
+   */
+  private _collectMerge(
+    cleanedCep: string,
+    providers: Provider[],
+    query: (provider: Provider) => Promise<ProviderRoundResult>
+  ): Promise<ProviderRoundResult> {
+    const answers: ProviderAnswer[] = [];
+    const errors: Error[] = [];
+    let settled = 0;
+
+    return new Promise<ProviderRoundResult>((resolve, reject) => {
+      let done = false;
+      let graceTimeout: ReturnType<typeof setTimeout> | null = null;
+      const finish = () => {
+        if (done) return;
+        done = true;
+        if (graceTimeout) clearTimeout(graceTimeout);
+        if (answers.length === 0) {
+          reject(new AllProvidersFailedError(errors));
+          return;
+        }
+        const address = buildMerge(answers, this.mergeFields);
+        this.log('merge', { cep: cleanedCep, provenance: address.meta?.provenance });
+        resolve({ address, raw: answers[0].raw });
+      };
+      const isComplete = () => this.mergeFields.every((field) => answers.some(({ address }) => address[field]));
+
+      providers.forEach((provider) => {
+        query(provider)
+          .then(
+            ({ address, raw }) => {
+              if (done) return;
+              answers.push({ provider: provider.name, address, raw });
+              if (isComplete()) {
+                finish();
+              } else if (answers.length === 1) {
+                graceTimeout = setTimeout(finish, this.mergeGraceMs);
+              }
+            },
+            (error) => {
+              errors.push(error);
+            }
+          )
+          .finally(() => {
+            settled += 1;
+            if (settled === providers.length) finish();
+          });
+      });
+    });
+  }
+
+  public async lookupCeps<T = Address>(ceps: string[], concurrency: number = 5, mapper?: (address: Address) => T, options?: BulkLookupOptions): Promise<BulkCepResult<T>[]> {
     if (!ceps || ceps.length === 0) {
       return [];
     }
+    const signal = options?.signal;
+    if (signal?.aborted) {
+      throw new LookupAbortedError();
+    }
 
     const results: BulkCepResult<T>[] = new Array(ceps.length);
     let cepIndex = 0;
 
     const worker = async () => {
-      while (cepIndex < ceps.length) {
+      while (cepIndex < ceps.length && !signal?.aborted) {
         const currentIndex = cepIndex++;
         if (currentIndex >= ceps.length) break;
         const cep = ceps[currentIndex];
         try {
-          const address = await this.lookup(cep);
+          const details = options?.detailed ? await this.lookupDetailed(cep, { signal }) : undefined;
+          const address = details ? details.address : await this.lookup(cep, undefined, { signal });
           if (address) {
             results[currentIndex] = {
               cep,
               data: mapper ? mapper(address) : (address as unknown as T),
               provider: address.service,
+              ...(details ? { details } : {}),
             };
           } else {
             throw new Error('No address found');
@@ -478,6 +1429,10 @@ export class CepLookup {
     const workers = Array.from({ length: Math.min(concurrency, ceps.length) }, () => worker());
     await Promise.all(workers);
 
+    if (signal?.aborted) {
+      throw new LookupAbortedError();
+    }
+
     return results.filter(Boolean);
   }
 }
@@ -0,0 +1,48 @@
+import { municipalities, municipalityAliases } from "./data/municipalities";
+
+/**
+ * @interface Municipality
+ * @description A bundled municipality record.
+ */
+export interface Municipality {
+  ibge: string;
+  state: string;
+  city: string;
+  ddd: string;
+}
+
+/**
+ * @function normalizeCityName
+ * @description Normalizes a municipality name for matching: no accents, lowercase, hyphens and
+ * apostrophes as spaces ("Santa Bárbara d'Oeste" → "santa barbara d oeste").
+ */
+export function normalizeCityName(city: string): string {
+  return city
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/['’`\-\/]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+const toMunicipality = ([ibge, state, city, ddd]: (typeof municipalities)[number]): Municipality => ({ ibge, state, city, ddd });
+
+const byIbge = new Map(municipalities.map((row) => [row[0], toMunicipality(row)]));
+const byName = new Map(municipalities.map((row) => [`${row[1]}:${normalizeCityName(row[2])}`, toMunicipality(row)]));
+municipalityAliases.forEach(([state, alias, city]) => {
+  const municipality = byName.get(`${state}:${normalizeCityName(city)}`);
+  if (municipality) byName.set(`${state}:${normalizeCityName(alias)}`, municipality);
+});
+
+/**
+ * @function findMunicipality
+ * @description Finds a bundled municipality by IBGE code, falling back to state + normalized city name
+ * (including known variants such as DF administrative regions, which belong to Brasília).
+ */
+export function findMunicipality(location: { ibge?: string; state?: string; city?: string }): Municipality | undefined {
+  const fromIbge = location.ibge ? byIbge.get(location.ibge) : undefined;
+  if (fromIbge) return fromIbge;
+  if (!location.state || !location.city) return undefined;
+  return byName.get(`${location.state.toUpperCase()}:${normalizeCityName(location.city)}`);
+}
@@ -0,0 +1,78 @@
+import { existsSync, readFileSync, renameSync, writeFileSync } from "fs";
+import { InMemoryCache, InMemoryCacheOptions, CacheSnapshot } from "../cache";
+
+export type { CacheSnapshot };
+
+export interface FileCacheOptions extends InMemoryCacheOptions {
+  /** File the snapshot is read from on construction and written to on every flush. */
+  path: string;
+  /** Interval in ms between automatic flushes. Use 0 to only flush manually. Default: 60000 */
+  interval?: number;
+  /** Called when an automatic flush fails (e.g. missing directory, EACCES, disk full). Such errors never throw. */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * @class FileCache
+ * @description `InMemoryCache` that reloads a snapshot from disk on construction and persists it on an interval.
+ * Node.js only; import it from `@eusilvio/cep-lookup/node`.
+ */
+export class FileCache extends InMemoryCache {
+  private path: string;
+  private timer?: ReturnType<typeof setInterval>;
+  private onError?: (error: Error) => void;
+
+  constructor(options: FileCacheOptions) {
+    super(options);
+    this.path = options.path;
+    this.onError = options.onError;
+    this.restore();
+
+    const interval = options.interval ?? 60000;
+    if (interval > 0) {
+      this.timer = setInterval(() => this.flushSafely(), interval);
+      // Never keep the process alive just to persist the cache
+      this.timer.unref?.();
+    }
+  }
+
+  private restore(): void {
+    if (!existsSync(this.path)) return;
+    try {
+      this.load(JSON.parse(readFileSync(this.path, "utf8")) as CacheSnapshot);
+    } catch {
+      // A corrupt or partial snapshot only costs a cold cache
+    }
+  }
+
+  /** Interval flush: a failed write must never crash the host process. */
+  private flushSafely(): void {
+    try {
+      this.flush();
+    } catch (error) {
+      this.onError?.(error as Error);
+    }
+  }
+
+  /**
+   * @method flush
+   * @description Writes the current snapshot atomically (temp file + rename).
+   */
+  flush(): void {
+    const tempPath = `${this.path}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(this.export()));
+    renameSync(tempPath, this.path);
+  }
+
+  /**
+   * @method stop
+   * @description Stops the flush interval and writes a final snapshot.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.flush();
+  }
+}
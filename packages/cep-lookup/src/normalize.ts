@@ -0,0 +1,98 @@
+import { nameAbbreviations, streetTypeAbbreviations } from "./data/street-abbreviations";
+import { findMunicipality, normalizeCityName } from "./municipalities";
+import { parseStreet } from "./street";
+import { abbreviationKey, foldToAscii } from "./text";
+import { Address, NormalizeOptions } from "./types";
+
+/** Portuguese articles, prepositions and contractions kept lowercase by title casing (except as the first word). */
+const STOPWORDS = new Set([
+  "a", "as", "o", "os", "e", "de", "da", "das", "do", "dos", "na", "nas", "no", "nos", "em", "com", "para", "por", "sem",
+]);
+
+/** Roman numerals built from I, V and X ("XV de Novembro", "João XXIII"). */
+const ROMAN_NUMERAL = /^(x{0,3})(ix|iv|v?i{0,3})$/i;
+
+/** Highway codes such as "BR-116" and "SP-330", kept uppercase. */
+const HIGHWAY_CODE = /^[a-z]{2}-\d+$/i;
+
+/**
+ * @function expandAbbreviations
+ * @description Expands a leading street type ("R.", "Av", "Pça.") and dotted titles anywhere ("Dr.", "Sta.").
+ */
+function expandAbbreviations(text: string): string {
+  return text
+    .split(" ")
+    .map((token, index) => {
+      const key = abbreviationKey(token);
+      if (index === 0 && streetTypeAbbreviations[key]) return streetTypeAbbreviations[key];
+      if (token.endsWith(".") && nameAbbreviations[key]) return nameAbbreviations[key];
+      return token;
+    })
+    .join(" ");
+}
+
+function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/**
+ * @function toTitleCase
+ * @description Title cases text, keeping Portuguese stopwords lowercase and Roman numerals and highway codes
+ * uppercase. A stopword is only lowercased between two words, so lettered streets and sectors keep their letter
+ * ("Rua A", "Setor O"). Hyphenated and elided words are capitalized per part ("Ji-Paraná", "d'Oeste").
+ */
+function toTitleCase(text: string): string {
+  const words = text.toLowerCase().split(" ");
+  return words
+    .map((word, index) => {
+      if (!word) return word;
+      if (index > 0 && index < words.length - 1 && STOPWORDS.has(word)) return word;
+      if (ROMAN_NUMERAL.test(word) || HIGHWAY_CODE.test(word)) return word.toUpperCase();
+      if (/^d'./.test(word)) return `d'${capitalize(word.slice(2))}`;
+      return word.split("-").map(capitalize).join("-");
+    })
+    .join(" ");
+}
+
+/**
+ * @function normalizeAddress
+ * @description Normalizes the text fields of an address: expands abbreviations in `street`/`neighborhood`,
+ * title cases `street`, `neighborhood` and `city` (using the official spelling for known municipalities),
+ * upper-cases `state` and optionally adds accent-free `ascii` copies for search indexing.
+ */
+export function normalizeAddress(address: Address, options: NormalizeOptions = {}): Address {
+  const { expandAbbreviations: expand = true, titleCase = true, asciiVariants = false } = options;
+  const clean = (text: string) => {
+    const collapsed = text.replace(/\s+/g, " ").trim();
+    const expanded = expand ? expandAbbreviations(collapsed) : collapsed;
+    return titleCase ? toTitleCase(expanded) : expanded;
+  };
+
+  const normalized: Address = {
+    ...address,
+    state: address.state.toUpperCase(),
+    street: clean(address.street),
+    neighborhood: clean(address.neighborhood),
+  };
+
+  if (address.streetName !== undefined) {
+    // Re-derive the structured parts from the normalized street; the provider's complement is kept as is
+    const { streetType, streetName } = parseStreet(normalized.street);
+    if (streetType) normalized.streetType = streetType;
+    else delete normalized.streetType;
+    normalized.streetName = streetName;
+  }
+
+  const municipality = findMunicipality({ state: normalized.state, city: address.city });
+  const officialCity = municipality && normalizeCityName(municipality.city) === normalizeCityName(address.city);
+  normalized.city = officialCity ? municipality.city : titleCase ? toTitleCase(address.city.replace(/\s+/g, " ").trim()) : address.city;
+
+  if (asciiVariants) {
+    normalized.ascii = {
+      street: foldToAscii(normalized.street),
+      neighborhood: foldToAscii(normalized.neighborhood),
+      city: foldToAscii(normalized.city),
+    };
+  }
+  return normalized;
+}
@@ -1,4 +1,11 @@
 import { Address, Provider } from "../types";
+import { parseStreet } from "../street";
+
+/** ApiCEP status fields without an `Address` counterpart, exposed as `address.extras`. */
+export interface ApiCepExtras {
+  ok?: boolean;
+  statusText?: string;
+}
 
 /**
  * @const {Provider} apicepProvider
@@ -6,8 +13,9 @@ import { Address, Provider } from "../types";
  * @property {string} name - "ApiCEP".
  * @property {(cep: string) => string} buildUrl - Constructs the URL for ApiCEP.
  * @property {(response: any) => Address} transform - Transforms ApiCEP's response into a standardized `Address` object.
+ * @property {(response: any) => ApiCepExtras} extras - Picks the `ok` and `statusText` status fields.
  */
-export const apicepProvider: Provider = {
+export const apicepProvider: Provider<ApiCepExtras> = {
   name: "ApiCEP",
   buildUrl: (cep: string) => `https://cdn.apicep.com/file/apicep/${cep}.json`,
   transform: (response: any): Address => {
@@ -20,7 +28,12 @@ export const apicepProvider: Provider = {
       city: response.city || "",
       neighborhood: response.district || "",
       street: response.address || "",
+      ...parseStreet(response.address || ""),
       service: "ApiCEP",
     };
   },
+  extras: (response: any): ApiCepExtras => ({
+    ok: response.ok,
+    statusText: response.statusText,
+  }),
 };
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Address, Provider } from "../types";
+import { parseStreet } from "../street";
 
 /**
  * @const {Provider} brasilApiProvider
@@ -20,7 +21,29 @@ export const brasilApiProvider: Provider = {
       city: response.city || "",
       neighborhood: response.neighborhood || "",
       street: response.street || "",
+      ...parseStreet(response.street || ""),
       service: "BrasilAPI",
     };
   },
-};
\ No newline at end of file
+};
+/**
+ * @const {Provider} brasilApiV2Provider
+ * @description Provider for BrasilAPI's v2 endpoint, which adds coordinates when available.
+ * @property {string} name - "BrasilAPIv2".
+ * @property {(cep: string) => string} buildUrl - Constructs the URL for BrasilAPI v2.
+ * @property {(response: any) => Address} transform - Transforms the response into an `Address`, with `location` when present.
+ */
+export const brasilApiV2Provider: Provider = {
+  name: "BrasilAPIv2",
+  buildUrl: (cep: string) => `https://brasilapi.com.br/api/cep/v2/${cep}`,
+  transform: (response: any): Address => {
+    const address = { ...brasilApiProvider.transform(response), service: "BrasilAPIv2" };
+    const coordinates = response.location?.coordinates;
+    const lat = parseFloat(coordinates?.latitude);
+    const lng = parseFloat(coordinates?.longitude);
+    if (Number.isFinite(lat) && Number.isFinite(lng)) {
+      address.location = { lat, lng, precision: "street" };
+    }
+    return address;
+  },
+};
@@ -0,0 +1,107 @@
+import { Address, Fetcher, FetcherInit, Provider } from "../types";
+import { ProviderUnavailableError } from "../errors";
+import { parseStreet } from "../street";
+
+const CORREIOS_SIGEP_URL = "https://apps.correios.com.br/SigepMasterJPA/AtendeClienteService/AtendeCliente";
+
+/** Fault messages SIGEP uses for CEPs that do not exist or are malformed. */
+const NOT_FOUND_FAULTS = /CEP N[AÃ]O ENCONTRADO|CEP INV[AÁ]LIDO/i;
+
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] !== "#") return XML_ENTITIES[code] ?? entity;
+    return String.fromCodePoint(code[1].toLowerCase() === "x" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10));
+  });
+}
+
+/** Reads the text of the first `<tag>` (with or without a namespace prefix). */
+function parseXmlTag(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([^<]*)</(?:\\w+:)?${tag}>`));
+  return match ? decodeXml(match[1]).trim() : undefined;
+}
+
+function buildEnvelope(cep: string): string {
+  return (
+    '<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:cli="http://cliente.bean.master.sigep.bsb.correios.com.br/">' +
+    "<soapenv:Header/>" +
+    `<soapenv:Body><cli:consultaCEP><cep>${cep}</cep></cli:consultaCEP></soapenv:Body>` +
+    "</soapenv:Envelope>"
+  );
+}
+
+/** SOAP faults come back with HTTP 500, so the body is read before the status is checked. */
+const soapFetcher: Fetcher = async (url: string, signal?: AbortSignal, init?: FetcherInit) => {
+  const response = await fetch(url, { ...init, signal });
+  const text = await response.text();
+  if (!response.ok && !/<(?:\w+:)?Fault[\s>]/.test(text)) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return text;
+};
+
+export interface CorreiosProviderOptions {
+  /** SOAP endpoint. Default: the SIGEP production `AtendeCliente` service. */
+  url?: string;
+}
+
+/**
+ * Creates a provider for the Correios SIGEP `consultaCEP` SOAP operation.
+ * The provider posts the SOAP envelope and parses the XML with its own fetcher, so no custom global fetcher is needed.
+ *
+ * Faults for unknown or malformed CEPs are reported as "CEP not found" (surfaced as `CepNotFoundError`);
+ * any other fault throws `ProviderUnavailableError`.
+ */
+export function createCorreiosProvider(options?: CorreiosProviderOptions): Provider {
+  const url = options?.url ?? CORREIOS_SIGEP_URL;
+
+  return {
+    name: "Correios",
+    fetcher: soapFetcher,
+    buildUrl: () => url,
+    buildRequest: (cep: string) => ({
+      url,
+      method: "POST",
+      headers: { "Content-Type": "text/xml; charset=utf-8", SOAPAction: '""' },
+      body: buildEnvelope(cep),
+    }),
+    transform: (xml: string): Address => {
+      if (/<(?:\w+:)?Fault[\s>]/.test(xml)) {
+        const fault = parseXmlTag(xml, "faultstring") || "SOAP fault";
+        if (NOT_FOUND_FAULTS.test(fault)) {
+          throw new Error("CEP not found");
+        }
+        throw new ProviderUnavailableError("Correios", fault);
+      }
+
+      const cep = parseXmlTag(xml, "cep");
+      if (!cep) {
+        throw new Error("CEP not found");
+      }
+
+      const street = parseXmlTag(xml, "end") || "";
+      // `complemento2` carries the range or side ("- lado ímpar"); `complemento` is rarely filled
+      const complement = [parseXmlTag(xml, "complemento"), parseXmlTag(xml, "complemento2")]
+        .map((part) => (part || "").replace(/^-\s*/, ""))
+        .filter(Boolean)
+        .join(" ");
+
+      return {
+        cep: cep.replace("-", ""),
+        state: parseXmlTag(xml, "uf") || "",
+        city: parseXmlTag(xml, "cidade") || "",
+        neighborhood: parseXmlTag(xml, "bairro") || "",
+        street,
+        ...parseStreet(street, complement || undefined),
+        service: "Correios",
+      };
+    },
+  };
+}
+
+/**
+ * @const {Provider} correiosProvider
+ * @description Provider for the Correios SIGEP `consultaCEP` SOAP service, using the production endpoint.
+ */
+export const correiosProvider: Provider = createCorreiosProvider();
@@ -3,4 +3,4 @@ export * from "./viacep";
 export * from "./brasil-api";
 export * from "./apicep";
 export * from "./opencep";
-
+export * from "./correios";
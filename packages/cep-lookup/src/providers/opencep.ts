@@ -1,4 +1,5 @@
 import { Address, Provider } from "../types";
+import { parseStreet } from "../street";
 
 /**
  * @const {Provider} openCepProvider
@@ -26,6 +27,7 @@ export const openCepProvider: Provider = {
       city: response.localidade || "",
       neighborhood: response.bairro || "",
       street: response.logradouro || "",
+      ...parseStreet(response.logradouro || "", response.complemento),
       service: "OpenCEP",
       ibge: response.ibge || undefined,
     };
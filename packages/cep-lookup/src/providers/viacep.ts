@@ -1,4 +1,26 @@
-import { Address, Provider } from "../types";
+import { Address, AddressQuery, Provider } from "../types";
+import { parseStreet } from "../street";
+
+function toAddress(response: any): Address {
+  return {
+    cep: (response.cep || "").replace("-", ""),
+    state: response.uf || "",
+    city: response.localidade || "",
+    neighborhood: response.bairro || "",
+    street: response.logradouro || "",
+    ...parseStreet(response.logradouro || "", response.complemento),
+    service: "ViaCEP",
+    ibge: response.ibge || undefined,
+    ddd: response.ddd || undefined,
+  };
+}
+
+/** ViaCEP fields without an `Address` counterpart, exposed as `address.extras`. */
+export interface ViaCepExtras {
+  gia?: string;
+  siafi?: string;
+  unidade?: string;
+}
 
 /**
  * @const {Provider} viaCepProvider
@@ -6,24 +28,31 @@ import { Address, Provider } from "../types";
  * @property {string} name - "ViaCEP".
  * @property {(cep: string) => string} buildUrl - Constructs the URL for ViaCEP API.
  * @property {(response: any) => Address} transform - Transforms ViaCEP's response into a standardized `Address` object.
+ * @property {(response: any) => ViaCepExtras} extras - Picks the GIA, SIAFI and unit codes.
+ * @property {(query: AddressQuery) => string} buildSearchUrl - Constructs the `/ws/{UF}/{city}/{street}/json/` search URL.
+ * @property {(response: any) => Address[]} transformSearch - Transforms ViaCEP's search results into `Address` objects.
  * @throws {Error} If ViaCEP response indicates an error (e.g., CEP not found).
  */
-export const viaCepProvider: Provider = {
+export const viaCepProvider: Provider<ViaCepExtras> = {
   name: "ViaCEP",
   buildUrl: (cep: string) => `https://viacep.com.br/ws/${cep}/json/`,
   transform: (response: any): Address => {
     if (!response || response.erro === true || response.erro === "true") {
       throw new Error("CEP not found");
     }
-    return {
-      cep: (response.cep || "").replace("-", ""),
-      state: response.uf || "",
-      city: response.localidade || "",
-      neighborhood: response.bairro || "",
-      street: response.logradouro || "",
-      service: "ViaCEP",
-      ibge: response.ibge || undefined,
-      ddd: response.ddd || undefined,
-    };
+    return toAddress(response);
+  },
+  extras: (response: any): ViaCepExtras => ({
+    gia: response.gia || undefined,
+    siafi: response.siafi || undefined,
+    unidade: response.unidade || undefined,
+  }),
+  buildSearchUrl: ({ state, city, street }: AddressQuery) =>
+    `https://viacep.com.br/ws/${encodeURIComponent(state)}/${encodeURIComponent(city)}/${encodeURIComponent(street)}/json/`,
+  transformSearch: (response: any): Address[] => {
+    if (!Array.isArray(response)) {
+      throw new Error("Unexpected ViaCEP search response");
+    }
+    return response.map(toAddress);
   },
 };
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { cepRangesByCity, cepRangesByState } from "./data/cep-ranges";
+import { CepValidationError } from "./errors";
+
+/**
+ * @interface CepRegion
+ * @description State (and, for major cities, city) implied by a CEP's range.
+ */
+export interface CepRegion {
+  state: string;
+  city?: string;
+}
+
+/**
+ * @function resolveCepRegion
+ * @description Resolves the UF (and city, when the CEP falls in a major city's range) from the bundled
+ * Correios ranges, without any network call.
+ * @param {string} cep - CEP in NNNNNNNN or NNNNN-NNN format.
+ * @returns {CepRegion | undefined} The region, or `undefined` when the CEP is outside every known range.
+ * @throws {CepValidationError} If the CEP format is invalid.
+ */
+export function resolveCepRegion(cep: string): CepRegion | undefined {
+  if (!/^(\d{8}|\d{5}-\d{3})$/.test(cep)) {
+    throw new CepValidationError(cep);
+  }
+  const prefix = parseInt(cep.slice(0, 5), 10);
+  const stateRange = cepRangesByState.find(([start, end]) => prefix >= start && prefix <= end);
+  if (!stateRange) return undefined;
+  const cityRange = cepRangesByCity.find(([start, end]) => prefix >= start && prefix <= end);
+  return cityRange ? { state: stateRange[2], city: cityRange[3] } : { state: stateRange[2] };
+}
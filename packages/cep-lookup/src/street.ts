@@ -0,0 +1,48 @@
+import { streetTypeAbbreviations, streetTypes } from "./data/street-abbreviations";
+import { abbreviationKey } from "./text";
+
+/**
+ * @interface StreetParts
+ * @description Structured breakdown of a logradouro.
+ */
+export interface StreetParts {
+  /** Full street type ("Rua", "Avenida", "Praça"), expanded when abbreviated. */
+  streetType?: string;
+  /** Street name without its type or complement ("da Sé", "Paulista"). */
+  streetName?: string;
+  /** Range or side qualifier ("lado ímpar", "até 999/1000"). */
+  complement?: string;
+}
+
+const streetTypesByKey = new Map(streetTypes.map((type) => [abbreviationKey(type), type]));
+
+/**
+ * @function parseStreet
+ * @description Splits a street into type, name and complement. The complement comes from the provider's
+ * own field when it has one (ViaCEP's `complemento`), otherwise from text after " - " in the street itself.
+ * @param {string} street - Raw street, e.g. "Avenida Paulista - lado ímpar".
+ * @param {string} [complement] - Raw complement field, if the provider returns one.
+ */
+export function parseStreet(street: string, complement?: string): StreetParts {
+  const parts: StreetParts = {};
+  const text = (street || "").replace(/\s+/g, " ").trim();
+  const [main, ...rest] = text.split(" - ");
+  const embeddedComplement = rest.join(" - ").trim();
+  const rawComplement = (complement || "").trim() || embeddedComplement;
+
+  if (main) {
+    const [first, ...nameWords] = main.split(" ");
+    const key = abbreviationKey(first);
+    const streetType = nameWords.length > 0 ? streetTypesByKey.get(key) ?? streetTypeAbbreviations[key] : undefined;
+    if (streetType) {
+      parts.streetType = streetType;
+      parts.streetName = nameWords.join(" ");
+    } else {
+      parts.streetName = main;
+    }
+  }
+  if (rawComplement) {
+    parts.complement = rawComplement;
+  }
+  return parts;
+}
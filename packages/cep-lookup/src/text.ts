@@ -0,0 +1,12 @@
+/**
+ * @function foldToAscii
+ * @description Removes accents and cedillas ("Praça São João" → "Praca Sao Joao").
+ */
+export function foldToAscii(text: string): string {
+  return text.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+}
+
+/** Lookup key for the abbreviation tables: lowercase, accent-free, without a trailing dot. */
+export function abbreviationKey(token: string): string {
+  return foldToAscii(token.toLowerCase()).replace(/\.$/, "");
+}
@@ -13,24 +13,155 @@ export interface Address {
   service: string;
   ibge?: string;
   ddd?: string;
+  /** Street type ("Rua", "Avenida", "Praça"), expanded when the provider abbreviates it. */
+  streetType?: string;
+  /** Street name without type or complement ("da Sé", "Paulista"). */
+  streetName?: string;
+  /** Range or side qualifier of the CEP ("lado ímpar", "até 999/1000"). */
+  complement?: string;
+  /** True when `ibge` was inferred from the bundled municipality table instead of supplied by the provider. */
+  ibgeInferred?: boolean;
+  /** True when the address was inferred offline from the CEP range (`offlineFallback`) rather than a provider. */
+  approximate?: boolean;
+  /** Accent-free copies of the text fields for search indexing (`normalize: { asciiVariants: true }`). */
+  ascii?: { street: string; neighborhood: string; city: string };
+  /** Coordinates from the provider or the configured `geocoder`. */
+  location?: AddressLocation;
+  /** How the address was assembled when a multi-provider strategy is used. */
+  meta?: AddressMeta;
+  /** Provider-specific fields declared through `Provider.extras` (e.g. ViaCEP's `gia` and `siafi`). */
+  extras?: Record<string, unknown>;
+}
+
+/**
+ * @interface AddressLocation
+ * @description Coordinates of an address and how precise they are.
+ */
+export interface AddressLocation {
+  lat: number;
+  lng: number;
+  /** `exact` for the address itself, otherwise the area the point represents (e.g. a city centroid). */
+  precision: 'exact' | 'street' | 'neighborhood' | 'city';
+}
+
+/**
+ * @typedef Geocoder
+ * @description Fills coordinates for addresses whose provider returned none. Return `undefined` when unknown.
+ */
+export type Geocoder = (address: Address) => AddressLocation | undefined | Promise<AddressLocation | undefined>;
+
+/**
+ * @typedef Enricher
+ * @description Post-processes a provider result. Returned fields are merged over the address (add or override);
+ * returning nothing keeps it unchanged. May be async.
+ */
+export type Enricher = (address: Address) => Partial<Address> | void | Promise<Partial<Address> | void>;
+
+/**
+ * @typedef AddressField
+ * @description Text fields of `Address` that providers can disagree on or fill in for each other.
+ */
+export type AddressField = 'cep' | 'state' | 'city' | 'neighborhood' | 'street' | 'ibge' | 'ddd';
+
+/**
+ * @typedef LookupStrategy
+ * @description `race` returns the first successful provider; `consensus` returns the majority value per field;
+ * `merge` keeps the fastest answer and fills its missing fields from providers answering shortly after.
+ */
+export type LookupStrategy = 'race' | 'consensus' | 'merge';
+
+/**
+ * @interface FieldDiscrepancy
+ * @description Providers that disagreed on a field, and the value that was chosen.
+ */
+export interface FieldDiscrepancy {
+  field: AddressField;
+  chosen: string;
+  values: Array<{ provider: string; value: string | undefined }>;
+}
+
+/**
+ * @interface AddressMeta
+ * @description Metadata attached to addresses assembled from several providers.
+ */
+export interface AddressMeta {
+  strategy: LookupStrategy;
+  /** Providers whose answers were combined, in the order they answered. */
+  providers: string[];
+  discrepancies?: FieldDiscrepancy[];
+  /** Provider each field was taken from (`merge` strategy). */
+  provenance?: Partial<Record<AddressField, string>>;
 }
 
 /**
  * @interface Provider
  * @description Defines the contract for a CEP lookup provider.
  */
-export interface Provider {
+export interface Provider<TExtras extends object = object> {
   name: string;
   timeout?: number;
+  /** Fallback group. Lower tiers are raced first; a tier is only tried once every provider before it failed. Default: 0 */
+  tier?: number;
+  /** Order within a tier: higher priorities lead ahead of the health score. Default: 0 */
+  priority?: number;
+  /** Relative share of lookups led by this provider among providers with the same tier and priority. */
+  weight?: number;
+  /** Requests allowed per window for this provider. Once reached, it is skipped like an open circuit. */
+  rateLimit?: RateLimitOptions;
+  /** Requests allowed per day (UTC) for this provider. Once used up, it is skipped until midnight UTC. */
+  dailyQuota?: number;
   buildUrl: (cep: string) => string;
+  /** Builds the full HTTP request (method, headers, body). Takes precedence over `buildUrl` for lookups. */
+  buildRequest?: (cep: string) => ProviderRequest;
+  /** Override the global fetcher for this provider (e.g. for XML or SOAP APIs). */
+  fetcher?: Fetcher;
   transform: (response: any) => Address;
+  /**
+   * Picks provider-specific fields from the raw response; they are merged into `address.extras`.
+   * For searches, it receives each item of an array response.
+   */
+  extras?: (response: any) => TExtras;
+  /** Builds the URL for an address → CEP search. Providers without it are skipped by `searchByAddress`. */
+  buildSearchUrl?: (query: AddressQuery) => string;
+  /** Transforms the search response into candidate addresses. An empty list means nothing matched. */
+  transformSearch?: (response: any) => Address[];
+}
+
+/**
+ * @interface ProviderRequest
+ * @description HTTP request built by `Provider.buildRequest`, e.g. for APIs that need an API key header or a POST body.
+ */
+export interface ProviderRequest {
+  url: string;
+  /** Default: "GET" */
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
 }
 
 /**
- * @typedef {function(url: string, signal?: AbortSignal): Promise<any>}
- * @description A function that fetches data from a given URL.
+ * @typedef FetcherInit
+ * @description Request details passed to the `Fetcher` for providers that define `buildRequest`.
  */
-export type Fetcher = (url: string, signal?: AbortSignal) => Promise<any>;
+export type FetcherInit = Omit<ProviderRequest, 'url'>;
+
+/**
+ * @interface AddressQuery
+ * @description Input for `searchByAddress`.
+ */
+export interface AddressQuery {
+  /** Two-letter UF, e.g. "SP". */
+  state: string;
+  city: string;
+  /** Street name or part of it (at least 3 characters). */
+  street: string;
+}
+
+/**
+ * @typedef {function(url: string, signal?: AbortSignal, init?: FetcherInit): Promise<any>}
+ * @description A function that fetches data from a given URL. `init` is only passed for providers that define `buildRequest`.
+ */
+export type Fetcher = (url: string, signal?: AbortSignal, init?: FetcherInit) => Promise<any>;
 
 /**
  * @interface RateLimitOptions
@@ -59,6 +190,158 @@ export interface CepLookupOptions {
   logger?: { debug: (msg: string, data?: Record<string, unknown>) => void };
   /** Circuit breaker options for provider resilience */
   circuitBreaker?: CircuitBreakerOptions;
+  /** How providers are combined. Default: 'race' */
+  strategy?: LookupStrategy;
+  /** Options for the `consensus` strategy */
+  consensus?: ConsensusOptions;
+  /** Options for the `merge` strategy */
+  merge?: MergeOptions;
+  /** Reject provider results whose `state` contradicts the CEP range, failing over to the next provider. Default: false */
+  validateState?: boolean;
+  /** When every provider fails (but none said "not found"), resolve a partial, approximate address from the bundled CEP ranges. Default: false */
+  offlineFallback?: boolean;
+  /** Attach the raw provider response to `success` events and `lookupDetailed` results. Default: false */
+  includeRaw?: boolean;
+  /** Normalize casing and abbreviations of provider results. `true` uses the defaults. Default: disabled */
+  normalize?: boolean | NormalizeOptions;
+  /** DDD enrichment settings, or `false` to return provider data untouched. */
+  enrichment?: false | EnrichmentOptions;
+  /**
+   * Custom post-processing run in order on every provider result, after the built-in enrichment and geocoder
+   * and before caching. A failing enricher is skipped without failing the lookup.
+   */
+  enrichers?: Enricher[];
+  /** Called for provider results without `location`. Errors are logged and never fail the lookup. */
+  geocoder?: Geocoder;
+  /** Share one provider race between concurrent lookups of the same CEP. Default: true */
+  dedupe?: boolean;
+  /** Remember CEPs that every provider reported as not found. Disabled by default. */
+  negativeCache?: NegativeCacheOptions;
+  /** Serve stale cache entries (via `Cache.getEntry`) and revalidate them in the background. Default: false */
+  swr?: boolean;
+}
+
+/**
+ * @typedef DddResolver
+ * @description Resolves the DDD of an address, or `undefined` when unknown.
+ */
+export type DddResolver = (address: Address) => string | undefined;
+
+/**
+ * @typedef IbgeResolver
+ * @description Resolves the 7-digit IBGE municipality code of an address, or `undefined` when unknown.
+ */
+export type IbgeResolver = (address: Address) => string | undefined;
+
+/**
+ * @interface EnrichmentOptions
+ * @description Controls how missing fields are filled after a provider answers.
+ */
+export interface EnrichmentOptions {
+  /**
+   * Municipality-level DDD source, tried before the state capital's DDD.
+   * Default: bundled table keyed by IBGE code (or state + city name), covering capitals and major cities only.
+   * Pass `dddResolver` from `@eusilvio/cep-lookup/ibge` to cover all municipalities. `false` skips it; a function replaces it.
+   */
+  ddd?: false | DddResolver;
+  /**
+   * IBGE code source for addresses without `ibge`; inferred codes set `ibgeInferred: true`.
+   * Default: bundled table keyed by state + city name, which only covers capitals and major cities (about 100
+   * municipalities); other cities get no code. Pass `ibgeResolver` from `@eusilvio/cep-lookup/ibge` to cover all
+   * 5,571. `false` skips it; a function replaces it.
+   */
+  ibge?: false | IbgeResolver;
+}
+
+/**
+ * @interface NormalizeOptions
+ * @description Text normalization applied to provider results when `normalize` is enabled.
+ */
+export interface NormalizeOptions {
+  /** Expand street type and title abbreviations ("R." → "Rua", "Av" → "Avenida", "Dr." → "Doutor"). Default: true */
+  expandAbbreviations?: boolean;
+  /** Title case street, neighborhood and city, keeping Portuguese stopwords ("de", "da", "dos") lowercase. Default: true */
+  titleCase?: boolean;
+  /** Add `ascii` with accent-free copies of street, neighborhood and city. Default: false */
+  asciiVariants?: boolean;
+}
+
+/**
+ * @interface ConsensusOptions
+ * @description Options for the `consensus` lookup strategy.
+ */
+export interface ConsensusOptions {
+  /** Number of successful providers to wait for before voting. Default: 2 */
+  quorum?: number;
+}
+
+/**
+ * @interface MergeOptions
+ * @description Options for the `merge` lookup strategy.
+ */
+export interface MergeOptions {
+  /** How long to wait after the fastest answer for other providers to fill missing fields, in ms. Default: 100 */
+  graceMs?: number;
+  /** Fields filled from other providers when missing. Default: ['ibge', 'ddd', 'neighborhood'] */
+  fields?: AddressField[];
+}
+
+/**
+ * @interface NegativeCacheOptions
+ * @description Options for remembering `CepNotFoundError` results.
+ */
+export interface NegativeCacheOptions {
+  /** Time-to-live in milliseconds for a not-found result. */
+  ttl: number;
+  /** Maximum number of remembered CEPs. Default: Infinity (no limit) */
+  maxSize?: number;
+}
+
+/**
+ * @interface LookupOptions
+ * @description Per-call options for `lookup` and `lookupCeps`.
+ */
+export interface LookupOptions {
+  /** Cancels provider fetches, the stagger timer, retry backoff and bulk workers. */
+  signal?: AbortSignal;
+}
+
+/**
+ * @interface BulkLookupOptions
+ * @description Per-call options for `lookupCeps`.
+ */
+export interface BulkLookupOptions extends LookupOptions {
+  /** Attach the `LookupResult` envelope of each successful lookup as `details`. Default: false */
+  detailed?: boolean;
+}
+
+/**
+ * @interface ProviderAttemptError
+ * @description A provider failure observed while resolving a CEP, even if another provider succeeded.
+ */
+export interface ProviderAttemptError {
+  provider: string;
+  /** 1-based attempt (retry round) in which the failure happened. */
+  attempt: number;
+  error: Error;
+}
+
+/**
+ * @interface LookupResult
+ * @description Envelope returned by `lookupDetailed`.
+ */
+export interface LookupResult {
+  address: Address;
+  /** `offline` when the address came from `offlineFallback`. */
+  source: 'cache' | 'provider' | 'offline';
+  /** Provider that produced the address (for cache hits, the provider that originally did). */
+  provider: string;
+  /** Provider rounds run for this lookup, including retries. 0 for cache hits. */
+  attempts: number;
+  durationMs: number;
+  providerErrors: ProviderAttemptError[];
+  /** Response of the provider that produced the address, with `includeRaw`. Absent for cache and offline results. */
+  raw?: unknown;
 }
 
 /**
@@ -70,17 +353,21 @@ export interface BulkCepResult<T = Address> {
   data: T | null;
   provider?: string;
   error?: Error;
+  /** Present when `lookupCeps` is called with `detailed: true`. */
+  details?: LookupResult;
 }
 
 // --- Observability Event Types ---
 
-export type EventName = 'success' | 'failure' | 'cache:hit';
+export type EventName = 'success' | 'failure' | 'cache:hit' | 'cache:error' | 'cache:stale' | 'cache:revalidated' | 'dedupe:hit' | 'discrepancy' | 'search:success' | 'search:failure' | 'enricher:success' | 'enricher:error';
 
 export interface SuccessPayload {
   provider: string;
   cep: string;
   duration: number;
   address: Address;
+  /** Raw provider response, with `includeRaw`. */
+  raw?: unknown;
 }
 
 export interface FailurePayload {
@@ -92,12 +379,77 @@ export interface FailurePayload {
 
 export interface CacheHitPayload {
   cep: string;
+  /** True when the hit is a remembered `CepNotFoundError`. */
+  negative?: boolean;
+}
+
+export interface CacheErrorPayload {
+  cep: string;
+  operation: 'get' | 'set';
+  error: Error;
+}
+
+export interface CacheStalePayload {
+  cep: string;
+  address: Address;
+}
+
+export interface CacheRevalidatedPayload {
+  cep: string;
+  previous: Address;
+  address: Address;
+}
+
+export interface DedupeHitPayload {
+  cep: string;
+}
+
+export interface DiscrepancyPayload {
+  cep: string;
+  discrepancies: FieldDiscrepancy[];
+}
+
+export interface SearchSuccessPayload {
+  provider: string;
+  query: AddressQuery;
+  duration: number;
+  results: Address[];
+}
+
+export interface SearchFailurePayload {
+  provider: string;
+  query: AddressQuery;
+  duration: number;
+  error: Error;
+}
+
+export interface EnricherSuccessPayload {
+  cep: string;
+  /** The enricher's function name, or `enricher[index]` for anonymous functions. */
+  enricher: string;
+  duration: number;
+}
+
+export interface EnricherErrorPayload {
+  cep: string;
+  enricher: string;
+  duration: number;
+  error: Error;
 }
 
 export interface EventMap {
   success: SuccessPayload;
   failure: FailurePayload;
   'cache:hit': CacheHitPayload;
+  'cache:error': CacheErrorPayload;
+  'cache:stale': CacheStalePayload;
+  'cache:revalidated': CacheRevalidatedPayload;
+  'dedupe:hit': DedupeHitPayload;
+  discrepancy: DiscrepancyPayload;
+  'search:success': SearchSuccessPayload;
+  'search:failure': SearchFailurePayload;
+  'enricher:success': EnricherSuccessPayload;
+  'enricher:error': EnricherErrorPayload;
 }
 
 export type EventListener<T extends EventName> = (payload: EventMap[T]) => void;
@@ -120,6 +472,24 @@ export interface ProviderHealth {
   successCount: number;
   failureCount: number;
   avgLatencyMs: number;
+  /** Present for providers with a `rateLimit` or `dailyQuota`. */
+  quota?: ProviderQuota;
+}
+
+/**
+ * @interface ProviderQuota
+ * @description Usage of a provider's own `rateLimit` and `dailyQuota`.
+ */
+export interface ProviderQuota {
+  /** True while the provider is skipped for having used up its rate limit or daily quota. */
+  exhausted: boolean;
+  /** Requests in the current `rateLimit` window. */
+  windowRequests?: number;
+  /** Requests made today (UTC), with `dailyQuota`. */
+  dailyUsed?: number;
+  dailyRemaining?: number;
+  /** When an exhausted provider becomes available again (epoch ms). */
+  availableAt?: number;
 }
 
 export interface ProviderMetrics {
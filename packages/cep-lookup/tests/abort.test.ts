@@ -0,0 +1,151 @@
+import { CepLookup, InMemoryCache, LookupAbortedError, AllProvidersFailedError } from '../src';
+import { Address, Provider } from '../src/types';
+
+const mockAddress: Address = {
+  cep: '01001000',
+  state: 'SP',
+  city: 'São Paulo',
+  neighborhood: 'Sé',
+  street: 'Praça da Sé',
+  service: 'Mock',
+};
+
+const createMockProvider = (name: string): Provider => ({
+  name,
+  buildUrl: (cep: string) => `http://test/${name}/${cep}`,
+  transform: (r: any): Address => r,
+});
+
+// Resolves after `ms`, or rejects with an AbortError when the signal fires
+const abortableFetcher = (ms: number) =>
+  jest.fn().mockImplementation((_url: string, signal?: AbortSignal) => {
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => resolve(mockAddress), ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timeoutId);
+        reject(new DOMException('Aborted', 'AbortError'));
+      });
+    });
+  });
+
+describe('AbortSignal support', () => {
+  it('should reject immediately when the signal is already aborted', async () => {
+    const fetcher = abortableFetcher(10);
+    const lookup = new CepLookup({ providers: [createMockProvider('Mock')], fetcher });
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(lookup.lookup('01001000', undefined, { signal: controller.signal })).rejects.toBeInstanceOf(LookupAbortedError);
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('should cancel in-flight provider fetches and reject with LookupAbortedError', async () => {
+    const fetcher = abortableFetcher(1000);
+    const lookup = new CepLookup({ providers: [createMockProvider('Mock')], fetcher });
+    const controller = new AbortController();
+
+    const promise = lookup.lookup('01001000', undefined, { signal: controller.signal });
+    controller.abort();
+
+    const error = await promise.catch((e) => e);
+    expect(error).toBeInstanceOf(LookupAbortedError);
+    expect(error).not.toBeInstanceOf(AllProvidersFailedError);
+    expect(error.code).toBe('ABORTED');
+    expect((fetcher.mock.calls[0][1] as AbortSignal).aborted).toBe(true);
+  });
+
+  it('should not record aborted fetches as provider failures', async () => {
+    const fetcher = abortableFetcher(1000);
+    const lookup = new CepLookup({ providers: [createMockProvider('Mock')], fetcher });
+    const failures: unknown[] = [];
+    lookup.on('failure', (payload) => failures.push(payload));
+    const controller = new AbortController();
+
+    const promise = lookup.lookup('01001000', undefined, { signal: controller.signal });
+    controller.abort();
+    await expect(promise).rejects.toBeInstanceOf(LookupAbortedError);
+
+    expect(failures).toHaveLength(0);
+    expect(lookup.getProviderHealth()[0].failureCount).toBe(0);
+  });
+
+  it('should not start backup providers after the stagger delay once aborted', async () => {
+    jest.useFakeTimers();
+    const fetcher = jest.fn().mockImplementation(() => new Promise(() => {}));
+    const lookup = new CepLookup({
+      providers: [createMockProvider('Primary'), createMockProvider('Backup')],
+      fetcher,
+      staggerDelay: 100,
+    });
+    const controller = new AbortController();
+
+    const promise = lookup.lookup('01001000', undefined, { signal: controller.signal });
+    controller.abort();
+    await expect(promise).rejects.toBeInstanceOf(LookupAbortedError);
+
+    jest.advanceTimersByTime(200);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    jest.useRealTimers();
+  });
+
+  it('should cancel the retry backoff sleep', async () => {
+    jest.useFakeTimers();
+    const fetcher = jest.fn().mockRejectedValue(new Error('Network error'));
+    const lookup = new CepLookup({
+      providers: [createMockProvider('Mock')],
+      fetcher,
+      retries: 3,
+      retryDelay: 1000,
+    });
+    const controller = new AbortController();
+
+    const promise = lookup.lookup('01001000', undefined, { signal: controller.signal });
+    await jest.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(LookupAbortedError);
+    jest.advanceTimersByTime(10000);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    jest.useRealTimers();
+  });
+
+  it('should stop bulk workers and reject lookupCeps', async () => {
+    const fetcher = abortableFetcher(50);
+    const lookup = new CepLookup({ providers: [createMockProvider('Mock')], fetcher });
+    const controller = new AbortController();
+
+    const promise = lookup.lookupCeps(['01001000', '01001001', '01001002', '01001003'], 1, undefined, { signal: controller.signal });
+    controller.abort();
+
+    await expect(promise).rejects.toBeInstanceOf(LookupAbortedError);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject and skip the cache when aborted during slow enrichers', async () => {
+    const cache = new InMemoryCache();
+    const slowEnricher = () => new Promise<Partial<Address>>((resolve) => setTimeout(() => resolve({}), 300));
+    const lookup = new CepLookup({
+      providers: [createMockProvider('Mock')],
+      fetcher: abortableFetcher(0),
+      cache,
+      dedupe: false,
+      enrichers: [slowEnricher],
+    });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const startedAt = Date.now();
+    await expect(lookup.lookup('01001000', undefined, { signal: controller.signal })).rejects.toBeInstanceOf(LookupAbortedError);
+    expect(Date.now() - startedAt).toBeLessThan(200);
+    await new Promise((resolve) => setTimeout(resolve, 320));
+    expect(cache.get('01001000')).toBeUndefined();
+  });
+
+  it('should behave normally when the signal is never aborted', async () => {
+    const fetcher = abortableFetcher(5);
+    const lookup = new CepLookup({ providers: [createMockProvider('Mock')], fetcher });
+    const controller = new AbortController();
+
+    await expect(lookup.lookup('01001000', undefined, { signal: controller.signal })).resolves.toMatchObject({ cep: '01001000' });
+  });
+});
@@ -0,0 +1,111 @@
+import { CepLookup, Cache } from '../src';
+import { Address, Provider } from '../src/types';
+
+const mockAddress: Address = {
+  cep: '01001000',
+  state: 'SP',
+  city: 'São Paulo',
+  neighborhood: 'Sé',
+  street: 'Praça da Sé',
+  ibge: '3550308',
+  service: 'Mock',
+  ddd: '11',
+};
+
+const mockProvider: Provider = {
+  name: 'Mock',
+  buildUrl: (cep: string) => `http://test/${cep}`,
+  transform: (r: any): Address => r,
+};
+
+// Simulates a remote backend (Redis, IndexedDB, ...) with async operations
+class AsyncMapCache implements Cache {
+  public store = new Map<string, Address>();
+
+  async get(key: string): Promise<Address | undefined> {
+    return this.store.get(key);
+  }
+
+  async set(key: string, value: Address): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async clear(): Promise<void> {
+    this.store.clear();
+  }
+}
+
+describe('Async cache support', () => {
+  it('should serve hits from an async cache without calling providers', async () => {
+    const cache = new AsyncMapCache();
+    cache.store.set('01001000', mockAddress);
+    const fetcher = jest.fn();
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher, cache });
+    const cacheHit = jest.fn();
+    lookup.on('cache:hit', cacheHit);
+
+    await expect(lookup.lookup('01001000')).resolves.toEqual(mockAddress);
+    expect(fetcher).not.toHaveBeenCalled();
+    expect(cacheHit).toHaveBeenCalledWith({ cep: '01001000' });
+  });
+
+  it('should write provider results to an async cache', async () => {
+    const cache = new AsyncMapCache();
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher, cache });
+
+    await lookup.lookup('01001000');
+    await lookup.lookup('01001000');
+
+    expect(cache.store.get('01001000')).toEqual(mockAddress);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall through to providers when cache.get rejects', async () => {
+    const cache: Cache = {
+      get: jest.fn().mockRejectedValue(new Error('ECONNREFUSED')),
+      set: jest.fn().mockResolvedValue(undefined),
+      clear: jest.fn(),
+    };
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher, cache });
+    const cacheError = jest.fn();
+    lookup.on('cache:error', cacheError);
+
+    await expect(lookup.lookup('01001000')).resolves.toEqual(mockAddress);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(cacheError).toHaveBeenCalledWith(expect.objectContaining({ cep: '01001000', operation: 'get' }));
+    expect(cacheError.mock.calls[0][0].error.message).toBe('ECONNREFUSED');
+  });
+
+  it('should fall through to providers when cache.get throws synchronously', async () => {
+    const cache: Cache = {
+      get: () => {
+        throw new Error('QuotaExceededError');
+      },
+      set: jest.fn(),
+      clear: jest.fn(),
+    };
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher, cache });
+
+    await expect(lookup.lookup('01001000')).resolves.toEqual(mockAddress);
+  });
+
+  it('should not fail the lookup when cache.set fails', async () => {
+    const setError = new Error('READONLY');
+    const cache: Cache = {
+      get: jest.fn().mockResolvedValue(undefined),
+      set: jest.fn().mockRejectedValue(setError),
+      clear: jest.fn(),
+    };
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher, cache });
+    const cacheError = jest.fn();
+    lookup.on('cache:error', cacheError);
+
+    await expect(lookup.lookup('01001000')).resolves.toEqual(mockAddress);
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(cacheError).toHaveBeenCalledWith({ cep: '01001000', operation: 'set', error: setError });
+  });
+});
@@ -79,6 +79,35 @@ describe('InMemoryCache', () => {
     });
   });
 
+  describe('staleTtl', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('should report fresh entries as not stale', () => {
+      const cache = new InMemoryCache({ ttl: 1000, staleTtl: 5000 });
+      cache.set('01001000', mockAddress);
+      expect(cache.getEntry('01001000')).toEqual({ value: mockAddress, stale: false });
+    });
+
+    it('should keep serving expired entries as stale within staleTtl', () => {
+      const cache = new InMemoryCache({ ttl: 1000, staleTtl: 5000 });
+      cache.set('01001000', mockAddress);
+      jest.advanceTimersByTime(3000);
+      expect(cache.getEntry('01001000')).toEqual({ value: mockAddress, stale: true });
+      // get() and has() only expose fresh entries
+      expect(cache.get('01001000')).toBeUndefined();
+      expect(cache.has('01001000')).toBe(false);
+      expect(cache.getEntry('01001000')?.stale).toBe(true);
+    });
+
+    it('should drop entries once ttl + staleTtl has elapsed', () => {
+      const cache = new InMemoryCache({ ttl: 1000, staleTtl: 5000 });
+      cache.set('01001000', mockAddress);
+      jest.advanceTimersByTime(6001);
+      expect(cache.getEntry('01001000')).toBeUndefined();
+    });
+  });
+
   describe('maxSize', () => {
     it('should evict oldest entry when maxSize is reached', () => {
       const cache = new InMemoryCache({ maxSize: 2 });
@@ -110,6 +139,67 @@ describe('InMemoryCache', () => {
     });
   });
 
+  describe('LRU eviction', () => {
+    it('should evict the least recently used entry instead of the oldest', () => {
+      const cache = new InMemoryCache({ maxSize: 2 });
+      cache.set('a', mockAddress);
+      cache.set('b', mockAddress2);
+      cache.get('a'); // bumps recency of 'a'
+      cache.set('c', { ...mockAddress, cep: '30000000' });
+
+      expect(cache.get('b')).toBeUndefined(); // evicted
+      expect(cache.get('a')).toEqual(mockAddress);
+      expect(cache.get('c')).toBeDefined();
+    });
+
+    it('should keep recency order in snapshots', () => {
+      const cache = new InMemoryCache({ maxSize: 2 });
+      cache.set('a', mockAddress);
+      cache.set('b', mockAddress2);
+      cache.get('a');
+
+      const restored = InMemoryCache.fromSnapshot(cache.export(), { maxSize: 2 });
+      restored.set('c', mockAddress);
+      expect(restored.has('a')).toBe(true);
+      expect(restored.has('b')).toBe(false);
+    });
+  });
+
+  describe('stats', () => {
+    afterEach(() => jest.useRealTimers());
+
+    it('should start with zeroed counters', () => {
+      expect(new InMemoryCache().stats()).toEqual({
+        hits: 0, misses: 0, evictions: 0, expirations: 0, size: 0, hitRate: 0,
+      });
+    });
+
+    it('should count hits, misses and evictions', () => {
+      const cache = new InMemoryCache({ maxSize: 1 });
+      cache.set('a', mockAddress);
+      cache.get('a');
+      cache.get('missing');
+      cache.set('b', mockAddress2);
+      cache.get('a');
+
+      expect(cache.stats()).toEqual({
+        hits: 1, misses: 2, evictions: 1, expirations: 0, size: 1, hitRate: 1 / 3,
+      });
+    });
+
+    it('should count expirations', () => {
+      jest.useFakeTimers();
+      const cache = new InMemoryCache({ ttl: 1000 });
+      cache.set('a', mockAddress);
+      cache.set('b', mockAddress2);
+      jest.advanceTimersByTime(1001);
+      cache.get('a');
+      cache.has('b');
+
+      expect(cache.stats()).toMatchObject({ misses: 1, expirations: 2, size: 0 });
+    });
+  });
+
   describe('delete and has', () => {
     it('should delete a specific entry', () => {
       const cache = new InMemoryCache();
@@ -129,4 +219,55 @@ describe('InMemoryCache', () => {
       expect(cache.has('nonexistent')).toBe(false);
     });
   });
+
+  describe('snapshots', () => {
+    beforeEach(() => jest.useFakeTimers());
+    afterEach(() => jest.useRealTimers());
+
+    it('should export entries with their timestamps', () => {
+      const cache = new InMemoryCache();
+      cache.set('01001000', mockAddress);
+      const timestamp = Date.now();
+
+      expect(cache.export()).toEqual({
+        version: 1,
+        entries: [{ key: '01001000', value: mockAddress, timestamp }],
+      });
+      expect(JSON.parse(JSON.stringify(cache))).toEqual(cache.export());
+    });
+
+    it('should preserve TTL semantics when restored from a snapshot', () => {
+      const cache = new InMemoryCache({ ttl: 5000 });
+      cache.set('01001000', mockAddress);
+      jest.advanceTimersByTime(3000);
+      const snapshot = JSON.parse(JSON.stringify(cache.export()));
+
+      const restored = InMemoryCache.fromSnapshot(snapshot, { ttl: 5000 });
+      expect(restored.get('01001000')).toEqual(mockAddress);
+      jest.advanceTimersByTime(2001);
+      expect(restored.get('01001000')).toBeUndefined();
+    });
+
+    it('should skip expired entries and enforce maxSize when loading', () => {
+      const cache = new InMemoryCache();
+      cache.set('a', mockAddress);
+      jest.advanceTimersByTime(10000);
+      cache.set('b', mockAddress2);
+      cache.set('c', mockAddress2);
+
+      const expiring = InMemoryCache.fromSnapshot(cache.export(), { ttl: 5000 });
+      expect(expiring.has('a')).toBe(false);
+      expect(expiring.has('b')).toBe(true);
+
+      const bounded = InMemoryCache.fromSnapshot(cache.export(), { maxSize: 2 });
+      expect(bounded.has('a')).toBe(false);
+      expect(bounded.has('b')).toBe(true);
+      expect(bounded.has('c')).toBe(true);
+    });
+
+    it('should ignore unknown snapshot versions', () => {
+      const cache = InMemoryCache.fromSnapshot({ version: 2, entries: [] } as any);
+      expect(cache.export().entries).toHaveLength(0);
+    });
+  });
 });
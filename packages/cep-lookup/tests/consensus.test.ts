@@ -0,0 +1,141 @@
+import { CepLookup, AllProvidersFailedError } from '../src';
+import { Address, Provider } from '../src/types';
+
+const baseAddress: Address = {
+  cep: '01001000',
+  state: 'SP',
+  city: 'São Paulo',
+  neighborhood: 'Sé',
+  street: 'Praça da Sé',
+  service: 'Mock',
+};
+
+const createMockProvider = (name: string): Provider => ({
+  name,
+  buildUrl: (cep: string) => `http://test/${name}/${cep}`,
+  transform: (r: any): Address => r,
+});
+
+// Answers per provider name, optionally after a delay; `Error` values reject
+const fetcherFor = (responses: Record<string, { value: Partial<Address> | Error; ms?: number }>) =>
+  jest.fn().mockImplementation((url: string, signal?: AbortSignal) => {
+    const name = url.split('/')[3];
+    const { value, ms = 0 } = responses[name];
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        if (value instanceof Error) reject(value);
+        else resolve({ ...baseAddress, ...value });
+      }, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timeoutId);
+        reject(new DOMException('Aborted', 'AbortError'));
+      });
+    });
+  });
+
+describe('Consensus strategy', () => {
+  const providers = ['A', 'B', 'C'].map(createMockProvider);
+
+  it('should pick the majority value per field and report the discrepancy', async () => {
+    const fetcher = fetcherFor({
+      A: { value: { street: 'Praca da Se' }, ms: 1 },
+      B: { value: { street: 'Rua Errada' }, ms: 2 },
+      C: { value: { street: 'Praça da Sé' }, ms: 3 },
+    });
+    const lookup = new CepLookup({ providers, fetcher, strategy: 'consensus', consensus: { quorum: 3 } });
+    const discrepancy = jest.fn();
+    lookup.on('discrepancy', discrepancy);
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address.street).toBe('Praca da Se');
+    expect(address.meta).toEqual({
+      strategy: 'consensus',
+      providers: ['A', 'B', 'C'],
+      discrepancies: [
+        {
+          field: 'street',
+          chosen: 'Praca da Se',
+          values: [
+            { provider: 'A', value: 'Praca da Se' },
+            { provider: 'B', value: 'Rua Errada' },
+            { provider: 'C', value: 'Praça da Sé' },
+          ],
+        },
+      ],
+    });
+    expect(discrepancy).toHaveBeenCalledWith({ cep: '01001000', discrepancies: address.meta!.discrepancies });
+  });
+
+  it('should stop waiting once the quorum is reached', async () => {
+    const fetcher = fetcherFor({
+      A: { value: {}, ms: 1 },
+      B: { value: {}, ms: 2 },
+      C: { value: { city: 'Outra' }, ms: 1000 },
+    });
+    const lookup = new CepLookup({ providers, fetcher, strategy: 'consensus' });
+    const discrepancy = jest.fn();
+    lookup.on('discrepancy', discrepancy);
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address.meta?.providers).toEqual(['A', 'B']);
+    expect(address.city).toBe('São Paulo');
+    expect(discrepancy).not.toHaveBeenCalled();
+    expect((fetcher.mock.calls[2][1] as AbortSignal).aborted).toBe(true);
+  });
+
+  it('should let empty values abstain from the vote', async () => {
+    const fetcher = fetcherFor({
+      A: { value: { ibge: '' }, ms: 1 },
+      B: { value: { ibge: '3550308' }, ms: 2 },
+      C: { value: new Error('Network error') },
+    });
+    const lookup = new CepLookup({ providers, fetcher, strategy: 'consensus' });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address.ibge).toBe('3550308');
+    expect(address.meta?.discrepancies).toEqual([]);
+  });
+
+  it('should take the structured street parts from an answer with the chosen street', async () => {
+    const nova = { street: 'Avenida Nova', streetType: 'Avenida', streetName: 'Nova' };
+    const fetcher = fetcherFor({
+      A: { value: { street: 'Rua Velha', streetType: 'Rua', streetName: 'Velha', complement: 'lado par' }, ms: 1 },
+      B: { value: nova, ms: 2 },
+      C: { value: nova, ms: 3 },
+    });
+    const lookup = new CepLookup({ providers, fetcher, strategy: 'consensus', consensus: { quorum: 3 } });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address).toMatchObject({ service: 'A', ...nova });
+    expect(address.complement).toBeUndefined();
+  });
+
+  it('should settle with fewer answers than the quorum when providers fail', async () => {
+    const fetcher = fetcherFor({
+      A: { value: new Error('Network error') },
+      B: { value: new Error('Network error') },
+      C: { value: {}, ms: 1 },
+    });
+    const lookup = new CepLookup({ providers, fetcher, strategy: 'consensus' });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address.service).toBe('C');
+    expect(address.meta?.providers).toEqual(['C']);
+  });
+
+  it('should reject when every provider fails', async () => {
+    const fetcher = fetcherFor({
+      A: { value: new Error('Network error') },
+      B: { value: new Error('Network error') },
+      C: { value: new Error('Network error') },
+    });
+    const lookup = new CepLookup({ providers, fetcher, strategy: 'consensus' });
+
+    await expect(lookup.lookup('01001000')).rejects.toBeInstanceOf(AllProvidersFailedError);
+  });
+});
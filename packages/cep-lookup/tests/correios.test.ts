@@ -0,0 +1,100 @@
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { readFileSync, existsSync } from 'fs';
+import { join } from 'path';
+import { CepLookup, CepNotFoundError, ProviderUnavailableError } from '../src';
+import { createCorreiosProvider, correiosProvider } from '../src/providers';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', 'correios', `${name}.xml`), 'utf8');
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+  });
+
+// Local stand-in for the SIGEP endpoint: answers from fixtures, with HTTP 500 for SOAP faults like the real service
+describe('Correios provider', () => {
+  let server: Server;
+  let url: string;
+  const requests: { method?: string; headers: IncomingMessage['headers']; body: string }[] = [];
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      const body = await readBody(req);
+      requests.push({ method: req.method, headers: req.headers, body });
+      const cep = body.match(/<cep>(\d+)<\/cep>/)?.[1] ?? '';
+      const name = cep === '69900999' ? 'server-fault' : existsSync(join(__dirname, 'fixtures', 'correios', `${cep}.xml`)) ? cep : 'not-found';
+      res.writeHead(name.endsWith('fault') || name === 'not-found' ? 500 : 200, { 'Content-Type': 'text/xml;charset=utf-8' });
+      res.end(fixture(name));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/SigepMasterJPA/AtendeClienteService/AtendeCliente`;
+  });
+
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  const createLookup = () => new CepLookup({ providers: [createCorreiosProvider({ url })], enrichment: false });
+
+  it('should post the consultaCEP envelope', async () => {
+    await createLookup().lookup('01001-000');
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].headers['content-type']).toBe('text/xml; charset=utf-8');
+    expect(requests[0].body).toContain('<cli:consultaCEP><cep>01001000</cep></cli:consultaCEP>');
+  });
+
+  it('should parse the XML response into an Address', async () => {
+    const address = await createLookup().lookup('01001000');
+
+    expect(address).toEqual({
+      cep: '01001000',
+      state: 'SP',
+      city: 'São Paulo',
+      neighborhood: 'Sé',
+      street: 'Praça da Sé',
+      streetType: 'Praça',
+      streetName: 'da Sé',
+      complement: 'lado ímpar',
+      service: 'Correios',
+    });
+  });
+
+  it('should keep the full complemento range', async () => {
+    const address = await createLookup().lookup('01310100');
+
+    expect(address).toMatchObject({ street: 'Avenida Paulista', complement: 'de 612 a 1510 - lado par' });
+  });
+
+  it('should map the "CEP NAO ENCONTRADO" fault to CepNotFoundError', async () => {
+    const error = await createLookup().lookup('99999999').catch((e) => e);
+
+    expect(error).toBeInstanceOf(CepNotFoundError);
+    expect(error).toMatchObject({ cep: '99999999', provider: 'Correios' });
+  });
+
+  it('should map other faults to ProviderUnavailableError', async () => {
+    const error = await createLookup().lookup('69900999').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ProviderUnavailableError);
+    expect(error.message).toBe('Provider Correios is temporarily unavailable (Sistema temporariamente indisponível).');
+  });
+
+  it('should decode XML entities', () => {
+    const xml = fixture('01001000').replace('<bairro>Sé</bairro>', '<bairro>Sé &amp; Centro &#233;</bairro>');
+
+    expect(correiosProvider.transform(xml).neighborhood).toBe('Sé & Centro é');
+  });
+
+  it('should target the SIGEP production endpoint by default', () => {
+    expect(correiosProvider.buildRequest!('01001000').url).toBe(
+      'https://apps.correios.com.br/SigepMasterJPA/AtendeClienteService/AtendeCliente'
+    );
+  });
+});
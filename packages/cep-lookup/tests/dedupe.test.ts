@@ -0,0 +1,130 @@
+import { CepLookup, LookupAbortedError } from '../src';
+import { Address, Provider } from '../src/types';
+
+const mockAddress: Address = {
+  cep: '01001000',
+  state: 'SP',
+  city: 'São Paulo',
+  neighborhood: 'Sé',
+  street: 'Praça da Sé',
+  service: 'Mock',
+};
+
+const createMockProvider = (name: string): Provider => ({
+  name,
+  buildUrl: (cep: string) => `http://test/${name}/${cep}`,
+  transform: (r: any): Address => r,
+});
+
+const slowFetcher = (ms: number) =>
+  jest.fn().mockImplementation((_url: string, signal?: AbortSignal) => {
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => resolve(mockAddress), ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timeoutId);
+        reject(new DOMException('Aborted', 'AbortError'));
+      });
+    });
+  });
+
+describe('Request coalescing', () => {
+  it('should share one provider race between concurrent lookups of the same CEP', async () => {
+    const fetcher = slowFetcher(20);
+    const lookup = new CepLookup({ providers: [createMockProvider('Mock')], fetcher });
+    const dedupeHits: string[] = [];
+    lookup.on('dedupe:hit', ({ cep }) => dedupeHits.push(cep));
+
+    const results = await Promise.all([
+      lookup.lookup('01001000'),
+      lookup.lookup('01001-000'),
+      lookup.lookup('01001000', (address) => address.city),
+    ]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(results[0]).toEqual(results[1]);
+    expect(results[2]).toBe('São Paulo');
+    expect(dedupeHits).toEqual(['01001000', '01001000']);
+  });
+
+  it('should not coalesce lookups of different CEPs', async () => {
+    const fetcher = slowFetcher(5);
+    const lookup = new CepLookup({ providers: [createMockProvider('Mock')], fetcher });
+
+    await Promise.all([lookup.lookup('01001000'), lookup.lookup('01001001')]);
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('should start a new race once the previous one settled', async () => {
+    const fetcher = slowFetcher(5);
+    const lookup = new CepLookup({ providers: [createMockProvider('Mock')], fetcher });
+
+    await lookup.lookup('01001000');
+    await lookup.lookup('01001000');
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share failures with every waiting caller', async () => {
+    const fetcher = jest.fn().mockRejectedValue(new Error('Network error'));
+    const lookup = new CepLookup({ providers: [createMockProvider('Mock')], fetcher });
+
+    const results = await Promise.allSettled([lookup.lookup('01001000'), lookup.lookup('01001000')]);
+
+    expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should dedupe duplicate input in lookupCeps', async () => {
+    const fetcher = slowFetcher(10);
+    const lookup = new CepLookup({ providers: [createMockProvider('Mock')], fetcher });
+
+    const results = await lookup.lookupCeps(['01001000', '01001000', '01001000'], 3);
+
+    expect(results.every((r) => r.data?.cep === '01001000')).toBe(true);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the shared race alive when only one of the callers aborts', async () => {
+    const fetcher = slowFetcher(20);
+    const lookup = new CepLookup({ providers: [createMockProvider('Mock')], fetcher });
+    const controller = new AbortController();
+
+    const aborted = lookup.lookup('01001000', undefined, { signal: controller.signal });
+    const kept = lookup.lookup('01001000');
+    controller.abort();
+
+    await expect(aborted).rejects.toBeInstanceOf(LookupAbortedError);
+    await expect(kept).resolves.toMatchObject({ cep: '01001000' });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cancel the shared race when every caller aborts', async () => {
+    const fetcher = slowFetcher(1000);
+    const lookup = new CepLookup({ providers: [createMockProvider('Mock')], fetcher });
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const a = lookup.lookup('01001000', undefined, { signal: first.signal });
+    const b = lookup.lookup('01001000', undefined, { signal: second.signal });
+    first.abort();
+    expect((fetcher.mock.calls[0][1] as AbortSignal).aborted).toBe(false);
+    second.abort();
+
+    await expect(a).rejects.toBeInstanceOf(LookupAbortedError);
+    await expect(b).rejects.toBeInstanceOf(LookupAbortedError);
+    expect((fetcher.mock.calls[0][1] as AbortSignal).aborted).toBe(true);
+  });
+
+  it('should run independent races when dedupe is disabled', async () => {
+    const fetcher = slowFetcher(5);
+    const lookup = new CepLookup({ providers: [createMockProvider('Mock')], fetcher, dedupe: false });
+    const dedupeHit = jest.fn();
+    lookup.on('dedupe:hit', dedupeHit);
+
+    await Promise.all([lookup.lookup('01001000'), lookup.lookup('01001000')]);
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(dedupeHit).not.toHaveBeenCalled();
+  });
+});
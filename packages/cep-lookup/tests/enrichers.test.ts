@@ -0,0 +1,85 @@
+import { CepLookup, InMemoryCache } from '../src';
+import { Address, Enricher, Provider } from '../src/types';
+
+const mockAddress: Address = {
+  cep: '01001000',
+  state: 'SP',
+  city: 'São Paulo',
+  neighborhood: 'Sé',
+  street: 'Praça da Sé',
+  ibge: '3550308',
+  service: 'Mock',
+};
+
+const mockProvider: Provider = {
+  name: 'Mock',
+  buildUrl: (cep: string) => `http://test/${cep}`,
+  transform: (r: any): Address => r,
+};
+
+const createLookup = (enrichers: Enricher[], extra: Partial<ConstructorParameters<typeof CepLookup>[0]> = {}) =>
+  new CepLookup({ providers: [mockProvider], fetcher: jest.fn().mockResolvedValue(mockAddress), enrichers, ...extra });
+
+describe('Custom enrichers', () => {
+  it('should run enrichers in order, each seeing the previous result', async () => {
+    const seen: string[] = [];
+    const upperStreet: Enricher = (address) => ({ street: address.street.toUpperCase() });
+    const record: Enricher = async (address) => {
+      seen.push(address.street);
+    };
+    const lookup = createLookup([upperStreet, record]);
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address.street).toBe('PRAÇA DA SÉ');
+    expect(seen).toEqual(['PRAÇA DA SÉ']);
+  });
+
+  it('should run after the built-in enrichment and before caching', async () => {
+    const cache = new InMemoryCache();
+    const salesRegion: Enricher = (address) => (address.ddd === '11' ? { neighborhood: `${address.neighborhood} (Região 1)` } : undefined);
+    const lookup = createLookup([salesRegion], { cache });
+
+    await lookup.lookup('01001000');
+
+    expect(cache.get('01001000')?.neighborhood).toBe('Sé (Região 1)');
+  });
+
+  it('should isolate enricher failures and report them', async () => {
+    const failing: Enricher = function failing() {
+      throw new Error('service down');
+    };
+    const lookup = createLookup([failing, () => ({ neighborhood: 'Centro' })]);
+    const errors = jest.fn();
+    const successes = jest.fn();
+    lookup.on('enricher:error', errors);
+    lookup.on('enricher:success', successes);
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address.neighborhood).toBe('Centro');
+    expect(errors).toHaveBeenCalledWith(expect.objectContaining({ cep: '01001000', enricher: 'failing' }));
+    expect(errors.mock.calls[0][0].error.message).toBe('service down');
+    expect(successes).toHaveBeenCalledWith({ cep: '01001000', enricher: 'enricher[1]', duration: expect.any(Number) });
+  });
+
+  it('should report timing through the logger', async () => {
+    const logger = { debug: jest.fn() };
+    const lookup = createLookup([async function slow() {}], { logger });
+
+    await lookup.lookup('01001000');
+
+    expect(logger.debug).toHaveBeenCalledWith('enricher:success', { cep: '01001000', enricher: 'slow', duration: expect.any(Number) });
+  });
+
+  it('should not run on cache hits', async () => {
+    const cache = new InMemoryCache();
+    cache.set('01001000', mockAddress);
+    const enricher = jest.fn();
+    const lookup = createLookup([enricher], { cache });
+
+    await lookup.lookup('01001000');
+
+    expect(enricher).not.toHaveBeenCalled();
+  });
+});
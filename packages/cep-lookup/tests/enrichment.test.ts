@@ -3,6 +3,10 @@ import { viaCepProvider } from "../src/providers/viacep";
 import { openCepProvider } from "../src/providers/opencep";
 import { brasilApiProvider } from "../src/providers/brasil-api";
 import { dddByState } from "../src/data/ddd-by-state";
+import { findMunicipality, normalizeCityName } from "../src/municipalities";
+import { municipalities } from "../src/data/municipalities";
+import { dddResolver, ibgeResolver } from "../src/ibge";
+import { ibgeMunicipalities } from "../src/data/ibge-municipalities";
 
 describe("IBGE + DDD Enrichment", () => {
   it("should preserve ibge and ddd from ViaCEP response", async () => {
@@ -66,7 +70,8 @@ describe("IBGE + DDD Enrichment", () => {
 
     const address = await cepLookup.lookup("01001000");
 
-    expect(address.ibge).toBeUndefined();
+    expect(address.ibge).toBe("3550308"); // inferred from state + city
+    expect(address.ibgeInferred).toBe(true);
     expect(address.ddd).toBe("11"); // fallback from state SP
     expect(address.service).toBe("BrasilAPI");
   });
@@ -93,6 +98,147 @@ describe("IBGE + DDD Enrichment", () => {
     expect(address.ibge).toBe("3504008");
   });
 
+  it("should use the municipality DDD instead of the state capital's", async () => {
+    const mockFetcher = jest.fn().mockResolvedValue({
+      cep: "13010000",
+      state: "SP",
+      city: "Campinas",
+      neighborhood: "Centro",
+      street: "Rua Barão de Jaguara",
+    });
+
+    const cepLookup = new CepLookup({
+      providers: [brasilApiProvider],
+      fetcher: mockFetcher,
+    });
+
+    const address = await cepLookup.lookup("13010000");
+
+    expect(address.ddd).toBe("19");
+  });
+
+  it("should match municipalities by IBGE code before the city name", () => {
+    expect(findMunicipality({ ibge: "3509502" })?.city).toBe("Campinas");
+    expect(findMunicipality({ state: "sp", city: "SAO JOSE DO RIO PRETO" })?.ddd).toBe("17");
+    expect(findMunicipality({ state: "RJ", city: "Campinas" })).toBeUndefined();
+    expect(normalizeCityName("Santa Bárbara d'Oeste")).toBe("santa barbara d oeste");
+  });
+
+  it("should fall back to the state capital for municipalities outside the table", async () => {
+    const mockFetcher = jest.fn().mockResolvedValue({ cep: "09310000", state: "SP", city: "Mauá" });
+
+    const cepLookup = new CepLookup({ providers: [brasilApiProvider], fetcher: mockFetcher });
+
+    await expect(cepLookup.lookup("09310000")).resolves.toMatchObject({ ddd: "11" });
+  });
+
+  it("should let the enrichment option replace or disable the municipality table", async () => {
+    const mockFetcher = jest.fn().mockResolvedValue({ cep: "13010000", state: "SP", city: "Campinas" });
+
+    const replaced = new CepLookup({
+      providers: [brasilApiProvider],
+      fetcher: mockFetcher,
+      enrichment: { ddd: (address) => (address.city === "Campinas" ? "99" : undefined) },
+    });
+    const stateOnly = new CepLookup({ providers: [brasilApiProvider], fetcher: mockFetcher, enrichment: { ddd: false } });
+    const disabled = new CepLookup({ providers: [brasilApiProvider], fetcher: mockFetcher, enrichment: false });
+
+    expect((await replaced.lookup("13010000")).ddd).toBe("99");
+    expect((await stateOnly.lookup("13010000")).ddd).toBe("11");
+    expect((await disabled.lookup("13010000")).ddd).toBeUndefined();
+  });
+
+  it("should not flag provider-supplied ibge codes as inferred", async () => {
+    const mockFetcher = jest.fn().mockResolvedValue({
+      cep: "01001-000",
+      localidade: "São Paulo",
+      uf: "SP",
+      ibge: "3550308",
+    });
+
+    const cepLookup = new CepLookup({ providers: [viaCepProvider], fetcher: mockFetcher });
+    const address = await cepLookup.lookup("01001000");
+
+    expect(address.ibge).toBe("3550308");
+    expect(address.ibgeInferred).toBeUndefined();
+  });
+
+  it("should infer ibge across accents and name variants", async () => {
+    const mockFetcher = jest
+      .fn()
+      .mockResolvedValueOnce({ cep: "72010000", state: "DF", city: "Taguatinga" })
+      .mockResolvedValueOnce({ cep: "58400000", state: "PB", city: "CAMPINA GRANDE" })
+      .mockResolvedValueOnce({ cep: "65900000", state: "MA", city: "Imperatriz" });
+
+    const cepLookup = new CepLookup({ providers: [brasilApiProvider], fetcher: mockFetcher });
+
+    expect((await cepLookup.lookup("72010000")).ibge).toBe("5300108");
+    expect((await cepLookup.lookup("58400000")).ibge).toBe("2504009");
+    expect(await cepLookup.lookup("65900000")).toMatchObject({ ibge: "2105302", ddd: "99", ibgeInferred: true });
+  });
+
+  it("should let the enrichment option replace or disable ibge inference", async () => {
+    const mockFetcher = jest.fn().mockResolvedValue({ cep: "13460000", state: "SP", city: "Americana" });
+
+    const replaced = new CepLookup({
+      providers: [brasilApiProvider],
+      fetcher: mockFetcher,
+      enrichment: { ibge: (address) => (address.city === "Americana" ? "3501608" : undefined) },
+    });
+    const disabled = new CepLookup({ providers: [brasilApiProvider], fetcher: mockFetcher, enrichment: { ibge: false } });
+
+    expect(await replaced.lookup("13460000")).toMatchObject({ ibge: "3501608", ibgeInferred: true });
+    expect((await disabled.lookup("13460000")).ibge).toBeUndefined();
+  });
+
+  it("should leave ibge empty for municipalities outside the bundled table", async () => {
+    const mockFetcher = jest.fn().mockResolvedValue({ cep: "68185000", state: "PA", city: "Mojuí dos Campos" });
+
+    const cepLookup = new CepLookup({ providers: [brasilApiProvider], fetcher: mockFetcher });
+
+    expect((await cepLookup.lookup("68185000")).ibge).toBeUndefined();
+  });
+
+  it("should infer ibge for any municipality with the full IBGE list", async () => {
+    const mockFetcher = jest.fn().mockResolvedValue({ cep: "68185000", state: "PA", city: "Mojui dos Campos" });
+
+    const cepLookup = new CepLookup({ providers: [brasilApiProvider], fetcher: mockFetcher, enrichment: { ibge: ibgeResolver } });
+
+    expect(await cepLookup.lookup("68185000")).toMatchObject({ ibge: "1504752", ibgeInferred: true });
+    expect(ibgeResolver({ cep: "13460000", state: "sp", city: "Americana", neighborhood: "", street: "", service: "" })).toBe("3501608");
+    expect(ibgeResolver({ cep: "72010000", state: "DF", city: "Taguatinga", neighborhood: "", street: "", service: "" })).toBe("5300108");
+    expect(ibgeResolver({ cep: "13800000", state: "SP", city: "Moji Mirim", neighborhood: "", street: "", service: "" })).toBe("3530805");
+    expect(ibgeResolver({ cep: "13460000", state: "RJ", city: "Americana", neighborhood: "", street: "", service: "" })).toBeUndefined();
+  });
+
+  it("should resolve the DDD of any municipality with the full IBGE list", async () => {
+    const mockFetcher = jest.fn().mockResolvedValue({ cep: "13460000", state: "SP", city: "Americana" });
+
+    const cepLookup = new CepLookup({
+      providers: [brasilApiProvider],
+      fetcher: mockFetcher,
+      enrichment: { ibge: ibgeResolver, ddd: dddResolver },
+    });
+
+    expect(await cepLookup.lookup("13460000")).toMatchObject({ ibge: "3501608", ddd: "19" });
+    expect(dddResolver({ cep: "68185000", state: "", city: "", ibge: "1504752", neighborhood: "", street: "", service: "" })).toBe("93");
+  });
+
+  it("should ship every IBGE municipality in the full list", () => {
+    const rows = Object.values(ibgeMunicipalities).flat();
+
+    expect(Object.keys(ibgeMunicipalities)).toHaveLength(27);
+    expect(rows).toHaveLength(5571);
+    expect(new Set(rows.map(([ibge]) => ibge)).size).toBe(5571);
+    expect(rows.every(([, , ddd]) => /^[1-9][1-9]$/.test(ddd))).toBe(true);
+  });
+
+  it("should agree with the bundled table on every DDD", () => {
+    const full = new Map(Object.values(ibgeMunicipalities).flat().map(([ibge, , ddd]) => [ibge, ddd]));
+
+    municipalities.forEach(([ibge, , , ddd]) => expect(full.get(ibge)).toBe(ddd));
+  });
+
   it("dddByState fallback should cover all 27 Brazilian states", () => {
     const states = [
       "AC", "AL", "AM", "AP", "BA", "CE", "DF", "ES", "GO",
@@ -1,4 +1,4 @@
-import { CepValidationError, RateLimitError, ProviderTimeoutError, CepNotFoundError, AllProvidersFailedError } from '../src/errors';
+import { CepValidationError, RateLimitError, ProviderTimeoutError, CepNotFoundError, AllProvidersFailedError, ProviderUnavailableError } from '../src/errors';
 import { CepLookup, InMemoryCache } from '../src';
 import { Address, Provider } from '../src/types';
 
@@ -51,6 +51,13 @@ describe('Error Classes', () => {
     expect(err.errors).toHaveLength(2);
     expect(err.errors[0].message).toBe('err1');
   });
+
+  it('ProviderUnavailableError should describe the reason', () => {
+    expect(new ProviderUnavailableError('ViaCEP').message).toBe('Provider ViaCEP is temporarily unavailable (circuit open).');
+    const err = new ProviderUnavailableError('Correios', 'SOAP fault');
+    expect(err.reason).toBe('SOAP fault');
+    expect(err.message).toBe('Provider Correios is temporarily unavailable (SOAP fault).');
+  });
 });
 
 describe('Error integration with CepLookup', () => {
@@ -83,4 +90,27 @@ describe('Error integration with CepLookup', () => {
     await lookup.lookup('01001000'); // first call OK
     await expect(lookup.lookup('01001000')).rejects.toBeInstanceOf(RateLimitError);
   });
+
+  it('should rebuild ProviderUnavailableError thrown by a separately bundled copy of the class', async () => {
+    // Stands in for the class as bundled into the "/providers" entry
+    class BundledProviderUnavailableError extends Error {
+      name = 'ProviderUnavailableError';
+      constructor(public provider: string, public reason: string) {
+        super(`Provider ${provider} is temporarily unavailable (${reason}).`);
+      }
+    }
+    const mockProvider: Provider = {
+      name: 'Mock',
+      buildUrl: (cep: string) => `http://test/${cep}`,
+      transform: () => {
+        throw new BundledProviderUnavailableError('Mock', 'maintenance');
+      },
+    };
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher: jest.fn().mockResolvedValue({}) });
+
+    const error = await lookup.lookup('01001000').catch((e) => e);
+
+    expect(error).toBeInstanceOf(ProviderUnavailableError);
+    expect(error).toMatchObject({ provider: 'Mock', reason: 'maintenance' });
+  });
 });
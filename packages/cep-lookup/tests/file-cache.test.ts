@@ -0,0 +1,90 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileCache } from '../src/node';
+import { Address } from '../src/types';
+
+const mockAddress: Address = {
+  cep: '01001000',
+  state: 'SP',
+  city: 'São Paulo',
+  neighborhood: 'Sé',
+  street: 'Praça da Sé',
+  service: 'test',
+};
+
+describe('FileCache', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cep-cache-'));
+    path = join(dir, 'cache.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should persist on flush and reload on construction', () => {
+    const cache = new FileCache({ path, interval: 0 });
+    cache.set('01001000', mockAddress);
+    cache.stop();
+
+    const reloaded = new FileCache({ path, interval: 0 });
+    expect(reloaded.get('01001000')).toEqual(mockAddress);
+  });
+
+  it('should keep original timestamps across restarts', () => {
+    const cache = new FileCache({ path, interval: 0 });
+    cache.set('01001000', mockAddress);
+    cache.flush();
+
+    const snapshot = JSON.parse(readFileSync(path, 'utf8'));
+    snapshot.entries[0].timestamp -= 10_000;
+    writeFileSync(path, JSON.stringify(snapshot));
+
+    const reloaded = new FileCache({ path, interval: 0, ttl: 5000 });
+    expect(reloaded.get('01001000')).toBeUndefined();
+  });
+
+  it('should flush on the configured interval', () => {
+    jest.useFakeTimers();
+    const cache = new FileCache({ path, interval: 1000 });
+    cache.set('01001000', mockAddress);
+
+    jest.advanceTimersByTime(1000);
+    cache.stop();
+    jest.useRealTimers();
+
+    expect(JSON.parse(readFileSync(path, 'utf8')).entries).toHaveLength(1);
+  });
+
+  it('should start empty when the snapshot file is missing or corrupt', () => {
+    expect(new FileCache({ path, interval: 0 }).export().entries).toHaveLength(0);
+
+    writeFileSync(path, '{not json');
+    expect(new FileCache({ path, interval: 0 }).export().entries).toHaveLength(0);
+  });
+
+  it('should report interval flush failures instead of throwing', () => {
+    jest.useFakeTimers();
+    const onError = jest.fn();
+    const cache = new FileCache({ path: join(dir, 'missing-dir', 'cache.json'), interval: 50, onError });
+    cache.set('01001000', mockAddress);
+
+    expect(() => jest.advanceTimersByTime(50)).not.toThrow();
+    jest.useRealTimers();
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'ENOENT' }));
+  });
+
+  it('should swallow interval flush failures without an onError handler', () => {
+    jest.useFakeTimers();
+    const cache = new FileCache({ path: join(dir, 'missing-dir', 'cache.json'), interval: 50 });
+    cache.set('01001000', mockAddress);
+
+    expect(() => jest.advanceTimersByTime(100)).not.toThrow();
+    jest.useRealTimers();
+  });
+});
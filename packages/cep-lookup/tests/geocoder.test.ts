@@ -0,0 +1,64 @@
+import { CepLookup, InMemoryCache } from '../src';
+import { Address, AddressLocation, Provider } from '../src/types';
+
+const mockAddress: Address = {
+  cep: '01001000',
+  state: 'SP',
+  city: 'São Paulo',
+  neighborhood: 'Sé',
+  street: 'Praça da Sé',
+  service: 'Mock',
+};
+
+const mockProvider: Provider = {
+  name: 'Mock',
+  buildUrl: (cep: string) => `http://test/${cep}`,
+  transform: (r: any): Address => r,
+};
+
+const cityCentroid: AddressLocation = { lat: -23.5505, lng: -46.6333, precision: 'city' };
+
+describe('Geocoder hook', () => {
+  it('should fill location when the provider returned none', async () => {
+    const geocoder = jest.fn().mockResolvedValue(cityCentroid);
+    const cache = new InMemoryCache();
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher: jest.fn().mockResolvedValue(mockAddress), geocoder, cache });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address.location).toEqual(cityCentroid);
+    expect(geocoder).toHaveBeenCalledWith(expect.objectContaining({ cep: '01001000', city: 'São Paulo' }));
+    expect(cache.get('01001000')?.location).toEqual(cityCentroid);
+  });
+
+  it('should keep provider coordinates', async () => {
+    const providerLocation: AddressLocation = { lat: -23.5503, lng: -46.6339, precision: 'street' };
+    const geocoder = jest.fn();
+    const fetcher = jest.fn().mockResolvedValue({ ...mockAddress, location: providerLocation });
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher, geocoder });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address.location).toEqual(providerLocation);
+    expect(geocoder).not.toHaveBeenCalled();
+  });
+
+  it('should accept a synchronous geocoder that knows nothing', async () => {
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher: jest.fn().mockResolvedValue(mockAddress), geocoder: () => undefined });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address).not.toHaveProperty('location');
+  });
+
+  it('should never fail the lookup when the geocoder throws', async () => {
+    const logger = { debug: jest.fn() };
+    const geocoder = jest.fn().mockRejectedValue(new Error('dataset unavailable'));
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher: jest.fn().mockResolvedValue(mockAddress), geocoder, logger });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address.location).toBeUndefined();
+    expect(logger.debug).toHaveBeenCalledWith('geocoder:failure', { cep: '01001000', error: 'dataset unavailable' });
+  });
+});
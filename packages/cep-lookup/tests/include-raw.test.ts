@@ -0,0 +1,134 @@
+import { CepLookup, InMemoryCache } from '../src';
+import { viaCepProvider, apicepProvider } from '../src/providers';
+import { Address, Provider } from '../src/types';
+
+const viaCepResponse = {
+  cep: '01001-000',
+  logradouro: 'Praça da Sé',
+  complemento: 'lado ímpar',
+  unidade: '',
+  bairro: 'Sé',
+  localidade: 'São Paulo',
+  uf: 'SP',
+  ibge: '3550308',
+  gia: '1004',
+  ddd: '11',
+  siafi: '7107',
+};
+
+describe('includeRaw', () => {
+  it('should attach the raw response to success events and lookupDetailed', async () => {
+    const fetcher = jest.fn().mockResolvedValue(viaCepResponse);
+    const lookup = new CepLookup({ providers: [viaCepProvider], fetcher, includeRaw: true });
+    const success = jest.fn();
+    lookup.on('success', success);
+
+    const result = await lookup.lookupDetailed('01001000');
+
+    expect(result.raw).toBe(viaCepResponse);
+    expect(success).toHaveBeenCalledWith(expect.objectContaining({ provider: 'ViaCEP', raw: viaCepResponse }));
+  });
+
+  it('should report the winning provider response in multi-provider strategies', async () => {
+    const createProvider = (name: string): Provider => ({
+      name,
+      buildUrl: (cep: string) => `http://test/${name}/${cep}`,
+      transform: (r: any): Address => ({ ...viaCepProvider.transform(r), service: name }),
+    });
+    const fetcher = jest.fn().mockImplementation((url: string) =>
+      Promise.resolve({ ...viaCepResponse, gia: url.includes('/A/') ? 'A' : 'B' })
+    );
+    const lookup = new CepLookup({ providers: [createProvider('A'), createProvider('B')], fetcher, includeRaw: true, strategy: 'consensus' });
+
+    const result = await lookup.lookupDetailed('01001000');
+
+    expect(result.provider).toBe('A');
+    expect(result.raw).toMatchObject({ gia: 'A' });
+  });
+
+  it('should not report the response of a provider that timed out', async () => {
+    const providers: Provider[] = [
+      { name: 'A', timeout: 20, buildUrl: (cep: string) => `http://test/A/${cep}`, transform: (r: any): Address => ({ ...viaCepProvider.transform(r), service: 'A' }) },
+      { name: 'B', buildUrl: (cep: string) => `http://test/B/${cep}`, transform: (r: any): Address => ({ ...viaCepProvider.transform(r), service: 'B' }) },
+    ];
+    const fetcher = jest.fn().mockImplementation((url: string) => {
+      const who = url.includes('/A/') ? 'A' : 'B';
+      return new Promise((resolve) => setTimeout(() => resolve({ ...viaCepResponse, who }), who === 'A' ? 50 : 100));
+    });
+    const lookup = new CepLookup({ providers, fetcher, includeRaw: true, staggerDelay: 0 });
+
+    const result = await lookup.lookupDetailed('01001000');
+
+    expect(result.provider).toBe('B');
+    expect(result.raw).toMatchObject({ who: 'B' });
+  });
+
+  it('should leave raw out by default and for cache hits', async () => {
+    const fetcher = jest.fn().mockResolvedValue(viaCepResponse);
+    const cache = new InMemoryCache();
+    const success = jest.fn();
+    const plain = new CepLookup({ providers: [viaCepProvider], fetcher });
+    plain.on('success', success);
+    const withRaw = new CepLookup({ providers: [viaCepProvider], fetcher, cache, includeRaw: true });
+
+    expect((await plain.lookupDetailed('01001000')).raw).toBeUndefined();
+    expect(success.mock.calls[0][0]).not.toHaveProperty('raw');
+    await withRaw.lookup('01001000');
+    const cached = await withRaw.lookupDetailed('01001000');
+    expect(cached.source).toBe('cache');
+    expect(cached).not.toHaveProperty('raw');
+  });
+});
+
+describe('Provider extras', () => {
+  it("should merge ViaCEP's extra codes into address.extras", async () => {
+    const fetcher = jest.fn().mockResolvedValue(viaCepResponse);
+    const lookup = new CepLookup({ providers: [viaCepProvider], fetcher });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address.extras).toEqual({ gia: '1004', siafi: '7107' });
+    expect(address.street).toBe('Praça da Sé');
+  });
+
+  it("should expose ApiCEP's status fields", async () => {
+    const fetcher = jest.fn().mockResolvedValue({
+      status: 200,
+      ok: true,
+      code: '01001-000',
+      state: 'SP',
+      city: 'São Paulo',
+      district: 'Sé',
+      address: 'Praça da Sé',
+      statusText: 'ok',
+    });
+    const lookup = new CepLookup({ providers: [apicepProvider], fetcher });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address.extras).toEqual({ ok: true, statusText: 'ok' });
+  });
+
+  it('should keep extras set by transform and let typed extras add to them', async () => {
+    const provider: Provider<{ region: string }> = {
+      name: 'Custom',
+      buildUrl: (cep: string) => `http://test/${cep}`,
+      transform: (r: any): Address => ({ ...r, extras: { source: 'transform' } }),
+      extras: (r: any) => ({ region: r.region }),
+    };
+    const fetcher = jest.fn().mockResolvedValue({
+      cep: '01001000',
+      state: 'SP',
+      city: 'São Paulo',
+      neighborhood: 'Sé',
+      street: 'Praça da Sé',
+      service: 'Custom',
+      region: 'Sudeste',
+    });
+    const lookup = new CepLookup({ providers: [provider], fetcher });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address.extras).toEqual({ source: 'transform', region: 'Sudeste' });
+  });
+});
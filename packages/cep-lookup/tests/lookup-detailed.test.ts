@@ -0,0 +1,89 @@
+import { CepLookup, InMemoryCache, AllProvidersFailedError } from '../src';
+import { Address, Provider } from '../src/types';
+
+const mockAddress: Address = {
+  cep: '01001000',
+  state: 'SP',
+  city: 'São Paulo',
+  neighborhood: 'Sé',
+  street: 'Praça da Sé',
+  service: 'Mock',
+};
+
+const createMockProvider = (name: string): Provider => ({
+  name,
+  buildUrl: (cep: string) => `http://test/${name}/${cep}`,
+  transform: (r: any): Address => ({ ...r, service: name }),
+});
+
+describe('lookupDetailed', () => {
+  it('should describe a provider result', async () => {
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({ providers: [createMockProvider('A')], fetcher });
+
+    const result = await lookup.lookupDetailed('01001-000');
+
+    expect(result).toEqual({
+      address: expect.objectContaining({ cep: '01001000', service: 'A', ddd: '11' }),
+      source: 'provider',
+      provider: 'A',
+      attempts: 1,
+      durationMs: expect.any(Number),
+      providerErrors: [],
+    });
+  });
+
+  it('should describe a cache hit', async () => {
+    const cache = new InMemoryCache();
+    cache.set('01001000', { ...mockAddress, service: 'A' });
+    const fetcher = jest.fn();
+    const lookup = new CepLookup({ providers: [createMockProvider('A')], fetcher, cache });
+
+    const result = await lookup.lookupDetailed('01001000');
+
+    expect(result).toMatchObject({ source: 'cache', provider: 'A', attempts: 0, providerErrors: [] });
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('should list providers that failed before another one succeeded', async () => {
+    const networkError = new Error('Network error');
+    const fetcher = jest.fn().mockImplementation((url: string) =>
+      url.includes('/A/') ? Promise.reject(networkError) : Promise.resolve(mockAddress)
+    );
+    const lookup = new CepLookup({ providers: [createMockProvider('A'), createMockProvider('B')], fetcher });
+
+    const result = await lookup.lookupDetailed('01001000');
+
+    expect(result.provider).toBe('B');
+    expect(result.providerErrors).toEqual([{ provider: 'A', attempt: 1, error: networkError }]);
+  });
+
+  it('should count retry rounds', async () => {
+    const networkError = new Error('Network error');
+    const fetcher = jest.fn().mockRejectedValueOnce(networkError).mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({ providers: [createMockProvider('A')], fetcher, retries: 2, retryDelay: 1 });
+
+    const result = await lookup.lookupDetailed('01001000');
+
+    expect(result.attempts).toBe(2);
+    expect(result.providerErrors).toEqual([{ provider: 'A', attempt: 1, error: networkError }]);
+  });
+
+  it('should reject like lookup when every provider fails', async () => {
+    const fetcher = jest.fn().mockRejectedValue(new Error('Network error'));
+    const lookup = new CepLookup({ providers: [createMockProvider('A'), createMockProvider('B')], fetcher });
+
+    await expect(lookup.lookupDetailed('01001000')).rejects.toBeInstanceOf(AllProvidersFailedError);
+  });
+
+  it('should attach the envelope to bulk results when detailed is set', async () => {
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({ providers: [createMockProvider('A')], fetcher });
+
+    const [detailed] = await lookup.lookupCeps(['01001000'], 1, undefined, { detailed: true });
+    const [plain] = await lookup.lookupCeps(['01001001'], 1);
+
+    expect(detailed.details).toMatchObject({ source: 'provider', provider: 'A', attempts: 1 });
+    expect(plain.details).toBeUndefined();
+  });
+});
@@ -0,0 +1,133 @@
+import { CepLookup, AllProvidersFailedError } from '../src';
+import { Address, Provider } from '../src/types';
+
+const baseAddress: Address = {
+  cep: '01001000',
+  state: 'SP',
+  city: 'São Paulo',
+  neighborhood: 'Sé',
+  street: 'Praça da Sé',
+  service: 'Mock',
+};
+
+const createMockProvider = (name: string): Provider => ({
+  name,
+  buildUrl: (cep: string) => `http://test/${name}/${cep}`,
+  transform: (r: any): Address => r,
+});
+
+// Answers per provider name, optionally after a delay; `Error` values reject
+const fetcherFor = (responses: Record<string, { value: Partial<Address> | Error; ms?: number }>) =>
+  jest.fn().mockImplementation((url: string, signal?: AbortSignal) => {
+    const name = url.split('/')[3];
+    const { value, ms = 0 } = responses[name];
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        if (value instanceof Error) reject(value);
+        else resolve({ ...baseAddress, ...value });
+      }, ms);
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timeoutId);
+        reject(new DOMException('Aborted', 'AbortError'));
+      });
+    });
+  });
+
+describe('Merge strategy', () => {
+  const providers = ['A', 'B', 'C'].map(createMockProvider);
+
+  it('should fill missing fields from slower providers and record provenance', async () => {
+    const fetcher = fetcherFor({
+      A: { value: { neighborhood: '' }, ms: 1 },
+      B: { value: { ibge: '3550308', neighborhood: 'Centro', street: 'Outra' }, ms: 5 },
+      C: { value: { ddd: '11' }, ms: 10 },
+    });
+    const lookup = new CepLookup({ providers, fetcher, strategy: 'merge', merge: { graceMs: 50 } });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address).toMatchObject({ service: 'A', street: 'Praça da Sé', neighborhood: 'Centro', ibge: '3550308', ddd: '11' });
+    expect(address.meta).toEqual({
+      strategy: 'merge',
+      providers: ['A', 'B', 'C'],
+      provenance: {
+        cep: 'A',
+        state: 'A',
+        city: 'A',
+        street: 'A',
+        neighborhood: 'B',
+        ibge: 'B',
+        ddd: 'C',
+      },
+    });
+  });
+
+  it('should return the fastest answer when the grace window elapses', async () => {
+    const fetcher = fetcherFor({
+      A: { value: {}, ms: 1 },
+      B: { value: { ibge: '3550308' }, ms: 1000 },
+      C: { value: new Error('Network error') },
+    });
+    const lookup = new CepLookup({ providers, fetcher, strategy: 'merge', merge: { graceMs: 10 } });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address.meta?.provenance?.ibge).toBeUndefined();
+    expect(address.ibgeInferred).toBe(true);
+    expect(address.ddd).toBe('11');
+    expect(address.meta?.providers).toEqual(['A']);
+    expect((fetcher.mock.calls[1][1] as AbortSignal).aborted).toBe(true);
+  });
+
+  it('should not wait when the fastest answer is already complete', async () => {
+    const fetcher = fetcherFor({
+      A: { value: { ibge: '3550308', ddd: '11' }, ms: 1 },
+      B: { value: {}, ms: 1000 },
+      C: { value: {}, ms: 1000 },
+    });
+    const lookup = new CepLookup({ providers, fetcher, strategy: 'merge', merge: { graceMs: 5000 } });
+
+    const start = Date.now();
+    const address = await lookup.lookup('01001000');
+
+    expect(Date.now() - start).toBeLessThan(500);
+    expect(address.meta?.providers).toEqual(['A']);
+  });
+
+  it('should only merge the configured fields', async () => {
+    const fetcher = fetcherFor({
+      A: { value: { neighborhood: '' }, ms: 1 },
+      B: { value: { ibge: '3550308', neighborhood: 'Centro' }, ms: 2 },
+      C: { value: new Error('Network error') },
+    });
+    const lookup = new CepLookup({ providers, fetcher, strategy: 'merge', merge: { fields: ['ibge'] } });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address.ibge).toBe('3550308');
+    expect(address.neighborhood).toBe('');
+  });
+
+  it('should take the structured street parts along with a merged street', async () => {
+    const fetcher = fetcherFor({
+      A: { value: { street: '' }, ms: 1 },
+      B: { value: { street: 'Avenida Nova', streetType: 'Avenida', streetName: 'Nova' }, ms: 5 },
+    });
+    const lookup = new CepLookup({ providers: providers.slice(0, 2), fetcher, strategy: 'merge', merge: { fields: ['street'] } });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address).toMatchObject({ service: 'A', street: 'Avenida Nova', streetType: 'Avenida', streetName: 'Nova' });
+  });
+
+  it('should reject when every provider fails', async () => {
+    const fetcher = fetcherFor({
+      A: { value: new Error('Network error') },
+      B: { value: new Error('Network error') },
+      C: { value: new Error('Network error') },
+    });
+    const lookup = new CepLookup({ providers, fetcher, strategy: 'merge' });
+
+    await expect(lookup.lookup('01001000')).rejects.toBeInstanceOf(AllProvidersFailedError);
+  });
+});
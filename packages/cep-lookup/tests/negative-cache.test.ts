@@ -0,0 +1,89 @@
+import { CepLookup, CepNotFoundError, AllProvidersFailedError } from '../src';
+import { Address, Provider } from '../src/types';
+
+const createMockProvider = (name: string): Provider => ({
+  name,
+  buildUrl: (cep: string) => `http://test/${name}/${cep}`,
+  transform: (r: any): Address => r,
+});
+
+describe('Negative caching', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('should remember a not-found result and skip providers on the next lookup', async () => {
+    const fetcher = jest.fn().mockRejectedValue(new Error('HTTP error! status: 404'));
+    const lookup = new CepLookup({
+      providers: [createMockProvider('Mock')],
+      fetcher,
+      negativeCache: { ttl: 60_000 },
+    });
+    const cacheHit = jest.fn();
+    lookup.on('cache:hit', cacheHit);
+
+    await expect(lookup.lookup('99999999')).rejects.toBeInstanceOf(CepNotFoundError);
+    await expect(lookup.lookup('99999-999')).rejects.toBeInstanceOf(CepNotFoundError);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(cacheHit).toHaveBeenCalledWith({ cep: '99999999', negative: true });
+  });
+
+  it('should remember a not-found consensus across multiple providers', async () => {
+    const fetcher = jest.fn().mockRejectedValue(new Error('CEP not found'));
+    const lookup = new CepLookup({
+      providers: [createMockProvider('A'), createMockProvider('B')],
+      fetcher,
+      staggerDelay: 0,
+      negativeCache: { ttl: 60_000 },
+    });
+
+    await expect(lookup.lookup('99999999')).rejects.toBeInstanceOf(AllProvidersFailedError);
+    const error = await lookup.lookup('99999999').catch((e) => e);
+
+    expect(error).toBeInstanceOf(CepNotFoundError);
+    expect(error.cep).toBe('99999999');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not remember mixed failures', async () => {
+    const fetcher = jest.fn().mockImplementation((url: string) =>
+      Promise.reject(new Error(url.includes('/A/') ? 'CEP not found' : 'Network error'))
+    );
+    const lookup = new CepLookup({
+      providers: [createMockProvider('A'), createMockProvider('B')],
+      fetcher,
+      staggerDelay: 0,
+      negativeCache: { ttl: 60_000 },
+    });
+
+    await expect(lookup.lookup('99999999')).rejects.toBeInstanceOf(AllProvidersFailedError);
+    await expect(lookup.lookup('99999999')).rejects.toBeInstanceOf(AllProvidersFailedError);
+
+    expect(fetcher).toHaveBeenCalledTimes(4);
+  });
+
+  it('should query providers again once the negative TTL expires', async () => {
+    jest.useFakeTimers();
+    const fetcher = jest.fn().mockRejectedValue(new Error('CEP not found'));
+    const lookup = new CepLookup({
+      providers: [createMockProvider('Mock')],
+      fetcher,
+      negativeCache: { ttl: 1000 },
+    });
+
+    await expect(lookup.lookup('99999999')).rejects.toBeInstanceOf(CepNotFoundError);
+    jest.advanceTimersByTime(1001);
+    await expect(lookup.lookup('99999999')).rejects.toBeInstanceOf(CepNotFoundError);
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('should be disabled by default', async () => {
+    const fetcher = jest.fn().mockRejectedValue(new Error('CEP not found'));
+    const lookup = new CepLookup({ providers: [createMockProvider('Mock')], fetcher });
+
+    await expect(lookup.lookup('99999999')).rejects.toBeInstanceOf(CepNotFoundError);
+    await expect(lookup.lookup('99999999')).rejects.toBeInstanceOf(CepNotFoundError);
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,86 @@
+import { CepLookup, normalizeAddress } from '../src';
+import { Address, Provider } from '../src/types';
+
+const rawAddress: Address = {
+  cep: '01310100',
+  state: 'sp',
+  city: 'SAO PAULO',
+  neighborhood: 'BELA VISTA',
+  street: 'AV. PAULISTA',
+  service: 'Mock',
+};
+
+describe('normalizeAddress', () => {
+  it('should expand street types and title case with official city spelling', () => {
+    expect(normalizeAddress(rawAddress)).toMatchObject({
+      state: 'SP',
+      city: 'São Paulo',
+      neighborhood: 'Bela Vista',
+      street: 'Avenida Paulista',
+    });
+  });
+
+  it('should keep Portuguese stopwords lowercase and Roman numerals uppercase', () => {
+    const address = normalizeAddress({ ...rawAddress, street: 'R XV DE NOVEMBRO', neighborhood: 'JD. DAS FLORES' });
+
+    expect(address.street).toBe('Rua XV de Novembro');
+    expect(address.neighborhood).toBe('Jardim das Flores');
+  });
+
+  it('should keep the letter of lettered streets and sectors', () => {
+    expect(normalizeAddress({ ...rawAddress, street: 'RUA A' }).street).toBe('Rua A');
+    expect(normalizeAddress({ ...rawAddress, street: 'QD O' }).street).toBe('Quadra O');
+    expect(normalizeAddress({ ...rawAddress, street: 'RUA 10 A' }).street).toBe('Rua 10 A');
+    expect(normalizeAddress({ ...rawAddress, neighborhood: 'SETOR A' }).neighborhood).toBe('Setor A');
+  });
+
+  it('should keep highway codes uppercase', () => {
+    expect(normalizeAddress({ ...rawAddress, street: 'ROD. BR-116' }).street).toBe('Rodovia BR-116');
+    expect(normalizeAddress({ ...rawAddress, street: 'rodovia sp-330 km 98' }).street).toBe('Rodovia SP-330 Km 98');
+  });
+
+  it('should expand dotted titles anywhere in the street', () => {
+    const address = normalizeAddress({ ...rawAddress, street: 'Pça. Dr. João Mendes', city: 'Santa Bárbara D\'Oeste' });
+
+    expect(address.street).toBe('Praça Doutor João Mendes');
+    expect(address.city).toBe("Santa Bárbara d'Oeste");
+  });
+
+  it('should leave undotted words that look like titles alone', () => {
+    expect(normalizeAddress({ ...rawAddress, street: 'Rua Pe Anchieta' }).street).toBe('Rua Pe Anchieta');
+  });
+
+  it('should honor disabled steps', () => {
+    const address = normalizeAddress(rawAddress, { expandAbbreviations: false, titleCase: false });
+
+    expect(address.street).toBe('AV. PAULISTA');
+    expect(address.city).toBe('São Paulo');
+  });
+
+  it('should add ASCII-folded variants on request', () => {
+    const address = normalizeAddress({ ...rawAddress, street: 'Praça da Sé', neighborhood: 'Sé' }, { asciiVariants: true });
+
+    expect(address.ascii).toEqual({ street: 'Praca da Se', neighborhood: 'Se', city: 'Sao Paulo' });
+    expect(normalizeAddress(rawAddress).ascii).toBeUndefined();
+  });
+});
+
+describe('CepLookup normalize option', () => {
+  const mockProvider: Provider = {
+    name: 'Mock',
+    buildUrl: (cep: string) => `http://test/${cep}`,
+    transform: (r: any): Address => r,
+  };
+
+  it('should normalize provider results when enabled', async () => {
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher: jest.fn().mockResolvedValue(rawAddress), normalize: true });
+
+    await expect(lookup.lookup('01310100')).resolves.toMatchObject({ street: 'Avenida Paulista', city: 'São Paulo' });
+  });
+
+  it('should leave provider text untouched by default', async () => {
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher: jest.fn().mockResolvedValue(rawAddress) });
+
+    await expect(lookup.lookup('01310100')).resolves.toMatchObject({ street: 'AV. PAULISTA', city: 'SAO PAULO' });
+  });
+});
@@ -1,4 +1,4 @@
-import { apicepProvider, brasilApiProvider, openCepProvider, viaCepProvider } from "../src/providers";
+import { apicepProvider, brasilApiProvider, brasilApiV2Provider, correiosProvider, openCepProvider, viaCepProvider } from "../src/providers";
 import { Address, Provider } from "../src/types";
 
 function assertAddressShape(address: Address, expectedService: string): void {
@@ -32,6 +32,22 @@ describe("Provider contract", () => {
     expect(() => viaCepProvider.transform({ erro: true })).toThrow("CEP not found");
   });
 
+  it("viaCepProvider should build an encoded search URL", () => {
+    expect(viaCepProvider.buildSearchUrl!({ state: "RS", city: "Porto Alegre", street: "Domingos José" })).toBe(
+      "https://viacep.com.br/ws/RS/Porto%20Alegre/Domingos%20Jos%C3%A9/json/"
+    );
+  });
+
+  it("viaCepProvider should transform search results", () => {
+    const payload = [
+      { cep: "91420-270", uf: "RS", localidade: "Porto Alegre", bairro: "São José", logradouro: "Rua Domingos José Poli" },
+    ];
+    const [result] = viaCepProvider.transformSearch!(payload);
+    assertAddressShape(result, "ViaCEP");
+    expect(result.cep).toBe("91420270");
+    expect(viaCepProvider.transformSearch!([])).toEqual([]);
+  });
+
   it("brasilApiProvider should transform success payload", () => {
     const payload = {
       cep: "01001-000",
@@ -50,6 +66,25 @@ describe("Provider contract", () => {
     expect(() => brasilApiProvider.transform({ errors: [] })).toThrow();
   });
 
+  it("brasilApiV2Provider should transform coordinates into location", () => {
+    const payload = {
+      cep: "01001000",
+      state: "SP",
+      city: "São Paulo",
+      neighborhood: "Sé",
+      street: "Praça da Sé",
+      location: { type: "Point", coordinates: { longitude: "-46.6339", latitude: "-23.5503" } },
+    };
+    const result = brasilApiV2Provider.transform(payload);
+    assertAddressShape(result, "BrasilAPIv2");
+    expect(result.location).toEqual({ lat: -23.5503, lng: -46.6339, precision: "street" });
+  });
+
+  it("brasilApiV2Provider should omit location when coordinates are missing", () => {
+    const payload = { cep: "01001000", state: "SP", city: "São Paulo", location: { type: "Point", coordinates: {} } };
+    expect(brasilApiV2Provider.transform(payload).location).toBeUndefined();
+  });
+
   it("apicepProvider should transform success payload", () => {
     const payload = {
       status: 200,
@@ -87,7 +122,7 @@ describe("Provider contract", () => {
   });
 
   it("providers should expose basic contract fields", () => {
-    const providers: Provider[] = [viaCepProvider, brasilApiProvider, apicepProvider, openCepProvider];
+    const providers: Provider[] = [viaCepProvider, brasilApiProvider, apicepProvider, openCepProvider, correiosProvider];
     providers.forEach((provider) => {
       expect(typeof provider.name).toBe("string");
       expect(typeof provider.buildUrl("01001000")).toBe("string");
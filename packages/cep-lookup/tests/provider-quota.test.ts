@@ -0,0 +1,116 @@
+import { CepLookup, AllProvidersFailedError, ProviderUnavailableError } from '../src';
+import { Address, Provider } from '../src/types';
+
+const mockAddress: Address = {
+  cep: '01001000',
+  state: 'SP',
+  city: 'São Paulo',
+  neighborhood: 'Sé',
+  street: 'Praça da Sé',
+  service: 'Mock',
+};
+
+const createMockProvider = (name: string, options: Partial<Provider> = {}): Provider => ({
+  name,
+  buildUrl: (cep: string) => `http://test/${name}/${cep}`,
+  transform: (r: any): Address => ({ ...r, service: name }),
+  ...options,
+});
+
+const calledProviders = (fetcher: jest.Mock) => fetcher.mock.calls.map(([url]) => url.split('/')[3]);
+
+describe('Per-provider quotas', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T15:00:00Z') });
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('should skip a provider over its rate limit until the window passes', async () => {
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({
+      providers: [createMockProvider('Throttled', { rateLimit: { requests: 1, per: 1000 } }), createMockProvider('Backup')],
+      fetcher,
+      staggerDelay: 0,
+    });
+
+    expect((await lookup.lookup('01001000')).service).toBe('Throttled');
+    expect((await lookup.lookup('01001001')).service).toBe('Backup');
+    jest.advanceTimersByTime(1001);
+    expect((await lookup.lookup('01001002')).service).toBe('Throttled');
+    expect(calledProviders(fetcher)).toEqual(['Throttled', 'Backup', 'Throttled']);
+  });
+
+  it('should skip a provider whose daily quota is used up until midnight UTC', async () => {
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({
+      providers: [createMockProvider('Paid', { dailyQuota: 2 }), createMockProvider('Free', { tier: 1 })],
+      fetcher,
+    });
+
+    await lookup.lookup('01001000');
+    await lookup.lookup('01001001');
+    expect((await lookup.lookup('01001002')).service).toBe('Free');
+
+    jest.setSystemTime(new Date('2026-10-20T00:00:01Z'));
+    expect((await lookup.lookup('01001003')).service).toBe('Paid');
+  });
+
+  it('should show quota state in getProviderHealth', async () => {
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({
+      providers: [createMockProvider('Paid', { dailyQuota: 1, rateLimit: { requests: 5, per: 60000 } }), createMockProvider('Free', { tier: 1 })],
+      fetcher,
+    });
+
+    await lookup.lookup('01001000');
+    const health = lookup.getProviderHealth();
+
+    expect(health.find((h) => h.provider === 'Paid')?.quota).toEqual({
+      exhausted: true,
+      windowRequests: 1,
+      dailyUsed: 1,
+      dailyRemaining: 0,
+      availableAt: Date.parse('2026-10-20T00:00:00Z'),
+    });
+    expect(health.find((h) => h.provider === 'Free')).not.toHaveProperty('quota');
+  });
+
+  it('should fail with ProviderUnavailableError when every provider is exhausted', async () => {
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({ providers: [createMockProvider('Paid', { dailyQuota: 1 })], fetcher });
+
+    await lookup.lookup('01001000');
+    const error = await lookup.lookup('01001001').catch((e) => e);
+
+    expect(error).toBeInstanceOf(AllProvidersFailedError);
+    expect(error.errors[0]).toBeInstanceOf(ProviderUnavailableError);
+    expect(error.errors[0].reason).toBe('daily quota exhausted');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not count skipped requests as provider failures', async () => {
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({
+      providers: [createMockProvider('Paid', { rateLimit: { requests: 1, per: 60000 } }), createMockProvider('Free')],
+      fetcher,
+      circuitBreaker: { failureThreshold: 1 },
+    });
+
+    await lookup.lookup('01001000');
+    await lookup.lookup('01001001');
+    const paid = lookup.getProviderHealth().find((h) => h.provider === 'Paid');
+
+    expect(paid).toMatchObject({ isOpen: false, failureCount: 0, quota: { exhausted: true, windowRequests: 1 } });
+  });
+
+  it('should count warmup pings against the quota', async () => {
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({ providers: [createMockProvider('Paid', { dailyQuota: 1 }), createMockProvider('Free')], fetcher });
+
+    await lookup.warmup();
+    await lookup.warmup();
+
+    expect(calledProviders(fetcher)).toEqual(['Paid', 'Free', 'Free']);
+  });
+});
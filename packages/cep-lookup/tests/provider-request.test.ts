@@ -0,0 +1,138 @@
+import { CepLookup } from '../src';
+import { Address, Provider } from '../src/types';
+
+const mockAddress: Address = {
+  cep: '01001000',
+  state: 'SP',
+  city: 'São Paulo',
+  neighborhood: 'Sé',
+  street: 'Praça da Sé',
+  service: 'Mock',
+};
+
+const postProvider: Provider = {
+  name: 'KeyedAPI',
+  buildUrl: (cep: string) => `https://api.example.com/cep/${cep}`,
+  buildRequest: (cep: string) => ({
+    url: 'https://api.example.com/cep',
+    method: 'POST',
+    headers: { 'x-api-key': 'secret', 'content-type': 'application/json' },
+    body: JSON.stringify({ cep }),
+  }),
+  transform: (r: any): Address => ({ ...r, service: 'KeyedAPI' }),
+};
+
+const urlProvider: Provider = {
+  name: 'UrlAPI',
+  buildUrl: (cep: string) => `https://url.example.com/${cep}`,
+  transform: (r: any): Address => ({ ...r, service: 'UrlAPI' }),
+};
+
+describe('Provider buildRequest', () => {
+  it('should pass method, headers and body to the fetcher', async () => {
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({ providers: [postProvider], fetcher });
+
+    const address = await lookup.lookup('01001-000');
+
+    expect(address.service).toBe('KeyedAPI');
+    expect(fetcher).toHaveBeenCalledWith('https://api.example.com/cep', expect.any(AbortSignal), {
+      method: 'POST',
+      headers: { 'x-api-key': 'secret', 'content-type': 'application/json' },
+      body: '{"cep":"01001000"}',
+    });
+  });
+
+  it('should keep calling the fetcher with url and signal for buildUrl providers', async () => {
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({ providers: [urlProvider], fetcher });
+
+    await lookup.lookup('01001000');
+
+    expect(fetcher.mock.calls[0]).toEqual(['https://url.example.com/01001000', expect.any(AbortSignal)]);
+  });
+
+  it('should use buildRequest during warmup', async () => {
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({ providers: [postProvider, urlProvider], fetcher });
+
+    await lookup.warmup();
+
+    expect(fetcher).toHaveBeenCalledWith('https://api.example.com/cep', expect.any(AbortSignal), expect.objectContaining({ method: 'POST' }));
+    expect(fetcher).toHaveBeenCalledWith('https://url.example.com/01001000', expect.any(AbortSignal));
+  });
+
+  it('should forward the request to fetch in the default fetcher', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({ ok: true, json: async () => mockAddress });
+    const originalFetch = global.fetch;
+    global.fetch = fetchMock as any;
+    try {
+      const lookup = new CepLookup({ providers: [postProvider] });
+
+      await lookup.lookup('01001000');
+
+      expect(fetchMock).toHaveBeenCalledWith('https://api.example.com/cep', expect.objectContaining({
+        method: 'POST',
+        headers: { 'x-api-key': 'secret', 'content-type': 'application/json' },
+        body: '{"cep":"01001000"}',
+        signal: expect.any(AbortSignal),
+      }));
+    } finally {
+      global.fetch = originalFetch;
+    }
+  });
+
+  it('should treat a throwing buildRequest as a provider failure', async () => {
+    const broken: Provider = { ...postProvider, name: 'Broken', buildRequest: () => { throw new Error('Missing API key'); } };
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({ providers: [broken, urlProvider], fetcher });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address.service).toBe('UrlAPI');
+  });
+});
+
+describe('Provider fetcher override', () => {
+  const textProvider: Provider = {
+    name: 'TextAPI',
+    buildUrl: (cep: string) => `https://text.example.com/${cep}`,
+    fetcher: jest.fn().mockResolvedValue('01001000|SP|São Paulo|Sé|Praça da Sé'),
+    transform: (r: string): Address => {
+      const [cep, state, city, neighborhood, street] = r.split('|');
+      return { cep, state, city, neighborhood, street, service: 'TextAPI' };
+    },
+  };
+
+  beforeEach(() => (textProvider.fetcher as jest.Mock).mockClear());
+
+  it('should fetch through the provider fetcher instead of the global one', async () => {
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({ providers: [textProvider, urlProvider], fetcher, staggerDelay: 1000 });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address).toMatchObject({ service: 'TextAPI', street: 'Praça da Sé' });
+    expect(textProvider.fetcher).toHaveBeenCalledWith('https://text.example.com/01001000', expect.any(AbortSignal));
+    expect(fetcher).not.toHaveBeenCalledWith('https://text.example.com/01001000', expect.anything());
+  });
+
+  it('should pass buildRequest details to the provider fetcher', async () => {
+    const provider: Provider = { ...textProvider, buildRequest: (cep: string) => ({ url: 'https://text.example.com', method: 'POST', body: cep }) };
+    const lookup = new CepLookup({ providers: [provider], fetcher: jest.fn() });
+
+    await lookup.lookup('01001000');
+
+    expect(provider.fetcher).toHaveBeenCalledWith('https://text.example.com', expect.any(AbortSignal), { method: 'POST', body: '01001000' });
+  });
+
+  it('should honor the provider fetcher during warmup', async () => {
+    const fetcher = jest.fn().mockResolvedValue(mockAddress);
+    const lookup = new CepLookup({ providers: [urlProvider, textProvider], fetcher });
+
+    await lookup.warmup();
+
+    expect(textProvider.fetcher).toHaveBeenCalledTimes(1);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+});
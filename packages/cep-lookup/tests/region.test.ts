@@ -0,0 +1,114 @@
+import { CepLookup, InMemoryCache, resolveCepRegion, AllProvidersFailedError, CepValidationError, CepNotFoundError, StateMismatchError } from '../src';
+import { Address, Provider } from '../src/types';
+
+const createMockProvider = (name: string): Provider => ({
+  name,
+  buildUrl: (cep: string) => `http://test/${name}/${cep}`,
+  transform: (r: any): Address => ({ ...r, service: name }),
+});
+
+const mockAddress: Address = {
+  cep: '01001000',
+  state: 'SP',
+  city: 'São Paulo',
+  neighborhood: 'Sé',
+  street: 'Praça da Sé',
+  service: 'Mock',
+};
+
+describe('resolveCepRegion', () => {
+  it('should resolve the state from the CEP range', () => {
+    expect(resolveCepRegion('19999-999')).toEqual({ state: 'SP' });
+    expect(resolveCepRegion('69301000')).toEqual({ state: 'RR', city: 'Boa Vista' });
+    expect(resolveCepRegion('69400000')).toEqual({ state: 'AM' });
+    expect(resolveCepRegion('73700000')).toEqual({ state: 'GO' });
+  });
+
+  it('should resolve the city for major city ranges', () => {
+    expect(resolveCepRegion('01001-000')).toEqual({ state: 'SP', city: 'São Paulo' });
+    expect(resolveCepRegion('13010000')).toEqual({ state: 'SP', city: 'Campinas' });
+    expect(resolveCepRegion('90010000')).toEqual({ state: 'RS', city: 'Porto Alegre' });
+  });
+
+  it('should return undefined outside every range', () => {
+    expect(resolveCepRegion('00999999')).toBeUndefined();
+  });
+
+  it('should reject malformed CEPs', () => {
+    expect(() => resolveCepRegion('123')).toThrow(CepValidationError);
+  });
+});
+
+describe('Offline fallback', () => {
+  it('should return an approximate address when every provider fails', async () => {
+    const cache = new InMemoryCache();
+    const fetcher = jest.fn().mockRejectedValue(new Error('Network error'));
+    const lookup = new CepLookup({ providers: [createMockProvider('A'), createMockProvider('B')], fetcher, cache, offlineFallback: true });
+
+    const result = await lookup.lookupDetailed('13010-000');
+
+    expect(result.address).toEqual({
+      cep: '13010000',
+      state: 'SP',
+      city: 'Campinas',
+      neighborhood: '',
+      street: '',
+      service: 'Offline',
+      approximate: true,
+      ibge: '3509502',
+      ibgeInferred: true,
+      ddd: '19',
+    });
+    expect(result.source).toBe('offline');
+    expect(result.providerErrors).toHaveLength(2);
+    expect(cache.has('13010000')).toBe(false);
+  });
+
+  it('should not fall back when providers agree the CEP does not exist', async () => {
+    const fetcher = jest.fn().mockRejectedValue(new Error('CEP not found'));
+    const lookup = new CepLookup({ providers: [createMockProvider('A')], fetcher, offlineFallback: true });
+
+    await expect(lookup.lookup('01001000')).rejects.toBeInstanceOf(CepNotFoundError);
+  });
+
+  it('should not fall back when any provider says the CEP does not exist', async () => {
+    const fetcher = jest.fn().mockImplementation((url: string) =>
+      Promise.reject(new Error(url.includes('/A/') ? 'CEP not found' : 'Network error'))
+    );
+    const lookup = new CepLookup({ providers: [createMockProvider('A'), createMockProvider('B')], fetcher, offlineFallback: true });
+
+    await expect(lookup.lookup('01001000')).rejects.toBeInstanceOf(AllProvidersFailedError);
+  });
+
+  it('should be disabled by default', async () => {
+    const fetcher = jest.fn().mockRejectedValue(new Error('Network error'));
+    const lookup = new CepLookup({ providers: [createMockProvider('A')], fetcher });
+
+    await expect(lookup.lookup('01001000')).rejects.toThrow('Network error');
+  });
+});
+
+describe('State validation', () => {
+  it('should fail over when a provider returns a state outside the CEP range', async () => {
+    const fetcher = jest.fn().mockImplementation((url: string) =>
+      Promise.resolve(url.includes('/A/') ? { ...mockAddress, state: 'RJ' } : mockAddress)
+    );
+    const lookup = new CepLookup({ providers: [createMockProvider('A'), createMockProvider('B')], fetcher, validateState: true });
+    const failure = jest.fn();
+    lookup.on('failure', failure);
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address).toMatchObject({ service: 'B', state: 'SP' });
+    const error = failure.mock.calls[0][0].error as StateMismatchError;
+    expect(error).toBeInstanceOf(StateMismatchError);
+    expect(error).toMatchObject({ code: 'STATE_MISMATCH', provider: 'A', expected: 'SP', received: 'RJ' });
+  });
+
+  it('should accept mismatched states when validation is off', async () => {
+    const fetcher = jest.fn().mockResolvedValue({ ...mockAddress, state: 'RJ' });
+    const lookup = new CepLookup({ providers: [createMockProvider('A')], fetcher });
+
+    await expect(lookup.lookup('01001000')).resolves.toMatchObject({ state: 'RJ' });
+  });
+});
@@ -35,7 +35,7 @@ describe('Retry mechanism', () => {
     });
 
     const result = await lookup.lookup('01001000');
-    expect(result).toEqual({ ...mockAddress, ddd: '11' });
+    expect(result).toEqual({ ...mockAddress, ibge: '3550308', ibgeInferred: true, ddd: '11' });
     expect(callCount).toBe(2);
   });
 
@@ -0,0 +1,139 @@
+import { CepLookup, InMemoryCache, AddressQueryValidationError, LookupAbortedError, SearchUnsupportedError } from '../src';
+import { viaCepProvider } from '../src/providers';
+import { Address, Provider } from '../src/types';
+
+const candidates = [
+  { cep: '01001-000', uf: 'SP', localidade: 'São Paulo', bairro: 'Sé', logradouro: 'Praça da Sé' },
+  { cep: '01001-001', uf: 'SP', localidade: 'São Paulo', bairro: 'Sé', logradouro: 'Praça da Sé - lado par' },
+];
+
+const query = { state: 'sp', city: 'São Paulo', street: 'Praça da Sé' };
+
+const lookupOnlyProvider: Provider = {
+  name: 'LookupOnly',
+  buildUrl: (cep: string) => `http://test/${cep}`,
+  transform: (r: any): Address => r,
+};
+
+const backupSearchProvider: Provider = {
+  ...viaCepProvider,
+  name: 'Backup',
+  buildSearchUrl: () => 'http://backup/search',
+  transformSearch: (r: any[]) => r.map((item) => ({ ...viaCepProvider.transformSearch!([item])[0], service: 'Backup' })),
+};
+
+describe('searchByAddress', () => {
+  it('should return candidates from search-capable providers only', async () => {
+    const fetcher = jest.fn().mockResolvedValue(candidates);
+    const lookup = new CepLookup({ providers: [lookupOnlyProvider, viaCepProvider], fetcher });
+    const searchSuccess = jest.fn();
+    lookup.on('search:success', searchSuccess);
+
+    const results = await lookup.searchByAddress(query);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(fetcher.mock.calls[0][0]).toBe('https://viacep.com.br/ws/SP/S%C3%A3o%20Paulo/Pra%C3%A7a%20da%20S%C3%A9/json/');
+    expect(results.map((address) => address.cep)).toEqual(['01001000', '01001001']);
+    expect(results[0].ddd).toBe('11');
+    expect(searchSuccess).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: 'ViaCEP', query: { state: 'SP', city: 'São Paulo', street: 'Praça da Sé' } })
+    );
+  });
+
+  it('should fail over to the next search provider', async () => {
+    const fetcher = jest.fn().mockImplementation((url: string) =>
+      url.startsWith('https://viacep') ? Promise.reject(new Error('HTTP error! status: 500')) : Promise.resolve(candidates)
+    );
+    const lookup = new CepLookup({ providers: [viaCepProvider, backupSearchProvider], fetcher });
+    const searchFailure = jest.fn();
+    lookup.on('search:failure', searchFailure);
+
+    const results = await lookup.searchByAddress(query);
+
+    expect(results[0].service).toBe('Backup');
+    expect(searchFailure).toHaveBeenCalledWith(expect.objectContaining({ provider: 'ViaCEP' }));
+    expect(lookup.getProviderHealth().find((h) => h.provider === 'ViaCEP')?.failureCount).toBe(1);
+  });
+
+  it('should write candidates to the cache so lookups skip providers', async () => {
+    const cache = new InMemoryCache();
+    const fetcher = jest.fn().mockResolvedValue(candidates);
+    const lookup = new CepLookup({ providers: [viaCepProvider], fetcher, cache });
+
+    await lookup.searchByAddress(query);
+    const address = await lookup.lookup('01001001');
+
+    expect(address.street).toBe('Praça da Sé - lado par');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run cached candidates through the geocoder, enrichers and provider extras', async () => {
+    const cache = new InMemoryCache();
+    const fetcher = jest.fn().mockResolvedValue(candidates.map((item) => ({ ...item, siafi: '7107' })));
+    const lookup = new CepLookup({
+      providers: [viaCepProvider],
+      fetcher,
+      cache,
+      geocoder: () => ({ lat: -23.55, lng: -46.63, precision: 'street' }),
+      enrichers: [() => ({ region: 'Sudeste' } as Partial<Address>)],
+    });
+
+    const [first] = await lookup.searchByAddress(query);
+    const cached = await lookup.lookup('01001001');
+
+    expect(first).toMatchObject({ location: { precision: 'street' }, extras: { siafi: '7107' }, region: 'Sudeste' });
+    expect(cached).toMatchObject({ location: { precision: 'street' }, extras: { siafi: '7107' }, region: 'Sudeste' });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resolve an empty list when nothing matches', async () => {
+    const fetcher = jest.fn().mockResolvedValue([]);
+    const lookup = new CepLookup({ providers: [viaCepProvider], fetcher });
+
+    await expect(lookup.searchByAddress(query)).resolves.toEqual([]);
+  });
+
+  it('should validate the query before calling providers', async () => {
+    const fetcher = jest.fn();
+    const lookup = new CepLookup({ providers: [viaCepProvider], fetcher });
+
+    await expect(lookup.searchByAddress({ ...query, state: 'São Paulo' })).rejects.toBeInstanceOf(AddressQueryValidationError);
+    await expect(lookup.searchByAddress({ ...query, street: 'Sé' })).rejects.toMatchObject({ field: 'street' });
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('should reject when no provider supports search', async () => {
+    const lookup = new CepLookup({ providers: [lookupOnlyProvider], fetcher: jest.fn() });
+
+    const error = await lookup.searchByAddress(query).catch((e) => e);
+    expect(error).toBeInstanceOf(SearchUnsupportedError);
+    expect(error).toMatchObject({ code: 'SEARCH_UNSUPPORTED', message: 'No configured provider supports address search.' });
+  });
+
+  it('should honor an abort signal', async () => {
+    const fetcher = jest.fn().mockImplementation(
+      (_url: string, signal?: AbortSignal) =>
+        new Promise((_, reject) => signal?.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError'))))
+    );
+    const lookup = new CepLookup({ providers: [viaCepProvider], fetcher });
+    const controller = new AbortController();
+
+    const search = lookup.searchByAddress(query, { signal: controller.signal });
+    controller.abort();
+
+    await expect(search).rejects.toBeInstanceOf(LookupAbortedError);
+    expect((fetcher.mock.calls[0][1] as AbortSignal).aborted).toBe(true);
+  });
+
+  it('should honor an abort signal while candidates are enriched', async () => {
+    const cache = new InMemoryCache();
+    const slowEnricher = () => new Promise<Partial<Address>>((resolve) => setTimeout(() => resolve({}), 300));
+    const lookup = new CepLookup({ providers: [viaCepProvider], fetcher: jest.fn().mockResolvedValue(candidates), cache, enrichers: [slowEnricher] });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(lookup.searchByAddress(query, { signal: controller.signal })).rejects.toBeInstanceOf(LookupAbortedError);
+    await new Promise((resolve) => setTimeout(resolve, 320));
+    expect(cache.get('01001000')).toBeUndefined();
+  });
+});
@@ -0,0 +1,78 @@
+import { parseStreet, normalizeAddress } from '../src';
+import { viaCepProvider, openCepProvider } from '../src/providers';
+
+describe('parseStreet', () => {
+  it('should split type and name', () => {
+    expect(parseStreet('Praça da Sé')).toEqual({ streetType: 'Praça', streetName: 'da Sé' });
+    expect(parseStreet('Avenida Paulista')).toEqual({ streetType: 'Avenida', streetName: 'Paulista' });
+  });
+
+  it('should expand abbreviated types', () => {
+    expect(parseStreet('Av. Brigadeiro Faria Lima')).toEqual({ streetType: 'Avenida', streetName: 'Brigadeiro Faria Lima' });
+    expect(parseStreet('R Augusta')).toEqual({ streetType: 'Rua', streetName: 'Augusta' });
+  });
+
+  it('should take the complement from text after " - "', () => {
+    expect(parseStreet('Avenida Paulista - lado ímpar')).toEqual({
+      streetType: 'Avenida',
+      streetName: 'Paulista',
+      complement: 'lado ímpar',
+    });
+  });
+
+  it('should prefer the provider complement field', () => {
+    expect(parseStreet('Rua Augusta', 'até 999/1000')).toEqual({ streetType: 'Rua', streetName: 'Augusta', complement: 'até 999/1000' });
+  });
+
+  it('should keep unknown types in the name', () => {
+    expect(parseStreet('Sete de Setembro')).toEqual({ streetName: 'Sete de Setembro' });
+    expect(parseStreet('Rua')).toEqual({ streetName: 'Rua' });
+    expect(parseStreet('')).toEqual({});
+  });
+});
+
+describe('Structured street in providers', () => {
+  it("viaCepProvider should use ViaCEP's complemento", () => {
+    const address = viaCepProvider.transform({
+      cep: '01310-100',
+      logradouro: 'Avenida Paulista',
+      complemento: 'de 612 a 1510 - lado par',
+      bairro: 'Bela Vista',
+      localidade: 'São Paulo',
+      uf: 'SP',
+    });
+
+    expect(address).toMatchObject({
+      street: 'Avenida Paulista',
+      streetType: 'Avenida',
+      streetName: 'Paulista',
+      complement: 'de 612 a 1510 - lado par',
+    });
+  });
+
+  it("openCepProvider should parse the complement embedded in logradouro", () => {
+    const address = openCepProvider.transform({
+      cep: '01001-000',
+      logradouro: 'Praça da Sé - lado ímpar',
+      bairro: 'Sé',
+      localidade: 'São Paulo',
+      uf: 'SP',
+    });
+
+    expect(address).toMatchObject({ streetType: 'Praça', streetName: 'da Sé', complement: 'lado ímpar' });
+  });
+
+  it('should keep structured parts in step with normalization', () => {
+    const address = normalizeAddress({
+      cep: '01310100',
+      state: 'SP',
+      city: 'São Paulo',
+      neighborhood: 'BELA VISTA',
+      street: 'AV. PAULISTA',
+      ...parseStreet('AV. PAULISTA'),
+      service: 'Mock',
+    });
+
+    expect(address).toMatchObject({ street: 'Avenida Paulista', streetType: 'Avenida', streetName: 'Paulista' });
+  });
+});
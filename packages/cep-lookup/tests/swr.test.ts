@@ -0,0 +1,109 @@
+import { CepLookup, InMemoryCache } from '../src';
+import { Address, Provider } from '../src/types';
+
+const staleAddress: Address = {
+  cep: '01001000',
+  state: 'SP',
+  city: 'São Paulo',
+  neighborhood: 'Sé',
+  street: 'Praça da Sé',
+  ibge: '3550308',
+  service: 'Mock',
+  ddd: '11',
+};
+
+const mockProvider: Provider = {
+  name: 'Mock',
+  buildUrl: (cep: string) => `http://test/${cep}`,
+  transform: (r: any): Address => r,
+};
+
+const flushPromises = () => new Promise((resolve) => jest.requireActual('timers').setImmediate(resolve));
+
+describe('Stale-while-revalidate', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  const createStaleCache = () => {
+    const cache = new InMemoryCache({ ttl: 1000, staleTtl: 60_000 });
+    cache.set('01001000', staleAddress);
+    jest.advanceTimersByTime(1500);
+    return cache;
+  };
+
+  it('should return the stale address immediately and revalidate in the background', async () => {
+    const cache = createStaleCache();
+    const freshAddress = { ...staleAddress, street: 'Praça da Sé - lado ímpar' };
+    const fetcher = jest.fn().mockResolvedValue(freshAddress);
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher, cache, swr: true });
+    const stale = jest.fn();
+    const revalidated = jest.fn();
+    lookup.on('cache:stale', stale);
+    lookup.on('cache:revalidated', revalidated);
+
+    await expect(lookup.lookup('01001000')).resolves.toEqual(staleAddress);
+    expect(stale).toHaveBeenCalledWith({ cep: '01001000', address: staleAddress });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    await flushPromises();
+    expect(revalidated).toHaveBeenCalledWith({ cep: '01001000', previous: staleAddress, address: freshAddress });
+    expect(cache.getEntry('01001000')).toEqual({ value: freshAddress, stale: false });
+  });
+
+  it('should not emit cache:revalidated when the fresh address is unchanged', async () => {
+    const cache = createStaleCache();
+    const fetcher = jest.fn().mockResolvedValue({ ...staleAddress, service: 'Other' });
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher, cache, swr: true });
+    const revalidated = jest.fn();
+    lookup.on('cache:revalidated', revalidated);
+
+    await lookup.lookup('01001000');
+    await flushPromises();
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(revalidated).not.toHaveBeenCalled();
+  });
+
+  it('should keep serving the stale address when revalidation fails', async () => {
+    const cache = createStaleCache();
+    const fetcher = jest.fn().mockRejectedValue(new Error('Network error'));
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher, cache, swr: true });
+
+    await expect(lookup.lookup('01001000')).resolves.toEqual(staleAddress);
+    await flushPromises();
+    await expect(lookup.lookup('01001000')).resolves.toEqual(staleAddress);
+  });
+
+  it('should not report the offline fallback as a revalidated address', async () => {
+    const cache = createStaleCache();
+    const fetcher = jest.fn().mockRejectedValue(new Error('Network error'));
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher, cache, swr: true, offlineFallback: true });
+    const revalidated = jest.fn();
+    lookup.on('cache:revalidated', revalidated);
+
+    await expect(lookup.lookup('01001000')).resolves.toEqual(staleAddress);
+    await flushPromises();
+
+    expect(revalidated).not.toHaveBeenCalled();
+    expect(cache.getEntry('01001000')).toEqual({ value: staleAddress, stale: true });
+  });
+
+  it('should share one revalidation between concurrent stale hits', async () => {
+    const cache = createStaleCache();
+    const fetcher = jest.fn().mockImplementation(() => new Promise(() => {}));
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher, cache, swr: true });
+
+    await Promise.all([lookup.lookup('01001000'), lookup.lookup('01001000')]);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore stale entries when swr is disabled', async () => {
+    const cache = createStaleCache();
+    const freshAddress = { ...staleAddress, street: 'Nova' };
+    const fetcher = jest.fn().mockResolvedValue(freshAddress);
+    const lookup = new CepLookup({ providers: [mockProvider], fetcher, cache });
+
+    await expect(lookup.lookup('01001000')).resolves.toEqual(freshAddress);
+  });
+});
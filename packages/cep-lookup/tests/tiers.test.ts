@@ -0,0 +1,125 @@
+import { CepLookup, AllProvidersFailedError } from '../src';
+import { Address, Provider } from '../src/types';
+
+const mockAddress: Address = {
+  cep: '01001000',
+  state: 'SP',
+  city: 'São Paulo',
+  neighborhood: 'Sé',
+  street: 'Praça da Sé',
+  service: 'Mock',
+};
+
+const createMockProvider = (name: string, options: Partial<Provider> = {}): Provider => ({
+  name,
+  buildUrl: (cep: string) => `http://test/${name}/${cep}`,
+  transform: (r: any): Address => ({ ...r, service: name }),
+  ...options,
+});
+
+// Rejects for the named providers, resolves for the others
+const fetcherFailing = (...failing: string[]) =>
+  jest.fn().mockImplementation((url: string) =>
+    failing.includes(url.split('/')[3]) ? Promise.reject(new Error('Network error')) : Promise.resolve(mockAddress)
+  );
+
+const calledProviders = (fetcher: jest.Mock) => fetcher.mock.calls.map(([url]) => url.split('/')[3]);
+
+describe('Provider tiers', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should only race providers of the top tier', async () => {
+    const fetcher = fetcherFailing();
+    const lookup = new CepLookup({
+      providers: [createMockProvider('Free', { tier: 1 }), createMockProvider('Paid', { tier: 0 })],
+      fetcher,
+      staggerDelay: 0,
+    });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address.service).toBe('Paid');
+    expect(calledProviders(fetcher)).toEqual(['Paid']);
+  });
+
+  it('should escalate to the next tier when the whole tier fails', async () => {
+    const fetcher = fetcherFailing('PaidA', 'PaidB');
+    const lookup = new CepLookup({
+      providers: [createMockProvider('PaidA'), createMockProvider('PaidB'), createMockProvider('Free', { tier: 1 })],
+      fetcher,
+      staggerDelay: 0,
+    });
+
+    const result = await lookup.lookupDetailed('01001000');
+
+    expect(result.provider).toBe('Free');
+    expect(result.providerErrors.map(({ provider }) => provider).sort()).toEqual(['PaidA', 'PaidB']);
+  });
+
+  it('should report every provider error when all tiers fail', async () => {
+    const fetcher = fetcherFailing('Paid', 'Free');
+    const lookup = new CepLookup({
+      providers: [createMockProvider('Paid'), createMockProvider('Free', { tier: 1 })],
+      fetcher,
+    });
+
+    const error = await lookup.lookup('01001000').catch((e) => e);
+
+    expect(error).toBeInstanceOf(AllProvidersFailedError);
+    expect(error.errors).toHaveLength(2);
+  });
+
+  it('should skip a tier whose circuits are all open', async () => {
+    const fetcher = fetcherFailing('Paid');
+    const lookup = new CepLookup({
+      providers: [createMockProvider('Paid'), createMockProvider('Free', { tier: 1 })],
+      fetcher,
+      circuitBreaker: { failureThreshold: 1, cooldownMs: 60000 },
+    });
+
+    await lookup.lookup('01001000');
+    fetcher.mockClear();
+    await lookup.lookup('01001001');
+
+    expect(calledProviders(fetcher)).toEqual(['Free']);
+  });
+
+  it('should try higher priorities first within a tier', async () => {
+    const fetcher = fetcherFailing();
+    const lookup = new CepLookup({
+      providers: [createMockProvider('Low'), createMockProvider('High', { priority: 10 })],
+      fetcher,
+      staggerDelay: 1000,
+    });
+
+    const address = await lookup.lookup('01001000');
+
+    expect(address.service).toBe('High');
+    expect(calledProviders(fetcher)).toEqual(['High']);
+  });
+
+  it('should pick the leading provider in proportion to its weight', async () => {
+    const random = jest.spyOn(Math, 'random');
+    const fetcher = fetcherFailing();
+    const lookup = new CepLookup({
+      providers: [createMockProvider('A', { weight: 3 }), createMockProvider('B', { weight: 1 })],
+      fetcher,
+      staggerDelay: 1000,
+      dedupe: false,
+    });
+
+    random.mockReturnValue(0.5); // 2 of 4: within A's share
+    expect((await lookup.lookup('01001000')).service).toBe('A');
+    random.mockReturnValue(0.9); // 3.6 of 4: within B's share
+    expect((await lookup.lookup('01001001')).service).toBe('B');
+  });
+
+  it('should keep the health-score order when no weight is set', async () => {
+    const random = jest.spyOn(Math, 'random');
+    const lookup = new CepLookup({ providers: [createMockProvider('A'), createMockProvider('B')], fetcher: fetcherFailing() });
+
+    await lookup.lookup('01001000');
+
+    expect(random).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,152 @@
+import { WebStorageCache } from '../src';
+import { WebStorageLike } from '../src/cache/web-storage';
+import { Address } from '../src/types';
+
+const mockAddress: Address = {
+  cep: '01001000',
+  state: 'SP',
+  city: 'São Paulo',
+  neighborhood: 'Sé',
+  street: 'Praça da Sé',
+  service: 'test',
+};
+
+// Minimal Storage implementation with an optional byte quota
+class MemoryStorage implements WebStorageLike {
+  private items = new Map<string, string>();
+
+  constructor(private quota = Infinity) {}
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    const used = [...this.items.values()].reduce((total, item) => total + item.length, 0);
+    if (used + value.length > this.quota) {
+      const error = new Error('The quota has been exceeded.');
+      error.name = 'QuotaExceededError';
+      throw error;
+    }
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+describe('WebStorageCache', () => {
+  afterEach(() => jest.useRealTimers());
+
+  it('should store and read addresses under the prefix', () => {
+    const storage = new MemoryStorage();
+    const cache = new WebStorageCache({ storage, prefix: 'app:' });
+    cache.set('01001000', mockAddress);
+
+    expect(cache.get('01001000')).toEqual(mockAddress);
+    expect(cache.has('01001000')).toBe(true);
+    expect(storage.key(0)).toBe('app:01001000');
+  });
+
+  it('should survive a new instance on the same storage (page reload)', () => {
+    const storage = new MemoryStorage();
+    new WebStorageCache({ storage }).set('01001000', mockAddress);
+
+    expect(new WebStorageCache({ storage }).get('01001000')).toEqual(mockAddress);
+  });
+
+  it('should expire entries after ttl', () => {
+    jest.useFakeTimers();
+    const storage = new MemoryStorage();
+    const cache = new WebStorageCache({ storage, ttl: 1000 });
+    cache.set('01001000', mockAddress);
+    jest.advanceTimersByTime(1001);
+
+    expect(cache.get('01001000')).toBeUndefined();
+    expect(storage.length).toBe(0);
+  });
+
+  it('should invalidate entries written with another schema version', () => {
+    const storage = new MemoryStorage();
+    new WebStorageCache({ storage, version: 1 }).set('01001000', mockAddress);
+
+    expect(new WebStorageCache({ storage, version: 2 }).get('01001000')).toBeUndefined();
+  });
+
+  it('should evict the oldest entries beyond maxEntries', () => {
+    jest.useFakeTimers();
+    const storage = new MemoryStorage();
+    const cache = new WebStorageCache({ storage, maxEntries: 2 });
+    cache.set('a', mockAddress);
+    jest.advanceTimersByTime(1);
+    cache.set('b', mockAddress);
+    jest.advanceTimersByTime(1);
+    cache.set('c', mockAddress);
+
+    expect(cache.has('a')).toBe(false);
+    expect(cache.has('b')).toBe(true);
+    expect(cache.has('c')).toBe(true);
+  });
+
+  it('should not read existing entries while under maxEntries', () => {
+    const storage = new MemoryStorage();
+    const cache = new WebStorageCache({ storage, maxEntries: 3 });
+    const getItem = jest.spyOn(storage, 'getItem');
+    cache.set('a', mockAddress);
+    cache.set('b', mockAddress);
+    cache.set('c', mockAddress);
+    expect(getItem).not.toHaveBeenCalled();
+
+    cache.set('d', mockAddress);
+    expect(getItem).toHaveBeenCalled();
+    expect(storage.length).toBe(3);
+  });
+
+  it('should free space and retry when the quota is exceeded', () => {
+    jest.useFakeTimers();
+    const entrySize = JSON.stringify({ version: '1.1', value: mockAddress, timestamp: Date.now() }).length;
+    const storage = new MemoryStorage(entrySize * 3);
+    const cache = new WebStorageCache({ storage });
+    ['a', 'b', 'c', 'd'].forEach((key) => {
+      cache.set(key, mockAddress);
+      jest.advanceTimersByTime(1);
+    });
+
+    expect(cache.has('d')).toBe(true);
+    expect(cache.has('a')).toBe(false);
+  });
+
+  it('should never throw when the quota cannot be satisfied', () => {
+    const cache = new WebStorageCache({ storage: new MemoryStorage(10) });
+
+    expect(() => cache.set('01001000', mockAddress)).not.toThrow();
+    expect(cache.get('01001000')).toBeUndefined();
+  });
+
+  it('should only clear its own namespace', () => {
+    const storage = new MemoryStorage();
+    storage.setItem('other', 'value');
+    const cache = new WebStorageCache({ storage });
+    cache.set('01001000', mockAddress);
+    cache.clear();
+
+    expect(cache.get('01001000')).toBeUndefined();
+    expect(storage.getItem('other')).toBe('value');
+  });
+
+  it('should be a no-op when no storage is available', () => {
+    const cache = new WebStorageCache();
+
+    expect(() => cache.set('01001000', mockAddress)).not.toThrow();
+    expect(cache.get('01001000')).toBeUndefined();
+  });
+});
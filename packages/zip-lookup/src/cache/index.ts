@@ -13,6 +13,12 @@ interface CacheEntry {
   timestamp: number;
 }
 
+/** Serializable copy of an `InMemoryCache`, preserving entry timestamps so TTLs survive a restart. */
+export interface ZipCacheSnapshot {
+  version: 1;
+  entries: Array<{ key: string; value: ZipAddress; timestamp: number }>;
+}
+
 export interface InMemoryCacheOptions {
   /** Time-to-live in milliseconds. Default: Infinity (no expiry) */
   ttl?: number;
@@ -30,10 +36,14 @@ export class InMemoryCache implements ZipCache {
     this.maxSize = options?.maxSize ?? Infinity;
   }
 
+  private isExpired(entry: CacheEntry): boolean {
+    return this.ttl !== Infinity && Date.now() - entry.timestamp > this.ttl;
+  }
+
   get(key: string): ZipAddress | undefined {
     const entry = this.cache.get(key);
     if (!entry) return undefined;
-    if (this.ttl !== Infinity && Date.now() - entry.timestamp > this.ttl) {
+    if (this.isExpired(entry)) {
       this.cache.delete(key);
       return undefined;
     }
@@ -60,7 +70,7 @@ export class InMemoryCache implements ZipCache {
   has(key: string): boolean {
     if (!this.cache.has(key)) return false;
     const entry = this.cache.get(key)!;
-    if (this.ttl !== Infinity && Date.now() - entry.timestamp > this.ttl) {
+    if (this.isExpired(entry)) {
       this.cache.delete(key);
       return false;
     }
@@ -70,4 +80,44 @@ export class InMemoryCache implements ZipCache {
   clear(): void {
     this.cache.clear();
   }
+
+  /** Returns a snapshot of all unexpired entries, oldest first. */
+  export(): ZipCacheSnapshot {
+    const entries: ZipCacheSnapshot['entries'] = [];
+    this.cache.forEach((entry, key) => {
+      if (!this.isExpired(entry)) {
+        entries.push({ key, value: entry.value, timestamp: entry.timestamp });
+      }
+    });
+    return { version: 1, entries };
+  }
+
+  toJSON(): ZipCacheSnapshot {
+    return this.export();
+  }
+
+  /** Restores entries from a snapshot, keeping their original timestamps and enforcing `maxSize`. */
+  load(snapshot: ZipCacheSnapshot): void {
+    if (!snapshot || snapshot.version !== 1 || !Array.isArray(snapshot.entries)) return;
+    [...snapshot.entries]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach(({ key, value, timestamp }) => {
+        const entry = { value, timestamp };
+        if (this.isExpired(entry)) return;
+        this.cache.delete(key);
+        if (this.cache.size >= this.maxSize) {
+          const oldestKey = this.cache.keys().next().value;
+          if (oldestKey !== undefined) {
+            this.cache.delete(oldestKey);
+          }
+        }
+        this.cache.set(key, entry);
+      });
+  }
+
+  static fromSnapshot(snapshot: ZipCacheSnapshot, options?: InMemoryCacheOptions): InMemoryCache {
+    const cache = new InMemoryCache(options);
+    cache.load(snapshot);
+    return cache;
+  }
 }
@@ -3,7 +3,7 @@ import {
   RateLimitOptions, EventName, EventListener, EventMap,
   ProviderHealth, ProviderMetrics, CircuitBreakerOptions,
 } from "./types";
-import { ZipCache, InMemoryCache, InMemoryCacheOptions } from "./cache";
+import { ZipCache, ZipCacheSnapshot, InMemoryCache, InMemoryCacheOptions } from "./cache";
 import {
   ZipValidationError, RateLimitError, ProviderTimeoutError, ZipNotFoundError,
   AllProvidersFailedError, ProviderUnavailableError, normalizeProviderError,
@@ -12,7 +12,7 @@ import {
 export type {
   ZipAddress, Fetcher, ZipProvider, ZipLookupOptions, BulkZipResult,
   RateLimitOptions, EventName, EventListener, EventMap, ZipCache,
-  InMemoryCacheOptions, ProviderHealth, ProviderMetrics, CircuitBreakerOptions,
+  ZipCacheSnapshot, InMemoryCacheOptions, ProviderHealth, ProviderMetrics, CircuitBreakerOptions,
 };
 export { InMemoryCache };
 export {
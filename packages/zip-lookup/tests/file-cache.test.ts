@@ -0,0 +1,64 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { FileCache } from "../src/node";
+import { ZipAddress } from "../src/types";
+
+const address: ZipAddress = {
+  zip: "10001",
+  city: "New York City",
+  state: "New York",
+  stateAbbr: "NY",
+  country: "United States",
+  service: "test",
+};
+
+describe("FileCache", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "zip-cache-"));
+    path = join(dir, "cache.json");
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("persists on flush and reloads on construction", () => {
+    const cache = new FileCache({ path, interval: 0 });
+    cache.set("10001", address);
+    cache.stop();
+
+    expect(new FileCache({ path, interval: 0 }).get("10001")).toEqual(address);
+  });
+
+  it("flushes on the configured interval", () => {
+    jest.useFakeTimers();
+    const cache = new FileCache({ path, interval: 1000 });
+    cache.set("10001", address);
+
+    jest.advanceTimersByTime(1000);
+
+    expect(JSON.parse(readFileSync(path, "utf8")).entries).toHaveLength(1);
+  });
+
+  it("starts empty when the snapshot file is missing or corrupt", () => {
+    expect(new FileCache({ path, interval: 0 }).export().entries).toHaveLength(0);
+
+    writeFileSync(path, "{not json");
+    expect(new FileCache({ path, interval: 0 }).export().entries).toHaveLength(0);
+  });
+
+  it("reports interval flush failures instead of throwing", () => {
+    jest.useFakeTimers();
+    const onError = jest.fn();
+    const cache = new FileCache({ path: join(dir, "missing-dir", "cache.json"), interval: 50, onError });
+    cache.set("10001", address);
+
+    expect(() => jest.advanceTimersByTime(50)).not.toThrow();
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: "ENOENT" }));
+  });
+});
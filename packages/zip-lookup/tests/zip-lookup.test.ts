@@ -2,6 +2,10 @@ import { ZipLookup } from "../src";
 import { ZipValidationError, ZipNotFoundError, AllProvidersFailedError, RateLimitError } from "../src/errors";
 import { ZipAddress, ZipProvider } from "../src/types";
 import { InMemoryCache } from "../src/cache";
+import { FileCache } from "../src/node";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
 
 function makeProvider(name: string, overrides: Partial<ZipProvider> = {}): ZipProvider {
   return {
@@ -134,6 +138,34 @@ describe("ZipLookup", () => {
       await lookup.lookup("10001");
       expect(listener).toHaveBeenCalledWith({ zip: "10001" });
     });
+
+    it("restores a snapshot with original timestamps", async () => {
+      jest.useFakeTimers();
+      const address = makeProvider("A").transform({});
+      const cache = new InMemoryCache({ ttl: 5000 });
+      cache.set("10001", address);
+      jest.advanceTimersByTime(3000);
+
+      const restored = InMemoryCache.fromSnapshot(JSON.parse(JSON.stringify(cache)), { ttl: 5000 });
+      expect(restored.get("10001")).toEqual(address);
+      jest.advanceTimersByTime(2001);
+      expect(restored.get("10001")).toBeUndefined();
+      jest.useRealTimers();
+    });
+
+    it("persists a FileCache to disk and reloads it", async () => {
+      const dir = mkdtempSync(join(tmpdir(), "zip-cache-"));
+      const path = join(dir, "cache.json");
+      const address = makeProvider("A").transform({});
+      try {
+        const cache = new FileCache({ path, interval: 0 });
+        cache.set("10001", address);
+        cache.stop();
+        expect(new FileCache({ path, interval: 0 }).get("10001")).toEqual(address);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe("rateLimit", () => {